@@ -0,0 +1,23 @@
+import { AbiDocument } from './schemas/abi.schema';
+import { DecodedCall } from './abis.service';
+
+export function formatAbi(abi: AbiDocument) {
+    return {
+        id: abi._id,
+        name: abi.name,
+        chainId: abi.chainId,
+        address: abi.address,
+        abi: abi.abi,
+        createdAt: abi.createdAt,
+    };
+}
+
+export function formatDecodedCall(call: DecodedCall) {
+    return {
+        abiId: call.abi._id,
+        abiName: call.abi.name,
+        function: call.function.name,
+        signature: call.signature,
+        args: call.args,
+    };
+}
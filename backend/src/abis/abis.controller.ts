@@ -0,0 +1,29 @@
+import { Body, Controller, Get, Post, Query } from '@nestjs/common';
+import { AbisService } from './abis.service';
+import { CreateAbiDto } from './dto/create-abi.dto';
+import { formatAbi } from './abi-response';
+import { ChainIdQueryDto } from '../networks/dto/chain-id-query.dto';
+
+@Controller('abis')
+export class AbisController {
+    constructor(private readonly abisService: AbisService) { }
+
+    // ABIs for every network unless `chainId` narrows the list
+    @Get()
+    async findAll(@Query() query: ChainIdQueryDto) {
+        const abis = await this.abisService.findAll(query.chainId);
+        return {
+            success: true,
+            data: abis.map(formatAbi),
+        };
+    }
+
+    @Post()
+    async create(@Body() createAbiDto: CreateAbiDto) {
+        const abi = await this.abisService.create(createAbiDto);
+        return {
+            success: true,
+            data: formatAbi(abi),
+        };
+    }
+}
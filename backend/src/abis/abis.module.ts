@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AbisController } from './abis.controller';
+import { AbisService } from './abis.service';
+import { Abi, AbiSchema } from './schemas/abi.schema';
+import { NetworksModule } from '../networks/networks.module';
+
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            { name: Abi.name, schema: AbiSchema },
+        ]),
+        NetworksModule,
+    ],
+    controllers: [AbisController],
+    providers: [AbisService],
+    exports: [AbisService],
+})
+export class AbisModule { }
@@ -0,0 +1,118 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, isValidObjectId } from 'mongoose';
+import { Abi, AbiDocument } from './schemas/abi.schema';
+import { CreateAbiDto } from './dto/create-abi.dto';
+import { toChecksumAddress } from '../chain/address';
+import { DecodedFunctionCall, decodeFunctionCall, encodeFunctionCall, findFunction, parseAbi } from '../chain/abi';
+import { NetworksService } from '../networks/networks.service';
+
+export type DecodedCall = DecodedFunctionCall & {
+    abi: AbiDocument;
+};
+
+/**
+ * Uploaded contract ABIs, and encoding and decoding contract calls with them.
+ */
+@Injectable()
+export class AbisService {
+    constructor(
+        @InjectModel(Abi.name)
+        private abiModel: Model<AbiDocument>,
+        private readonly networks: NetworksService,
+    ) { }
+
+    // Every ABI, or those usable on `chainId`: bound to one of its contracts or unbound
+    async findAll(chainId?: number): Promise<AbiDocument[]> {
+        const filter: FilterQuery<AbiDocument> = chainId ? { chainId: { $in: [chainId, null] } } : {};
+        return this.abiModel.find(filter).sort({ name: 1 }).exec();
+    }
+
+    // The ABI a request names; an unknown one is a bad request
+    async resolve(id: string): Promise<AbiDocument> {
+        const abi = isValidObjectId(id) ? await this.abiModel.findById(id).exec() : null;
+        if (!abi) {
+            throw new BadRequestException(`ABI ${id} not found`);
+        }
+        return abi;
+    }
+
+    async create(dto: CreateAbiDto): Promise<AbiDocument> {
+        let functions;
+        try {
+            functions = parseAbi(dto.abi);
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+        if (functions.length === 0) {
+            throw new BadRequestException('ABI has no functions');
+        }
+
+        if (dto.chainId) {
+            await this.networks.resolve(dto.chainId);
+        }
+        return this.abiModel.create({
+            name: dto.name,
+            abi: dto.abi,
+            chainId: dto.chainId ?? null,
+            address: dto.address ? toChecksumAddress(dto.address) : null,
+        });
+    }
+
+    // Calldata for calling `fn`, a function name or full signature, with `args`
+    encodeCall(abi: AbiDocument, fn: string, args: unknown[]): string {
+        try {
+            return encodeFunctionCall(findFunction(parseAbi(abi.abi), fn), args);
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+    }
+
+    /**
+     * Decodes calldata sent to `address` on `chainId`, trying the ABIs bound
+     * to that contract before unbound ones. Null when none of them has the
+     * function or the arguments do not decode.
+     */
+    async decodeCall(chainId: number, address: string, data: string): Promise<DecodedCall | null> {
+        for (const abi of await this.candidates(chainId, address)) {
+            try {
+                const call = decodeFunctionCall(parseAbi(abi.abi), data);
+                if (call) return { ...call, abi };
+            } catch {
+                // Another ABI may share the selector with different arguments
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Rejects raw calldata that the ABIs bound to the contract it is sent to
+     * cannot decode. Calldata for contracts without a bound ABI is not checked.
+     */
+    async checkCalldata(chainId: number, address: string, data: string): Promise<void> {
+        const bound = await this.abiModel.find({ chainId, address: toChecksumAddress(address) }).exec();
+        if (bound.length === 0 || data === '0x') return;
+
+        let lastError: Error | null = null;
+        for (const abi of bound) {
+            try {
+                if (decodeFunctionCall(parseAbi(abi.abi), data)) return;
+            } catch (error) {
+                lastError = error;
+            }
+        }
+        throw new BadRequestException(
+            lastError
+                ? `data does not match the ABI of ${address}: ${lastError.message}`
+                : `data calls selector ${data.slice(0, 10)}, which the ABI of ${address} does not have`,
+        );
+    }
+
+    private async candidates(chainId: number, address: string): Promise<AbiDocument[]> {
+        const abis = await this.abiModel
+            .find({ $or: [{ chainId, address: toChecksumAddress(address) }, { chainId: null }] })
+            .sort({ createdAt: 1 })
+            .exec();
+        return [...abis.filter((abi) => abi.address !== null), ...abis.filter((abi) => abi.address === null)];
+    }
+}
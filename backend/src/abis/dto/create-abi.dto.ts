@@ -0,0 +1,23 @@
+import { ArrayNotEmpty, IsArray, IsInt, IsString, Length, Matches, Min, ValidateIf } from 'class-validator';
+
+export class CreateAbiDto {
+    @IsString()
+    @Length(1, 64)
+    name: string;
+
+    // The JSON ABI array, as compilers and block explorers export it
+    @IsArray()
+    @ArrayNotEmpty()
+    abi: Record<string, any>[];
+
+    // Binds the ABI to one contract; both or neither must be given
+    @ValidateIf((dto) => dto.address !== undefined)
+    @IsInt()
+    @Min(1)
+    chainId?: number;
+
+    @ValidateIf((dto) => dto.chainId !== undefined)
+    @IsString()
+    @Matches(/^0x[a-fA-F0-9]{40}$/, { message: 'address must be a valid Ethereum address' })
+    address?: string;
+}
@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+
+export type AbiDocument = Abi & Document & {
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * An uploaded contract ABI, used to encode contract calls and to decode the
+ * calldata of transactions. One bound to a contract on a network is only
+ * matched against calls to that contract; an unbound one against any.
+ */
+@Schema({ timestamps: true })
+export class Abi {
+  @Prop({ required: true })
+  name: string;
+
+  // The JSON ABI as uploaded; only its functions are used
+  @Prop({ type: [MongooseSchema.Types.Mixed], required: true })
+  abi: Record<string, any>[];
+
+  @Prop({ type: Number, default: null })
+  chainId: number | null;
+
+  // EIP-55 checksummed contract address
+  @Prop({ type: String, default: null })
+  address: string | null;
+}
+
+export const AbiSchema = SchemaFactory.createForClass(Abi);
+
+AbiSchema.index({ chainId: 1, address: 1 });
@@ -0,0 +1,28 @@
+import { AccountDocument } from './schemas/account.schema';
+import { AccountBalance } from './balance.service';
+
+export function formatAccount(account: AccountDocument) {
+    return {
+        id: account._id.toString(),
+        address: account.address,
+        label: account.label ?? null,
+        index: account.index,
+        path: account.path,
+        createdAt: (account.createdAt || new Date()).toISOString(),
+    };
+}
+
+// Amounts are integer base units of the asset, as decimal strings
+export function formatBalance(balance: AccountBalance) {
+    return {
+        address: balance.address,
+        chainId: balance.chainId,
+        tokenAddress: balance.tokenAddress,
+        symbol: balance.symbol,
+        decimals: balance.decimals,
+        openingBalance: balance.openingBalance.toString(),
+        balance: balance.balance.toString(),
+        pendingOutflow: balance.pendingOutflow.toString(),
+        available: balance.available.toString(),
+    };
+}
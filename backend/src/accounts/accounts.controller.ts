@@ -0,0 +1,77 @@
+import { Body, Controller, Get, Param, Post, Put, Query, UseGuards } from '@nestjs/common';
+import { AccountsService } from './accounts.service';
+import { NonceService } from './nonce.service';
+import { BalanceService } from './balance.service';
+import { AccountAddressParamDto } from './dto/account-address-param.dto';
+import { CreateAccountDto } from './dto/create-account.dto';
+import { BalanceQueryDto } from './dto/balance-query.dto';
+import { SetOpeningBalanceDto } from './dto/set-opening-balance.dto';
+import { formatAccount, formatBalance } from './account-response';
+import { ChainIdQueryDto } from '../networks/dto/chain-id-query.dto';
+import { NetworksService } from '../networks/networks.service';
+import { AdminTokenGuard } from '../common/admin-token.guard';
+
+@Controller('accounts')
+export class AccountsController {
+    constructor(
+        private readonly accountsService: AccountsService,
+        private readonly nonceService: NonceService,
+        private readonly balanceService: BalanceService,
+        private readonly networksService: NetworksService,
+    ) { }
+
+    @Get()
+    async findAll() {
+        const accounts = await this.accountsService.findAll();
+        return {
+            success: true,
+            data: accounts.map((account) => formatAccount(account)),
+        };
+    }
+
+    @Post()
+    async create(@Body() createAccountDto: CreateAccountDto) {
+        const account = await this.accountsService.create(createAccountDto);
+        return {
+            success: true,
+            data: formatAccount(account),
+        };
+    }
+
+    @Get(':address/nonce')
+    async getNonce(@Param() params: AccountAddressParamDto, @Query() query: ChainIdQueryDto) {
+        const network = await this.networksService.resolve(query.chainId);
+        return {
+            success: true,
+            data: await this.nonceService.getState(params.address, network.chainId),
+        };
+    }
+
+    // Any address can be looked up, not only sender accounts
+    @Get(':address/balance')
+    async getBalance(@Param() params: AccountAddressParamDto, @Query() query: BalanceQueryDto) {
+        const network = await this.networksService.resolve(query.chainId);
+        const balance = await this.balanceService.getBalance(params.address, network.chainId, query.tokenAddress ?? null);
+        return {
+            success: true,
+            data: formatBalance(balance),
+        };
+    }
+
+    // Raising a balance sidesteps the insufficient-funds check, so only an admin may
+    @Put(':address/opening-balance')
+    @UseGuards(AdminTokenGuard)
+    async setOpeningBalance(@Param() params: AccountAddressParamDto, @Body() dto: SetOpeningBalanceDto) {
+        const network = await this.networksService.resolve(dto.chainId);
+        const balance = await this.balanceService.setOpeningBalance(
+            params.address,
+            network.chainId,
+            dto.tokenAddress ?? null,
+            dto.amount,
+        );
+        return {
+            success: true,
+            data: formatBalance(balance),
+        };
+    }
+}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AccountsController } from './accounts.controller';
+import { AccountsService } from './accounts.service';
+import { KeystoreService } from './keystore.service';
+import { NonceService } from './nonce.service';
+import { BalanceService } from './balance.service';
+import { NetworksModule } from '../networks/networks.module';
+import { TokensModule } from '../tokens/tokens.module';
+import { Account, AccountSchema } from './schemas/account.schema';
+import { AccountNonce, AccountNonceSchema } from './schemas/account-nonce.schema';
+import { Keystore, KeystoreSchema } from './schemas/keystore.schema';
+import { OpeningBalance, OpeningBalanceSchema } from './schemas/opening-balance.schema';
+import { Transaction, TransactionSchema } from '../transactions/schemas/transaction.schema';
+
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            { name: Account.name, schema: AccountSchema },
+            { name: AccountNonce.name, schema: AccountNonceSchema },
+            { name: Keystore.name, schema: KeystoreSchema },
+            { name: OpeningBalance.name, schema: OpeningBalanceSchema },
+            { name: Transaction.name, schema: TransactionSchema },
+        ]),
+        NetworksModule,
+        TokensModule,
+    ],
+    controllers: [AccountsController],
+    providers: [AccountsService, KeystoreService, NonceService, BalanceService],
+    exports: [AccountsService, NonceService, BalanceService],
+})
+export class AccountsModule { }
@@ -0,0 +1,99 @@
+import { BadRequestException, Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Account, AccountDocument } from './schemas/account.schema';
+import { CreateAccountDto } from './dto/create-account.dto';
+import { KeystoreService } from './keystore.service';
+import { SignedTransaction, UnsignedTransaction } from '../chain/transaction-signing';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Attempts at claiming the next derivation index when creates race
+const MAX_CREATE_ATTEMPTS = 5;
+
+@Injectable()
+export class AccountsService implements OnApplicationBootstrap {
+    private readonly logger = new Logger(AccountsService.name);
+
+    constructor(
+        @InjectModel(Account.name)
+        private accountModel: Model<AccountDocument>,
+        private readonly keystore: KeystoreService,
+    ) { }
+
+    async onApplicationBootstrap() {
+        await this.ensureDefaultAccount();
+    }
+
+    async findAll(): Promise<AccountDocument[]> {
+        return this.accountModel.find().sort({ index: 1 }).exec();
+    }
+
+    /**
+     * Derives the account at the next unused index. The unique index on
+     * `index` rejects a concurrent create that picked the same one, which then
+     * retries with the following index.
+     */
+    async create(dto: CreateAccountDto): Promise<AccountDocument> {
+        for (let attempt = 1; ; attempt++) {
+            const latest = await this.accountModel.findOne().sort({ index: -1 }).select({ index: 1 }).exec();
+            const index = latest ? latest.index + 1 : 0;
+            try {
+                return await this.accountModel.create({ index, ...this.keystore.deriveAccount(index), label: dto.label });
+            } catch (error) {
+                if (error.code !== DUPLICATE_KEY_ERROR || attempt >= MAX_CREATE_ATTEMPTS) throw error;
+            }
+        }
+    }
+
+    /**
+     * The account a transaction is sent from: the given one, or the default
+     * account (index 0) when none is given.
+     */
+    async resolveSender(accountId?: string): Promise<AccountDocument> {
+        const account = await this.findSender(accountId);
+        if (!account) {
+            throw new BadRequestException(accountId ? `Account ${accountId} not found` : 'No sender account exists');
+        }
+        return account;
+    }
+
+    async findSender(accountId?: string): Promise<AccountDocument | null> {
+        return accountId
+            ? this.accountModel.findById(accountId).exec()
+            : this.accountModel.findOne({ index: 0 }).exec();
+    }
+
+    /**
+     * Signs with the key of the given account. Null when the account no longer
+     * exists, e.g. for transactions created before sender accounts.
+     */
+    async signTransaction(
+        accountId: Types.ObjectId,
+        transaction: UnsignedTransaction,
+    ): Promise<SignedTransaction | null> {
+        const account = await this.accountModel.findById(accountId).exec();
+        return account ? this.keystore.signTransaction(account.index, transaction) : null;
+    }
+
+    // Also catches a keystore that was replaced after accounts were derived from it
+    private async ensureDefaultAccount() {
+        const derived = this.keystore.deriveAccount(0);
+        const existing = await this.accountModel.findOne({ index: 0 }).exec();
+        if (existing) {
+            if (existing.address !== derived.address) {
+                throw new Error(
+                    `Account ${existing.address} was not derived from the current keystore (expected ${derived.address})`,
+                );
+            }
+            return;
+        }
+
+        try {
+            await this.accountModel.create({ index: 0, ...derived, label: 'Default' });
+            this.logger.log(`Created the default sender account ${derived.address}`);
+        } catch (error) {
+            if (error.code !== DUPLICATE_KEY_ERROR) throw error;
+        }
+    }
+}
@@ -0,0 +1,103 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { BalanceService } from './balance.service';
+import { TransactionDocument, TransactionStatus } from '../transactions/schemas/transaction.schema';
+import { parseUnits, toDecimal128 } from '../common/units';
+
+const CHAIN_ID = 31337;
+const SENDER = '0x00000000000000000000000000000000000000aa';
+const TOKEN = '0x00000000000000000000000000000000000000cc';
+const GWEI = 10n ** 9n;
+
+const exec = <T>(value: T) => ({ exec: async () => value });
+
+// A transfer of `amount` ETH with 21,000 gas at 1 gwei, a maximum fee of 0.000021 ETH
+const transfer = (amount: string, overrides: Record<string, unknown> = {}) =>
+    ({
+        _id: new Types.ObjectId(),
+        fromAddress: SENDER,
+        chainId: CHAIN_ID,
+        tokenAddress: null,
+        amount: toDecimal128(parseUnits(amount)),
+        gasLimit: 21_000,
+        gasPrice: toDecimal128(GWEI),
+        status: TransactionStatus.PENDING,
+        ...overrides,
+    }) as unknown as TransactionDocument;
+
+// Every address starts with 1 ETH and no confirmed history; `outstanding` are its pending transactions
+function setup(outstanding: TransactionDocument[] = []) {
+    const transactionModel = {
+        aggregate: () => exec([]),
+        find: (filter: { nonce?: number }) =>
+            exec(outstanding.filter((tx) => filter.nonce === undefined || tx.nonce === filter.nonce)),
+    };
+    const openingBalanceModel = { findOne: () => exec(null) };
+    const networks = { resolve: async () => ({ chainId: CHAIN_ID, nativeSymbol: 'ETH' }) };
+    const tokens = { resolve: async () => ({ address: TOKEN, symbol: 'USDC', decimals: 6 }) };
+    return new BalanceService(
+        openingBalanceModel as never,
+        transactionModel as never,
+        networks as never,
+        tokens as never,
+        new ConfigService({ DEFAULT_OPENING_BALANCE: '1' }),
+    );
+}
+
+describe('BalanceService.assertAffordable', () => {
+    it('accepts a transfer the sender can pay for, fee included', async () => {
+        await expect(setup().assertAffordable([transfer('0.99'), transfer('0.009')])).resolves.toBeUndefined();
+    });
+
+    it('rejects a transfer whose amount and maximum fee exceed the available balance', async () => {
+        await expect(setup().assertAffordable([transfer('1')])).rejects.toThrow(
+            new BadRequestException(
+                'Insufficient funds: 0x00000000000000000000000000000000000000AA needs 1.000021 ETH including the ' +
+                    'maximum fee, but only 1 ETH is available on network 31337',
+            ),
+        );
+    });
+
+    it('adds up transactions from the same sender', async () => {
+        await expect(setup().assertAffordable([transfer('0.6'), transfer('0.6')])).rejects.toThrow(
+            'needs 1.200042 ETH including the maximum fee',
+        );
+    });
+
+    it('counts what pending transactions may still spend', async () => {
+        const pending = transfer('0.7', { nonce: 0 });
+        await expect(setup([pending]).assertAffordable([transfer('0.5')])).rejects.toThrow('only 0.299979 ETH');
+    });
+
+    it('checks token amounts against the token balance and fees against the native one', async () => {
+        const service = setup();
+        const token = (amount: bigint) => transfer('0', { tokenAddress: TOKEN, amount: toDecimal128(amount) });
+
+        await expect(service.assertAffordable([token(1n)])).rejects.toThrow('needs 0.000001 USDC, but only 0 USDC');
+        await expect(service.assertAffordable([token(0n)])).resolves.toBeUndefined();
+    });
+
+    describe('replacements', () => {
+        const original = transfer('0.9', { nonce: 3 });
+
+        it('only counts what a replacement costs beyond the transaction it replaces', async () => {
+            const speedUp = transfer('0.9', { nonce: 3, replacesId: original._id, gasPrice: toDecimal128(2n * GWEI) });
+            await expect(setup([original]).assertAffordable([speedUp])).resolves.toBeUndefined();
+        });
+
+        it('always accepts a cancellation that costs less than the original', async () => {
+            const cancel = transfer('0', { nonce: 3, replacesId: original._id, gasPrice: toDecimal128(2n * GWEI) });
+            await expect(setup([original]).assertAffordable([cancel])).resolves.toBeUndefined();
+        });
+
+        it('rejects a replacement whose higher fee the sender cannot cover', async () => {
+            const speedUp = transfer('0.9', {
+                nonce: 3,
+                replacesId: original._id,
+                gasPrice: toDecimal128(10_000n * GWEI),
+            });
+            await expect(setup([original]).assertAffordable([speedUp])).rejects.toThrow('Insufficient funds');
+        });
+    });
+});
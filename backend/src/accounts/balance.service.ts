@@ -0,0 +1,297 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, PipelineStage, Types } from 'mongoose';
+import { OpeningBalance, OpeningBalanceDocument } from './schemas/opening-balance.schema';
+import { Transaction, TransactionDocument, TransactionStatus } from '../transactions/schemas/transaction.schema';
+import { ETH_DECIMALS, formatUnits, fromDecimal128, parseUnits, toDecimal128 } from '../common/units';
+import { feeBid, networkFees } from '../chain/fee-bid';
+import { toChecksumAddress } from '../chain/address';
+import { NetworksService } from '../networks/networks.service';
+import { TokensService } from '../tokens/tokens.service';
+
+const OUTSTANDING_STATUSES = [TransactionStatus.PENDING, TransactionStatus.SUBMITTED];
+
+// Mined transactions pay their fee whether or not they revert
+const MINED_STATUSES = [TransactionStatus.CONFIRMED, TransactionStatus.FAILED];
+
+export type AccountBalance = {
+    address: string;
+    chainId: number;
+    // null for the network's native currency
+    tokenAddress: string | null;
+    symbol: string;
+    decimals: number;
+    // All in integer base units of the asset
+    openingBalance: bigint;
+    // Opening balance plus confirmed transfers in, less confirmed transfers out and mined fees
+    balance: bigint;
+    // The most pending and submitted transactions can still spend, one per nonce
+    pendingOutflow: bigint;
+    available: bigint;
+};
+
+export type BalanceProjection = {
+    balance: AccountBalance;
+    // Base units the transactions may spend, fees included for the native currency
+    spend: bigint;
+    // Available balance left afterwards; negative when the transactions cannot be afforded
+    remaining: bigint;
+};
+
+type Asset = {
+    tokenAddress: string | null;
+    symbol: string;
+    decimals: number;
+};
+
+/**
+ * Balances ledger derived from the transactions this app tracks, on top of
+ * configurable opening balances. Balances are kept per address, network and
+ * asset; the chain itself is never asked.
+ */
+@Injectable()
+export class BalanceService {
+    private readonly logger = new Logger(BalanceService.name);
+    private readonly defaultOpeningBalance: bigint;
+
+    constructor(
+        @InjectModel(OpeningBalance.name)
+        private openingBalanceModel: Model<OpeningBalanceDocument>,
+        @InjectModel(Transaction.name)
+        private transactionModel: Model<TransactionDocument>,
+        private readonly networks: NetworksService,
+        private readonly tokens: TokensService,
+        configService: ConfigService,
+    ) {
+        const configured = configService.get<string>('DEFAULT_OPENING_BALANCE', '100');
+        try {
+            this.defaultOpeningBalance = parseUnits(configured);
+        } catch {
+            this.logger.warn(`DEFAULT_OPENING_BALANCE ${configured} is not a decimal amount; using 0`);
+            this.defaultOpeningBalance = 0n;
+        }
+    }
+
+    async getBalance(address: string, chainId: number, tokenAddress: string | null = null): Promise<AccountBalance> {
+        const asset = await this.resolveAsset(chainId, tokenAddress);
+        const [openingBalance, received, sent, fees, pendingOutflow] = await Promise.all([
+            this.openingBalance(address, chainId, asset.tokenAddress),
+            this.sum([
+                {
+                    $match: {
+                        toAddress: address.toLowerCase(),
+                        chainId,
+                        tokenAddress: asset.tokenAddress,
+                        status: TransactionStatus.CONFIRMED,
+                    },
+                },
+                { $group: { _id: null, total: { $sum: '$amount' } } },
+            ]),
+            this.sum([
+                {
+                    $match: {
+                        ...senderFilter(address, chainId),
+                        tokenAddress: asset.tokenAddress,
+                        status: TransactionStatus.CONFIRMED,
+                    },
+                },
+                { $group: { _id: null, total: { $sum: '$amount' } } },
+            ]),
+            // Fees are paid in the native currency, for token transfers too
+            asset.tokenAddress
+                ? 0n
+                : this.sum([
+                    { $match: { ...senderFilter(address, chainId), status: { $in: MINED_STATUSES } } },
+                    {
+                        $group: {
+                            _id: null,
+                            total: { $sum: { $multiply: [{ $toDecimal: '$gasUsed' }, '$effectiveGasPrice'] } },
+                        },
+                    },
+                ]),
+            this.pendingOutflow(address, chainId, asset.tokenAddress),
+        ]);
+
+        const balance = openingBalance + received - sent - fees;
+        return {
+            address,
+            chainId,
+            ...asset,
+            openingBalance,
+            balance,
+            pendingOutflow,
+            available: balance - pendingOutflow,
+        };
+    }
+
+    async setOpeningBalance(
+        address: string,
+        chainId: number,
+        tokenAddress: string | null,
+        amount: string,
+    ): Promise<AccountBalance> {
+        const asset = await this.resolveAsset(chainId, tokenAddress);
+        let value: bigint;
+        try {
+            value = parseUnits(amount, asset.decimals);
+        } catch {
+            throw new BadRequestException(
+                `amount has more than ${asset.decimals} decimal places, the most ${asset.symbol} allows`,
+            );
+        }
+        await this.openingBalanceModel
+            .updateOne(
+                { address: address.toLowerCase(), chainId, tokenAddress: asset.tokenAddress },
+                { $set: { amount: toDecimal128(value) } },
+                { upsert: true },
+            )
+            .exec();
+        return this.getBalance(address, chainId, asset.tokenAddress);
+    }
+
+    /**
+     * What unsaved transactions would leave their senders: the amount of the
+     * asset sent, plus the maximum fee in the native currency, against what
+     * is available. Transactions from the same sender are added up, one
+     * projection per sender, network and asset. A replacement only adds what
+     * it costs beyond the outstanding transactions sharing its nonce, as just
+     * one of them can be mined.
+     */
+    async project(transactions: TransactionDocument[]): Promise<BalanceProjection[]> {
+        const spending = new Map<string, { address: string; chainId: number; tokenAddress: string | null; total: bigint }>();
+        const spend = (tx: TransactionDocument, tokenAddress: string | null, value: bigint) => {
+            const key = `${tx.fromAddress.toLowerCase()}:${tx.chainId}:${tokenAddress}`;
+            const entry = spending.get(key) ?? {
+                address: toChecksumAddress(tx.fromAddress),
+                chainId: tx.chainId,
+                tokenAddress,
+                total: 0n,
+            };
+            entry.total += value;
+            spending.set(key, entry);
+        };
+
+        for (const tx of transactions) {
+            if (tx.replacesId) {
+                for (const tokenAddress of new Set([tx.tokenAddress ?? null, null])) {
+                    const reserved = await this.reservedAt(tx.fromAddress, tx.chainId, tokenAddress, tx.nonce);
+                    const cost = await this.cost(tx, tokenAddress);
+                    spend(tx, tokenAddress, cost > reserved ? cost - reserved : 0n);
+                }
+                continue;
+            }
+            spend(tx, tx.tokenAddress ?? null, fromDecimal128(tx.amount));
+            spend(tx, null, await this.maxFee(tx));
+        }
+
+        const projections: BalanceProjection[] = [];
+        for (const { address, chainId, tokenAddress, total } of spending.values()) {
+            const balance = await this.getBalance(address, chainId, tokenAddress);
+            projections.push({ balance, spend: total, remaining: balance.available - total });
+        }
+        return projections;
+    }
+
+    // Rejects unsaved transactions that would spend more than their senders have available
+    async assertAffordable(transactions: TransactionDocument[]): Promise<void> {
+        const shortfall = (await this.project(transactions)).find((projection) => projection.remaining < 0n);
+        if (shortfall) {
+            throw new BadRequestException(insufficientFunds(shortfall));
+        }
+    }
+
+    /**
+     * What outstanding transactions may still spend. Only one transaction per
+     * nonce can be mined, so of a transaction and its replacements only the
+     * costliest counts.
+     */
+    private async pendingOutflow(address: string, chainId: number, tokenAddress: string | null): Promise<bigint> {
+        const outstanding = await this.transactionModel
+            .find({ ...senderFilter(address, chainId), status: { $in: OUTSTANDING_STATUSES } })
+            .exec();
+
+        const byNonce = new Map<number, bigint>();
+        for (const tx of outstanding) {
+            const cost = await this.cost(tx, tokenAddress);
+            if (cost > (byNonce.get(tx.nonce) ?? 0n)) byNonce.set(tx.nonce, cost);
+        }
+        return [...byNonce.values()].reduce((total, cost) => total + cost, 0n);
+    }
+
+    // What the costliest outstanding transaction at a nonce already counts toward pendingOutflow
+    private async reservedAt(
+        address: string,
+        chainId: number,
+        tokenAddress: string | null,
+        nonce: number,
+    ): Promise<bigint> {
+        const outstanding = await this.transactionModel
+            .find({ ...senderFilter(address, chainId), nonce, status: { $in: OUTSTANDING_STATUSES } })
+            .exec();
+        let reserved = 0n;
+        for (const tx of outstanding) {
+            const cost = await this.cost(tx, tokenAddress);
+            if (cost > reserved) reserved = cost;
+        }
+        return reserved;
+    }
+
+    // What a transaction may spend of one asset, its maximum fee included for the native currency
+    private async cost(tx: TransactionDocument, tokenAddress: string | null): Promise<bigint> {
+        let cost = (tx.tokenAddress ?? null) === tokenAddress ? fromDecimal128(tx.amount) : 0n;
+        if (tokenAddress === null) cost += await this.maxFee(tx);
+        return cost;
+    }
+
+    // gasLimit x fee cap; unpriced transactions are signed at the network's current fees
+    private async maxFee(tx: TransactionDocument): Promise<bigint> {
+        if (!tx.gasLimit) return 0n;
+        const fields = {
+            gasPrice: tx.gasPrice ? fromDecimal128(tx.gasPrice) : undefined,
+            maxFeePerGas: tx.maxFeePerGas ? fromDecimal128(tx.maxFeePerGas) : undefined,
+            maxPriorityFeePerGas: tx.maxPriorityFeePerGas ? fromDecimal128(tx.maxPriorityFeePerGas) : undefined,
+        };
+        if (fields.gasPrice === undefined && fields.maxFeePerGas === undefined) {
+            const chain = await this.networks.provider(tx.chainId);
+            const fees = networkFees(await chain.getFeeData());
+            return BigInt(tx.gasLimit) * feeBid(fees, fees.gasPrice ?? 0n).feeCap;
+        }
+        return BigInt(tx.gasLimit) * feeBid(fields, 0n).feeCap;
+    }
+
+    private async openingBalance(address: string, chainId: number, tokenAddress: string | null): Promise<bigint> {
+        const opening = await this.openingBalanceModel
+            .findOne({ address: address.toLowerCase(), chainId, tokenAddress })
+            .exec();
+        if (opening) return fromDecimal128(opening.amount);
+        return tokenAddress ? 0n : this.defaultOpeningBalance;
+    }
+
+    private async resolveAsset(chainId: number, tokenAddress: string | null): Promise<Asset> {
+        if (tokenAddress) {
+            const token = await this.tokens.resolve(chainId, tokenAddress);
+            return { tokenAddress: token.address, symbol: token.symbol, decimals: token.decimals };
+        }
+        const network = await this.networks.resolve(chainId);
+        return { tokenAddress: null, symbol: network.nativeSymbol, decimals: ETH_DECIMALS };
+    }
+
+    // Decimal128 $sum is exact for integer base-unit amounts
+    private async sum(pipeline: PipelineStage[]): Promise<bigint> {
+        const [row] = await this.transactionModel.aggregate<{ total: Types.Decimal128 }>(pipeline).exec();
+        return row ? fromDecimal128(row.total) : 0n;
+    }
+}
+
+export function insufficientFunds({ balance, spend }: BalanceProjection): string {
+    const { address, chainId, tokenAddress, symbol, decimals, available } = balance;
+    const needed = `${formatUnits(spend, decimals)} ${symbol}${tokenAddress ? '' : ' including the maximum fee'}`;
+    const left = `${formatUnits(available > 0n ? available : 0n, decimals)} ${symbol}`;
+    return `Insufficient funds: ${address} needs ${needed}, but only ${left} is available on network ${chainId}`;
+}
+
+// Transaction addresses are stored lowercase
+function senderFilter(address: string, chainId: number): FilterQuery<TransactionDocument> {
+    return { fromAddress: address.toLowerCase(), chainId };
+}
@@ -0,0 +1,8 @@
+import { Matches } from 'class-validator';
+
+export class AccountAddressParamDto {
+    @Matches(/^0x[a-fA-F0-9]{40}$/, {
+        message: 'address must be a valid Ethereum address',
+    })
+    address: string;
+}
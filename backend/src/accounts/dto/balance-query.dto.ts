@@ -0,0 +1,10 @@
+import { IsOptional, IsString, Matches } from 'class-validator';
+import { ChainIdQueryDto } from '../../networks/dto/chain-id-query.dto';
+
+export class BalanceQueryDto extends ChainIdQueryDto {
+    // ERC-20 token registered on the network; the native currency when left out
+    @IsOptional()
+    @IsString()
+    @Matches(/^0x[a-fA-F0-9]{40}$/, { message: 'tokenAddress must be a valid Ethereum address' })
+    tokenAddress?: string;
+}
@@ -0,0 +1,8 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateAccountDto {
+    @IsOptional()
+    @IsString()
+    @MaxLength(64)
+    label?: string;
+}
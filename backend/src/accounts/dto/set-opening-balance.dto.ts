@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { IsEthAmount } from '../../common/validators/is-eth-amount.validator';
+import { BalanceQueryDto } from './balance-query.dto';
+
+export class SetOpeningBalanceDto extends BalanceQueryDto {
+    // In whole units of the asset; stored in base units
+    @IsString()
+    @IsNotEmpty()
+    @IsEthAmount({ allowZero: true })
+    amount: string;
+}
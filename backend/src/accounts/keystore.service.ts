@@ -0,0 +1,132 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, ScryptOptions } from 'crypto';
+import { generateMnemonic, mnemonicToSeedSync, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { HDKey } from '@scure/bip32';
+import { KdfParams, Keystore, KeystoreDocument } from './schemas/keystore.schema';
+import { publicKeyToAddress } from '../chain/address';
+import { SignedTransaction, signTransaction, UnsignedTransaction } from '../chain/transaction-signing';
+
+const KEYSTORE_NAME = 'default';
+
+// 32 MiB of memory per derivation; scrypt's default cap is exactly that, so it is raised
+const SCRYPT_PARAMS = { n: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+export type DerivedAccount = {
+    path: string;
+    address: string;
+};
+
+// BIP-44 path of the index-th external account of Ethereum's first wallet
+export function accountPath(index: number): string {
+    return `m/44'/60'/0'/0/${index}`;
+}
+
+function deriveKey(passphrase: string, params: KdfParams): Promise<Buffer> {
+    const options: ScryptOptions = { N: params.n, r: params.r, p: params.p, maxmem: SCRYPT_MAXMEM };
+    return new Promise((resolve, reject) =>
+        scrypt(passphrase, Buffer.from(params.salt, 'hex'), 32, options, (error, key) =>
+            error ? reject(error) : resolve(key),
+        ),
+    );
+}
+
+/**
+ * Holds the HD wallet that sender accounts are derived from. The mnemonic is
+ * stored encrypted under KEYSTORE_PASSPHRASE and only decrypted in memory.
+ * The first boot imports WALLET_MNEMONIC, or generates a mnemonic when unset.
+ */
+@Injectable()
+export class KeystoreService implements OnModuleInit {
+    private readonly logger = new Logger(KeystoreService.name);
+    private root: HDKey | null = null;
+
+    constructor(
+        @InjectModel(Keystore.name)
+        private keystoreModel: Model<KeystoreDocument>,
+        private readonly configService: ConfigService,
+    ) { }
+
+    async onModuleInit() {
+        const passphrase = this.configService.get<string>('KEYSTORE_PASSPHRASE');
+        if (!passphrase) {
+            throw new Error('KEYSTORE_PASSPHRASE must be set to unlock the sender keystore');
+        }
+
+        const imported = this.configService.get<string>('WALLET_MNEMONIC')?.trim();
+        if (imported && !validateMnemonic(imported, wordlist)) {
+            throw new Error('WALLET_MNEMONIC is not a valid BIP-39 mnemonic');
+        }
+
+        const keystore =
+            (await this.keystoreModel.findOne({ name: KEYSTORE_NAME }).exec()) ??
+            (await this.createKeystore(imported || generateMnemonic(wordlist), passphrase));
+
+        const mnemonic = await this.decrypt(keystore, passphrase);
+        if (imported && imported !== mnemonic) {
+            this.logger.warn('WALLET_MNEMONIC differs from the stored keystore and is ignored');
+        }
+        this.root = HDKey.fromMasterSeed(mnemonicToSeedSync(mnemonic));
+    }
+
+    deriveAccount(index: number): DerivedAccount {
+        const path = accountPath(index);
+        return { path, address: publicKeyToAddress(this.node(path).publicKey) };
+    }
+
+    // Private keys never leave this service; callers get the signed payload
+    signTransaction(index: number, transaction: UnsignedTransaction): SignedTransaction {
+        return signTransaction(transaction, this.node(accountPath(index)).privateKey);
+    }
+
+    private node(path: string): HDKey {
+        if (!this.root) {
+            throw new Error('The sender keystore is locked');
+        }
+        return this.root.derive(path);
+    }
+
+    private async createKeystore(mnemonic: string, passphrase: string): Promise<KeystoreDocument> {
+        const kdfParams: KdfParams = { salt: randomBytes(32).toString('hex'), ...SCRYPT_PARAMS };
+        const key = await deriveKey(passphrase, kdfParams);
+        const iv = randomBytes(12);
+        const cipher = createCipheriv('aes-256-gcm', key, iv);
+        const ciphertext = Buffer.concat([cipher.update(mnemonic, 'utf-8'), cipher.final()]);
+
+        try {
+            const created = await this.keystoreModel.create({
+                name: KEYSTORE_NAME,
+                ciphertext: ciphertext.toString('hex'),
+                iv: iv.toString('hex'),
+                authTag: cipher.getAuthTag().toString('hex'),
+                kdfParams,
+            });
+            this.logger.log('Created the sender keystore');
+            return created;
+        } catch (error) {
+            // Another instance created it first; use theirs
+            if (error.code !== DUPLICATE_KEY_ERROR) throw error;
+            return this.keystoreModel.findOne({ name: KEYSTORE_NAME }).exec();
+        }
+    }
+
+    private async decrypt(keystore: KeystoreDocument, passphrase: string): Promise<string> {
+        const key = await deriveKey(passphrase, keystore.kdfParams);
+        const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(keystore.iv, 'hex'));
+        decipher.setAuthTag(Buffer.from(keystore.authTag, 'hex'));
+        try {
+            return Buffer.concat([
+                decipher.update(Buffer.from(keystore.ciphertext, 'hex')),
+                decipher.final(),
+            ]).toString('utf-8');
+        } catch {
+            throw new Error('Could not unlock the sender keystore; check KEYSTORE_PASSPHRASE');
+        }
+    }
+}
@@ -0,0 +1,198 @@
+import { ConflictException } from '@nestjs/common';
+import { NonceService } from './nonce.service';
+
+type Counter = { address: string; chainId: number; nextNonce: number; lockId: string | null; lockedUntil: Date | null };
+
+const exec = <T>(run: () => T) => ({ exec: async () => run() });
+const duplicateKey = () => Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+
+/**
+ * Just enough of the account_nonces collection for NonceService: the counter
+ * pipeline `allocate` sends, the lock upsert, and the unique index on
+ * address and chainId.
+ */
+function fakeNonceModel() {
+    const counters: Counter[] = [];
+    const find = (filter: Partial<Counter>) =>
+        counters.find((counter) => counter.address === filter.address && counter.chainId === filter.chainId);
+
+    return {
+        counters,
+        findOneAndUpdate: jest.fn((filter, update, options: { upsert?: boolean }) =>
+            exec(() => {
+                let counter = find(filter);
+                if (Array.isArray(update)) {
+                    // allocate: nextNonce = max(nextNonce, floor) + count
+                    const [{ $max }, count] = update[0].$set.nextNonce.$add;
+                    counter ??= { ...filter, nextNonce: 0, lockId: null, lockedUntil: null };
+                    if (!counters.includes(counter)) counters.push(counter);
+                    counter.nextNonce = Math.max(counter.nextNonce, $max[1]) + count;
+                    return counter;
+                }
+                // withSenderLock: only an unlocked or expired lease may be taken
+                const now: Date = filter.$or[1].lockedUntil.$lte;
+                const free = !counter || counter.lockedUntil === null || counter.lockedUntil <= now;
+                if (!free) {
+                    if (options.upsert) throw duplicateKey();
+                    return null;
+                }
+                if (!counter) {
+                    const { address, chainId } = filter;
+                    counter = { address, chainId, nextNonce: 0, lockId: null, lockedUntil: null };
+                    counters.push(counter);
+                }
+                return Object.assign(counter, update.$set);
+            }),
+        ),
+        updateOne: jest.fn((filter, update) =>
+            exec(() => {
+                const counter = find(filter);
+                const matches =
+                    counter &&
+                    (filter.lockId === undefined || counter.lockId === filter.lockId) &&
+                    (filter.nextNonce === undefined || counter.nextNonce === filter.nextNonce);
+                if (matches) Object.assign(counter, update.$set);
+            }),
+        ),
+    };
+}
+
+function setup({ highestStored = null as number | null, chainCount = 0 } = {}) {
+    const nonceModel = fakeNonceModel();
+    const transactionModel = {
+        findOne: () => ({
+            sort: () => ({ select: () => exec(() => (highestStored === null ? null : { nonce: highestStored })) }),
+        }),
+    };
+    const networks = { provider: async () => ({ getTransactionCount: async () => chainCount }) };
+    const service = new NonceService(nonceModel as never, transactionModel as never, networks as never);
+    return { service, nonceModel };
+}
+
+const SENDER = '0x00000000000000000000000000000000000000AA';
+
+describe('NonceService', () => {
+    describe('allocate', () => {
+        it('hands out consecutive nonces per sender and network', async () => {
+            const { service } = setup();
+
+            expect(await service.allocate(SENDER, 1)).toBe(0);
+            expect(await service.allocate(SENDER, 1)).toBe(1);
+            expect(await service.allocate(SENDER, 1, 3)).toBe(2);
+            expect(await service.allocate(SENDER, 1)).toBe(5);
+            expect(await service.allocate(SENDER, 5)).toBe(0);
+        });
+
+        it('never falls behind stored transactions or the node', async () => {
+            expect(await setup({ highestStored: 7 }).service.allocate(SENDER, 1)).toBe(8);
+            expect(await setup({ highestStored: 7, chainCount: 12 }).service.allocate(SENDER, 1)).toBe(12);
+        });
+
+        it('keys the counter by the lowercase address', async () => {
+            const { service, nonceModel } = setup();
+            await service.allocate(SENDER, 1);
+            await service.allocate(SENDER.toLowerCase(), 1);
+            expect(nonceModel.counters).toHaveLength(1);
+            expect(nonceModel.counters[0]).toMatchObject({ address: SENDER.toLowerCase(), nextNonce: 2 });
+        });
+    });
+
+    describe('release', () => {
+        it('takes back the last nonces handed out', async () => {
+            const { service } = setup();
+            const first = await service.allocate(SENDER, 1, 2);
+            await service.release(SENDER, 1, first, 2);
+            expect(await service.allocate(SENDER, 1)).toBe(first);
+        });
+
+        it('leaves the counter alone once a later nonce was handed out', async () => {
+            const { service } = setup();
+            const first = await service.allocate(SENDER, 1);
+            await service.allocate(SENDER, 1);
+            await service.release(SENDER, 1, first);
+            expect(await service.allocate(SENDER, 1)).toBe(2);
+        });
+    });
+
+    describe('withSenderLock', () => {
+        it('runs work for the same sender one at a time', async () => {
+            const { service } = setup();
+            const events: string[] = [];
+            const work = (name: string) => async () => {
+                events.push(`${name} start`);
+                await new Promise((resolve) => setTimeout(resolve, 20));
+                events.push(`${name} end`);
+                return name;
+            };
+
+            const results = await Promise.all([
+                service.withSenderLock(SENDER, 1, work('a')),
+                service.withSenderLock(SENDER, 1, work('b')),
+            ]);
+
+            expect(results).toEqual(['a', 'b']);
+            expect(events).toEqual(['a start', 'a end', 'b start', 'b end']);
+        });
+
+        it('does not hold up the sender on another network', async () => {
+            const { service } = setup();
+            const events: string[] = [];
+            let releaseFirst: () => void;
+            const first = service.withSenderLock(SENDER, 1, async () => {
+                await new Promise<void>((resolve) => (releaseFirst = resolve));
+                events.push('first');
+            });
+            await service.withSenderLock(SENDER, 2, async () => events.push('other network'));
+            releaseFirst();
+            await first;
+            expect(events).toEqual(['other network', 'first']);
+        });
+
+        it('releases the lock when the work fails', async () => {
+            const { service, nonceModel } = setup();
+            await expect(
+                service.withSenderLock(SENDER, 1, async () => {
+                    throw new Error('save failed');
+                }),
+            ).rejects.toThrow('save failed');
+            expect(nonceModel.counters[0]).toMatchObject({ lockId: null, lockedUntil: null });
+            await expect(service.withSenderLock(SENDER, 1, async () => 'next')).resolves.toBe('next');
+        });
+
+        it('takes over a lease its holder let lapse', async () => {
+            const { service, nonceModel } = setup();
+            nonceModel.counters.push({
+                address: SENDER.toLowerCase(),
+                chainId: 1,
+                nextNonce: 3,
+                lockId: 'crashed',
+                lockedUntil: new Date(Date.now() - 1),
+            });
+            await expect(service.withSenderLock(SENDER, 1, async () => 'done')).resolves.toBe('done');
+        });
+
+        it('gives up with a 409 when the sender stays locked', async () => {
+            jest.useFakeTimers();
+            try {
+                const { service, nonceModel } = setup();
+                nonceModel.counters.push({
+                    address: SENDER.toLowerCase(),
+                    chainId: 1,
+                    nextNonce: 3,
+                    lockId: 'busy',
+                    lockedUntil: new Date(Date.now() + 60_000),
+                });
+                const work = jest.fn();
+
+                const attempt = service.withSenderLock(SENDER, 1, work);
+                const rejected = expect(attempt).rejects.toThrow(ConflictException);
+                await jest.advanceTimersByTimeAsync(10_100);
+                await rejected;
+                expect(work).not.toHaveBeenCalled();
+                expect(nonceModel.counters[0].lockId).toBe('busy');
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+    });
+});
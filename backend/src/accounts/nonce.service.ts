@@ -0,0 +1,226 @@
+import { ConflictException, Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { AccountNonce, AccountNonceDocument } from './schemas/account-nonce.schema';
+import { Transaction, TransactionDocument, TransactionStatus } from '../transactions/schemas/transaction.schema';
+import { NetworksService } from '../networks/networks.service';
+
+// Statuses that keep a nonce taken: waiting to be mined, or already mined
+const NONCE_HOLDING_STATUSES = [
+    TransactionStatus.PENDING,
+    TransactionStatus.SUBMITTED,
+    TransactionStatus.CONFIRMED,
+    TransactionStatus.FAILED,
+];
+
+const OUTSTANDING_STATUSES = [TransactionStatus.PENDING, TransactionStatus.SUBMITTED];
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// A lock outlives a crashed holder by this long
+const LOCK_LEASE_MS = 30_000;
+// How long a create waits for another one from the same sender before giving up
+const LOCK_WAIT_MS = 10_000;
+const LOCK_POLL_MS = 50;
+
+export type AccountNonceState = {
+    address: string;
+    chainId: number;
+    // What the next create from this address will be assigned
+    nextNonce: number;
+    // The node's count, including transactions in its mempool
+    chainNonce: number;
+    pendingCount: number;
+    gaps: number[];
+};
+
+// Nonces are counted separately on every chain
+@Injectable()
+export class NonceService implements OnApplicationBootstrap {
+    private readonly logger = new Logger(NonceService.name);
+
+    constructor(
+        @InjectModel(AccountNonce.name)
+        private nonceModel: Model<AccountNonceDocument>,
+        @InjectModel(Transaction.name)
+        private transactionModel: Model<TransactionDocument>,
+        private readonly networks: NetworksService,
+    ) { }
+
+    async onApplicationBootstrap() {
+        await this.migrateCounterIndex();
+    }
+
+    /**
+     * Reserves `count` consecutive nonces for `address` on `chainId` and returns the first.
+     * The counter never falls behind the highest stored nonce or the chain's
+     * count, e.g. after sends made outside this app.
+     */
+    async allocate(address: string, chainId: number, count = 1): Promise<number> {
+        const floor = await this.nonceFloor(address, chainId);
+        const key = { address: address.toLowerCase(), chainId };
+        const advance = [
+            { $set: { nextNonce: { $add: [{ $max: [{ $ifNull: ['$nextNonce', 0] }, floor] }, count] } } },
+        ];
+
+        let counter: AccountNonceDocument;
+        try {
+            counter = await this.nonceModel
+                .findOneAndUpdate(key, advance, { upsert: true, new: true })
+                .exec();
+        } catch (error) {
+            // Two first allocations raced to create the counter; the loser now finds it
+            if (error.code !== DUPLICATE_KEY_ERROR) throw error;
+            counter = await this.nonceModel
+                .findOneAndUpdate(key, advance, { new: true })
+                .exec();
+        }
+        return counter.nextNonce - count;
+    }
+
+    /**
+     * Runs `work` while no other create from `address` on `chainId` does, so
+     * balance checks see every transaction saved before them and nonces are
+     * only released while no later one was handed out. The lock is a lease
+     * on the sender's counter document, which works across app instances;
+     * waiting for it longer than LOCK_WAIT_MS is a 409.
+     */
+    async withSenderLock<T>(address: string, chainId: number, work: () => Promise<T>): Promise<T> {
+        const key = { address: address.toLowerCase(), chainId };
+        const lockId = randomUUID();
+        const deadline = Date.now() + LOCK_WAIT_MS;
+
+        for (;;) {
+            const now = new Date();
+            try {
+                const acquired = await this.nonceModel
+                    .findOneAndUpdate(
+                        { ...key, $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }] },
+                        { $set: { lockId, lockedUntil: new Date(now.getTime() + LOCK_LEASE_MS) } },
+                        { upsert: true, new: true },
+                    )
+                    .exec();
+                if (acquired) break;
+            } catch (error) {
+                // The counter exists and is locked, so the upsert tried to insert a second one
+                if (error.code !== DUPLICATE_KEY_ERROR) throw error;
+            }
+            if (Date.now() >= deadline) {
+                throw new ConflictException(
+                    `Another transaction from ${address} on network ${chainId} is still being created; retry the request`,
+                );
+            }
+            await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+        }
+
+        try {
+            return await work();
+        } finally {
+            await this.nonceModel.updateOne({ ...key, lockId }, { $set: { lockId: null, lockedUntil: null } }).exec();
+        }
+    }
+
+    /**
+     * Returns nonces reserved by `allocate` that ended up unused, so they do
+     * not leave a gap. Only possible while no later nonce has been handed out.
+     */
+    async release(address: string, chainId: number, first: number, count = 1) {
+        await this.nonceModel
+            .updateOne(
+                { address: address.toLowerCase(), chainId, nextNonce: first + count },
+                { $set: { nextNonce: first } },
+            )
+            .exec();
+    }
+
+    async getState(address: string, chainId: number): Promise<AccountNonceState> {
+        const chain = await this.networks.provider(chainId);
+        const [counter, floor, chainNonce, pendingCount, gaps] = await Promise.all([
+            this.nonceModel.findOne({ address: address.toLowerCase(), chainId }).exec(),
+            this.nonceFloor(address, chainId),
+            chain.getTransactionCount(address),
+            this.transactionModel
+                .countDocuments({ ...this.senderFilter(address, chainId), status: { $in: OUTSTANDING_STATUSES } })
+                .exec(),
+            this.findGaps(address, chainId),
+        ]);
+
+        return {
+            address,
+            chainId,
+            nextNonce: Math.max(counter?.nextNonce ?? 0, floor),
+            chainNonce,
+            pendingCount,
+            gaps,
+        };
+    }
+
+    /**
+     * Nonces whose every transaction was dropped while a later nonce from the
+     * same sender is still waiting. A node mines each sender's nonces in
+     * order, so those later transactions are stuck until the gap is filled.
+     * Nonces this app never used (e.g. spent by another wallet) are not reported.
+     */
+    async findGaps(address: string, chainId: number): Promise<number[]> {
+        const nonces: { _id: number; statuses: TransactionStatus[] }[] = await this.transactionModel
+            .aggregate([
+                { $match: this.senderFilter(address, chainId) },
+                { $group: { _id: '$nonce', statuses: { $addToSet: '$status' } } },
+            ])
+            .exec();
+
+        const highestOutstanding = Math.max(
+            -1,
+            ...nonces
+                .filter((row) => row.statuses.some((status) => OUTSTANDING_STATUSES.includes(status)))
+                .map((row) => row._id),
+        );
+
+        return nonces
+            .filter((row) => row._id < highestOutstanding)
+            .filter((row) => !row.statuses.some((status) => NONCE_HOLDING_STATUSES.includes(status)))
+            .map((row) => row._id)
+            .sort((a, b) => a - b);
+    }
+
+    private async nonceFloor(address: string, chainId: number): Promise<number> {
+        const chain = await this.networks.provider(chainId);
+        const [latest, chainCount] = await Promise.all([
+            this.transactionModel
+                .findOne(this.senderFilter(address, chainId))
+                .sort({ nonce: -1 })
+                .select({ nonce: 1 })
+                .exec(),
+            chain.getTransactionCount(address),
+        ]);
+        return Math.max(latest ? latest.nonce + 1 : 0, chainCount);
+    }
+
+    // Transaction addresses are stored lowercase, so this is an exact match on the nonce index
+    private senderFilter(address: string, chainId: number): FilterQuery<TransactionDocument> {
+        return { fromAddress: address.toLowerCase(), chainId };
+    }
+
+    /**
+     * Counters used to be per address only. Their unique index on `address`
+     * would stop a sender from getting a counter on a second chain, so drop
+     * it; the old counters are assigned to the default network.
+     */
+    private async migrateCounterIndex() {
+        const indexes = await this.nonceModel.collection.indexes();
+        if (indexes.some((index) => index.name === 'address_1')) {
+            await this.nonceModel.collection.dropIndex('address_1');
+            await this.nonceModel.createIndexes();
+            this.logger.log('Rebuilt the nonce counter index per chain');
+        }
+
+        const legacy = await this.nonceModel.updateMany(
+            { chainId: { $exists: false } },
+            { $set: { chainId: await this.networks.defaultChainId() } },
+        );
+        if (legacy.modifiedCount > 0) {
+            this.logger.log(`Assigned ${legacy.modifiedCount} nonce counter(s) to the default network`);
+        }
+    }
+}
@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type AccountNonceDocument = AccountNonce & Document & {
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * Per-sender, per-chain nonce counter. Nonces are handed out by atomically advancing
+ * `nextNonce`, so concurrent creates never share one.
+ */
+@Schema({ timestamps: true, collection: 'account_nonces' })
+export class AccountNonce {
+  // Lowercased so checksummed and plain spellings share a counter
+  @Prop({ required: true })
+  address: string;
+
+  @Prop({ required: true })
+  chainId: number;
+
+  @Prop({ required: true, default: 0 })
+  nextNonce: number;
+
+  // Held while a create for this sender checks its balance and takes nonces; see NonceService.withSenderLock
+  @Prop({ type: String, default: null })
+  lockId: string | null;
+
+  @Prop({ type: Date, default: null })
+  lockedUntil: Date | null;
+}
+
+export const AccountNonceSchema = SchemaFactory.createForClass(AccountNonce);
+
+AccountNonceSchema.index({ address: 1, chainId: 1 }, { unique: true });
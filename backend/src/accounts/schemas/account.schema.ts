@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type AccountDocument = Account & Document & {
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * A sender account derived from the keystore's mnemonic. Only the derivation
+ * index is needed to recover its key; the address is stored for lookups.
+ */
+@Schema({ timestamps: true })
+export class Account {
+  // Last component of the BIP-44 path m/44'/60'/0'/0/{index}
+  @Prop({ required: true, unique: true })
+  index: number;
+
+  @Prop({ required: true })
+  path: string;
+
+  // EIP-55 checksummed
+  @Prop({ required: true, unique: true })
+  address: string;
+
+  @Prop({ required: false })
+  label?: string;
+}
+
+export const AccountSchema = SchemaFactory.createForClass(Account);
@@ -0,0 +1,39 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes } from 'mongoose';
+
+export type KeystoreDocument = Keystore & Document & {
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type KdfParams = {
+  salt: string;
+  n: number;
+  r: number;
+  p: number;
+};
+
+/**
+ * The wallet's BIP-39 mnemonic, encrypted with AES-256-GCM under a key
+ * derived from KEYSTORE_PASSPHRASE with scrypt. Binary values are hex.
+ */
+@Schema({ timestamps: true, collection: 'keystores' })
+export class Keystore {
+  // Only `default` exists today; the name keeps a second writer from creating another
+  @Prop({ required: true, unique: true })
+  name: string;
+
+  @Prop({ required: true })
+  ciphertext: string;
+
+  @Prop({ required: true })
+  iv: string;
+
+  @Prop({ required: true })
+  authTag: string;
+
+  @Prop({ type: SchemaTypes.Mixed, required: true })
+  kdfParams: KdfParams;
+}
+
+export const KeystoreSchema = SchemaFactory.createForClass(Keystore);
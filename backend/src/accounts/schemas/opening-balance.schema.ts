@@ -0,0 +1,34 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes, Types } from 'mongoose';
+
+export type OpeningBalanceDocument = OpeningBalance & Document & {
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * What an address held of one asset on one network before any transaction
+ * this app tracks. The balance ledger starts from it; addresses without one
+ * start from the configured default for the native currency, or zero.
+ */
+@Schema({ timestamps: true, collection: 'opening_balances' })
+export class OpeningBalance {
+  // Lowercased so checksummed and plain spellings share a balance
+  @Prop({ required: true })
+  address: string;
+
+  @Prop({ required: true })
+  chainId: number;
+
+  // ERC-20 token contract; null for the network's native currency
+  @Prop({ type: String, default: null })
+  tokenAddress: string | null;
+
+  // Integer base units of the asset
+  @Prop({ type: SchemaTypes.Decimal128, required: true })
+  amount: Types.Decimal128;
+}
+
+export const OpeningBalanceSchema = SchemaFactory.createForClass(OpeningBalance);
+
+OpeningBalanceSchema.index({ address: 1, chainId: 1, tokenAddress: 1 }, { unique: true });
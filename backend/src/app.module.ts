@@ -5,6 +5,11 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { TransactionsModule } from './transactions/transactions.module';
 import { StatsModule } from './stats/stats.module';
+import { GasModule } from './gas/gas.module';
+import { AccountsModule } from './accounts/accounts.module';
+import { NetworksModule } from './networks/networks.module';
+import { TokensModule } from './tokens/tokens.module';
+import { AbisModule } from './abis/abis.module';
 
 @Module({
   imports: [
@@ -21,6 +26,11 @@ import { StatsModule } from './stats/stats.module';
     }),
     TransactionsModule,
     StatsModule,
+    GasModule,
+    AccountsModule,
+    NetworksModule,
+    TokensModule,
+    AbisModule,
   ],
   controllers: [AppController],
   providers: [AppService],
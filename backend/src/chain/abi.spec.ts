@@ -0,0 +1,154 @@
+import {
+    AbiFunction,
+    decodeFunctionCall,
+    encodeFunctionCall,
+    findFunction,
+    functionSelector,
+    functionSignature,
+    parseAbi,
+} from './abi';
+import { encodeErc20Transfer } from './erc20';
+
+// Vectors from the examples in the Solidity ABI specification
+const fn = (name: string, ...types: string[]): AbiFunction => ({
+    name,
+    inputs: types.map((type, index) => ({ name: `arg${index}`, type })),
+});
+const words = (...hex: string[]) => hex.join('');
+
+const SAM = fn('sam', 'bytes', 'bool', 'uint256[]');
+const SAM_DATA =
+    '0xa5643bf2' +
+    words(
+        '0000000000000000000000000000000000000000000000000000000000000060',
+        '0000000000000000000000000000000000000000000000000000000000000001',
+        '00000000000000000000000000000000000000000000000000000000000000a0',
+        '0000000000000000000000000000000000000000000000000000000000000004',
+        '6461766500000000000000000000000000000000000000000000000000000000',
+        '0000000000000000000000000000000000000000000000000000000000000003',
+        '0000000000000000000000000000000000000000000000000000000000000001',
+        '0000000000000000000000000000000000000000000000000000000000000002',
+        '0000000000000000000000000000000000000000000000000000000000000003',
+    );
+
+const F = fn('f', 'uint', 'uint32[]', 'bytes10', 'bytes');
+const F_DATA =
+    '0x8be65246' +
+    words(
+        '0000000000000000000000000000000000000000000000000000000000000123',
+        '0000000000000000000000000000000000000000000000000000000000000080',
+        '3132333435363738393000000000000000000000000000000000000000000000',
+        '00000000000000000000000000000000000000000000000000000000000000e0',
+        '0000000000000000000000000000000000000000000000000000000000000002',
+        '0000000000000000000000000000000000000000000000000000000000000456',
+        '0000000000000000000000000000000000000000000000000000000000000789',
+        '000000000000000000000000000000000000000000000000000000000000000d',
+        '48656c6c6f2c20776f726c642100000000000000000000000000000000000000',
+    );
+
+const TRANSFER = fn('transfer', 'address', 'uint256');
+const RECIPIENT = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+describe('functionSignature', () => {
+    it('uses canonical type names', () => {
+        expect(functionSignature(F)).toBe('f(uint256,uint32[],bytes10,bytes)');
+        expect(functionSelector(F)).toBe('0x8be65246');
+    });
+
+    it('rejects tuples', () => {
+        expect(() => functionSignature(fn('g', 'tuple'))).toThrow('Unsupported ABI type tuple');
+    });
+});
+
+describe('encodeFunctionCall', () => {
+    it('encodes static arguments in place', () => {
+        expect(encodeFunctionCall(fn('baz', 'uint32', 'bool'), [69, true])).toBe(
+            '0xcdcd77c0' +
+                words(
+                    '0000000000000000000000000000000000000000000000000000000000000045',
+                    '0000000000000000000000000000000000000000000000000000000000000001',
+                ),
+        );
+        expect(encodeFunctionCall(fn('bar', 'bytes3[2]'), [['0x616263', '0x646566']])).toBe(
+            '0xfce353f6' +
+                words(
+                    '6162630000000000000000000000000000000000000000000000000000000000',
+                    '6465660000000000000000000000000000000000000000000000000000000000',
+                ),
+        );
+    });
+
+    it('encodes dynamic arguments in the tail', () => {
+        expect(encodeFunctionCall(SAM, ['0x64617665', true, ['1', '2', '3']])).toBe(SAM_DATA);
+        expect(encodeFunctionCall(F, ['0x123', ['0x456', '0x789'], '0x31323334353637383930', '0x48656c6c6f2c20776f726c6421'])).toBe(F_DATA);
+    });
+
+    it('matches the ERC-20 transfer encoding', () => {
+        expect(encodeFunctionCall(TRANSFER, [RECIPIENT, '1000000'])).toBe(encodeErc20Transfer(RECIPIENT, 1_000_000n));
+    });
+
+    it('encodes negative integers as two\'s complement', () => {
+        const g = fn('g', 'int8');
+        expect(encodeFunctionCall(g, ['-1'])).toBe(functionSelector(g) + 'f'.repeat(64));
+    });
+
+    it('names the argument that does not encode', () => {
+        expect(() => encodeFunctionCall(TRANSFER, ['0x1234', '1'])).toThrow('Argument arg0: expected an address');
+        expect(() => encodeFunctionCall(fn('g', 'uint8'), ['256'])).toThrow('256 does not fit in uint8');
+        expect(() => encodeFunctionCall(TRANSFER, [RECIPIENT])).toThrow('transfer takes 2 argument(s), got 1');
+    });
+});
+
+describe('decodeFunctionCall', () => {
+    it('decodes the arguments of the function the selector names', () => {
+        const decoded = decodeFunctionCall([TRANSFER, F], F_DATA);
+        expect(decoded.signature).toBe('f(uint256,uint32[],bytes10,bytes)');
+        expect(decoded.args.map((arg) => arg.value)).toEqual([
+            '291',
+            ['1110', '1929'],
+            '0x31323334353637383930',
+            '0x48656c6c6f2c20776f726c6421',
+        ]);
+    });
+
+    it('round-trips strings, bools and checksummed addresses', () => {
+        const g = fn('g', 'string', 'bool', 'address', 'int16');
+        const decoded = decodeFunctionCall([g], encodeFunctionCall(g, ['héllo', false, RECIPIENT.toLowerCase(), '-300']));
+        expect(decoded.args.map((arg) => arg.value)).toEqual(['héllo', false, RECIPIENT, '-300']);
+    });
+
+    it('returns null for unknown selectors', () => {
+        expect(decodeFunctionCall([TRANSFER], SAM_DATA)).toBeNull();
+    });
+
+    it('rejects truncated calldata', () => {
+        expect(() => decodeFunctionCall([SAM], SAM_DATA.slice(0, -64))).toThrow('calldata is too short');
+    });
+});
+
+describe('parseAbi', () => {
+    it('keeps functions and skips other entries', () => {
+        const functions = parseAbi([
+            { type: 'event', name: 'Transfer', inputs: [] },
+            { type: 'function', name: 'transfer', inputs: [{ name: 'to', type: 'address' }], stateMutability: 'nonpayable' },
+        ]);
+        expect(functions).toEqual([
+            { name: 'transfer', inputs: [{ name: 'to', type: 'address' }], stateMutability: 'nonpayable' },
+        ]);
+    });
+
+    it('rejects malformed ABIs', () => {
+        expect(() => parseAbi({})).toThrow('ABI must be a JSON array');
+        expect(() => parseAbi([{ type: 'function', inputs: [] }])).toThrow('no valid name');
+    });
+});
+
+describe('findFunction', () => {
+    const overloaded = [fn('mint', 'address'), fn('mint', 'address', 'uint256')];
+
+    it('finds overloaded functions by signature only', () => {
+        expect(findFunction(overloaded, 'mint(address,uint256)')).toBe(overloaded[1]);
+        expect(() => findFunction(overloaded, 'mint')).toThrow('mint is overloaded');
+        expect(() => findFunction(overloaded, 'burn')).toThrow('The ABI has no function burn');
+    });
+});
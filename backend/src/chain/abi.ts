@@ -0,0 +1,353 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex } from '@noble/hashes/utils';
+import { toChecksumAddress } from './address';
+
+export type AbiParameter = {
+    name?: string;
+    type: string;
+};
+
+export type AbiFunction = {
+    name: string;
+    inputs: AbiParameter[];
+    stateMutability?: string;
+};
+
+// Argument values as JSON carries them: numbers as decimal or 0x strings, bytes as hex, arrays as arrays
+export type AbiValue = string | number | boolean | AbiValue[];
+
+export type DecodedArgument = {
+    name: string;
+    type: string;
+    value: AbiValue;
+};
+
+export type DecodedFunctionCall = {
+    function: AbiFunction;
+    signature: string;
+    args: DecodedArgument[];
+};
+
+type AbiType =
+    | { kind: 'uint' | 'int'; bits: number }
+    | { kind: 'address' | 'bool' | 'bytes' | 'string' }
+    | { kind: 'fixedBytes'; size: number }
+    | { kind: 'array'; item: AbiType; length: number | null };
+
+const WORD_BYTES = 32;
+
+/**
+ * Parses an elementary ABI type, or a (possibly nested) array of one. Tuples
+ * are not supported.
+ */
+function parseType(type: string): AbiType {
+    const array = /^(.*)\[(\d*)\]$/.exec(type);
+    if (array) {
+        const length = array[2] === '' ? null : Number(array[2]);
+        if (length === 0) throw new Error(`Invalid ABI type ${type}`);
+        return { kind: 'array', item: parseType(array[1]), length };
+    }
+
+    const integer = /^(u?int)(\d*)$/.exec(type);
+    if (integer) {
+        const bits = integer[2] === '' ? 256 : Number(integer[2]);
+        if (bits < 8 || bits > 256 || bits % 8 !== 0) throw new Error(`Invalid ABI type ${type}`);
+        return { kind: integer[1] as 'uint' | 'int', bits };
+    }
+
+    const fixedBytes = /^bytes(\d+)$/.exec(type);
+    if (fixedBytes) {
+        const size = Number(fixedBytes[1]);
+        if (size < 1 || size > 32) throw new Error(`Invalid ABI type ${type}`);
+        return { kind: 'fixedBytes', size };
+    }
+
+    if (type === 'address' || type === 'bool' || type === 'bytes' || type === 'string') {
+        return { kind: type };
+    }
+    throw new Error(`Unsupported ABI type ${type}`);
+}
+
+// The type as it appears in a function signature, e.g. uint256 for uint
+function canonicalType(type: AbiType): string {
+    switch (type.kind) {
+        case 'uint':
+        case 'int':
+            return `${type.kind}${type.bits}`;
+        case 'fixedBytes':
+            return `bytes${type.size}`;
+        case 'array':
+            return `${canonicalType(type.item)}[${type.length ?? ''}]`;
+        default:
+            return type.kind;
+    }
+}
+
+function isDynamic(type: AbiType): boolean {
+    if (type.kind === 'array') return type.length === null || isDynamic(type.item);
+    return type.kind === 'bytes' || type.kind === 'string';
+}
+
+// Bytes a static value takes in the head of its enclosing tuple
+function headSize(type: AbiType): number {
+    if (isDynamic(type)) return WORD_BYTES;
+    return type.kind === 'array' ? type.length * headSize(type.item) : WORD_BYTES;
+}
+
+function word(value: bigint): string {
+    return value.toString(16).padStart(WORD_BYTES * 2, '0');
+}
+
+function padRight(hex: string): string {
+    const size = Math.ceil(hex.length / (WORD_BYTES * 2)) * WORD_BYTES * 2;
+    return hex.padEnd(size, '0');
+}
+
+function parseHexBytes(value: unknown): string {
+    if (typeof value !== 'string' || !/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+        throw new Error(`expected 0x-prefixed hex bytes, got ${JSON.stringify(value)}`);
+    }
+    return value.slice(2).toLowerCase();
+}
+
+function parseInteger(value: unknown): bigint {
+    if (typeof value === 'number' && Number.isSafeInteger(value)) return BigInt(value);
+    if (typeof value === 'string' && /^(-?\d+|0x[0-9a-fA-F]+)$/.test(value.trim())) return BigInt(value.trim());
+    throw new Error(`expected an integer, got ${JSON.stringify(value)}`);
+}
+
+function encodeValue(type: AbiType, value: unknown): string {
+    switch (type.kind) {
+        case 'uint': {
+            const integer = parseInteger(value);
+            if (integer < 0n || integer >= 1n << BigInt(type.bits)) {
+                throw new Error(`${integer} does not fit in uint${type.bits}`);
+            }
+            return word(integer);
+        }
+        case 'int': {
+            const integer = parseInteger(value);
+            const limit = 1n << BigInt(type.bits - 1);
+            if (integer < -limit || integer >= limit) {
+                throw new Error(`${integer} does not fit in int${type.bits}`);
+            }
+            // Two's complement over the full word
+            return word(integer < 0n ? (1n << 256n) + integer : integer);
+        }
+        case 'address':
+            if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+                throw new Error(`expected an address, got ${JSON.stringify(value)}`);
+            }
+            return word(BigInt(value));
+        case 'bool':
+            if (value !== true && value !== false && value !== 'true' && value !== 'false') {
+                throw new Error(`expected true or false, got ${JSON.stringify(value)}`);
+            }
+            return word(value === true || value === 'true' ? 1n : 0n);
+        case 'fixedBytes': {
+            const hex = parseHexBytes(value);
+            if (hex.length !== type.size * 2) {
+                throw new Error(`expected ${type.size} bytes, got ${hex.length / 2}`);
+            }
+            return padRight(hex);
+        }
+        case 'bytes': {
+            const hex = parseHexBytes(value);
+            return word(BigInt(hex.length / 2)) + padRight(hex);
+        }
+        case 'string': {
+            if (typeof value !== 'string') throw new Error(`expected a string, got ${JSON.stringify(value)}`);
+            const hex = Buffer.from(value, 'utf-8').toString('hex');
+            return word(BigInt(hex.length / 2)) + padRight(hex);
+        }
+        case 'array': {
+            if (!Array.isArray(value)) throw new Error(`expected an array, got ${JSON.stringify(value)}`);
+            if (type.length !== null && value.length !== type.length) {
+                throw new Error(`expected ${type.length} items, got ${value.length}`);
+            }
+            const items = encodeTuple(value.map(() => type.item), value);
+            return type.length === null ? word(BigInt(value.length)) + items : items;
+        }
+    }
+}
+
+/**
+ * Head-tail encoding: static values sit in the head, dynamic ones in the tail
+ * with their offset from the start of the tuple in the head.
+ */
+function encodeTuple(types: AbiType[], values: unknown[]): string {
+    let offset = types.reduce((total, type) => total + headSize(type), 0);
+    let head = '';
+    let tail = '';
+    types.forEach((type, index) => {
+        const encoded = encodeValue(type, values[index]);
+        if (isDynamic(type)) {
+            head += word(BigInt(offset));
+            tail += encoded;
+            offset += encoded.length / 2;
+        } else {
+            head += encoded;
+        }
+    });
+    return head + tail;
+}
+
+function readWord(data: string, position: number): bigint {
+    const hex = data.slice(position * 2, (position + WORD_BYTES) * 2);
+    if (hex.length !== WORD_BYTES * 2) throw new Error('calldata is too short');
+    return BigInt(`0x${hex}`);
+}
+
+function readBytes(data: string, position: number, length: number): string {
+    const hex = data.slice(position * 2, (position + length) * 2);
+    if (hex.length !== length * 2) throw new Error('calldata is too short');
+    return hex;
+}
+
+function readOffset(data: string, position: number): number {
+    const offset = readWord(data, position);
+    if (offset > BigInt(data.length / 2)) throw new Error('calldata offset is out of range');
+    return Number(offset);
+}
+
+function decodeValue(type: AbiType, data: string, position: number): AbiValue {
+    switch (type.kind) {
+        case 'uint':
+            return readWord(data, position).toString();
+        case 'int': {
+            const raw = readWord(data, position);
+            return (raw >= 1n << 255n ? raw - (1n << 256n) : raw).toString();
+        }
+        case 'address':
+            return toChecksumAddress(readBytes(data, position + 12, 20));
+        case 'bool': {
+            const raw = readWord(data, position);
+            if (raw > 1n) throw new Error(`invalid bool ${raw}`);
+            return raw === 1n;
+        }
+        case 'fixedBytes':
+            return `0x${readBytes(data, position, type.size)}`;
+        case 'bytes':
+        case 'string': {
+            const length = readOffset(data, position);
+            const hex = readBytes(data, position + WORD_BYTES, length);
+            return type.kind === 'bytes' ? `0x${hex}` : Buffer.from(hex, 'hex').toString('utf-8');
+        }
+        case 'array': {
+            if (type.length !== null) {
+                return decodeTuple(Array(type.length).fill(type.item), data, position);
+            }
+            const length = readOffset(data, position);
+            return decodeTuple(Array(length).fill(type.item), data, position + WORD_BYTES);
+        }
+    }
+}
+
+function decodeTuple(types: AbiType[], data: string, start: number): AbiValue[] {
+    let position = start;
+    return types.map((type) => {
+        const value = isDynamic(type)
+            ? decodeValue(type, data, start + readOffset(data, position))
+            : decodeValue(type, data, position);
+        position += headSize(type);
+        return value;
+    });
+}
+
+// e.g. transfer(address,uint256)
+export function functionSignature(fn: AbiFunction): string {
+    return `${fn.name}(${fn.inputs.map((input) => canonicalType(parseType(input.type))).join(',')})`;
+}
+
+// First four bytes of the keccak256 hash of the signature
+export function functionSelector(fn: AbiFunction): string {
+    return `0x${bytesToHex(keccak_256(functionSignature(fn))).slice(0, 8)}`;
+}
+
+/**
+ * Reads the functions out of a JSON ABI, rejecting malformed entries. Events,
+ * errors and constructors are skipped; entries without a type are functions.
+ */
+export function parseAbi(abi: unknown): AbiFunction[] {
+    if (!Array.isArray(abi)) {
+        throw new Error('ABI must be a JSON array');
+    }
+    return abi
+        .filter((entry) => entry?.type === undefined || entry?.type === 'function')
+        .map((entry, index) => {
+            if (typeof entry?.name !== 'string' || !/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(entry.name)) {
+                throw new Error(`Function ${index} has no valid name`);
+            }
+            const inputs = entry.inputs ?? [];
+            if (!Array.isArray(inputs) || inputs.some((input) => typeof input?.type !== 'string')) {
+                throw new Error(`Function ${entry.name} has malformed inputs`);
+            }
+            return {
+                name: entry.name,
+                inputs: inputs.map((input: AbiParameter) => ({ name: input.name ?? '', type: input.type })),
+                stateMutability: entry.stateMutability,
+            };
+        });
+}
+
+/**
+ * Finds a function by name, or by full signature when the name is
+ * overloaded, e.g. `safeTransferFrom(address,address,uint256)`.
+ */
+export function findFunction(functions: AbiFunction[], nameOrSignature: string): AbiFunction {
+    const bySignature = functions.find((fn) => functionSignature(fn) === nameOrSignature);
+    if (bySignature) return bySignature;
+
+    const byName = functions.filter((fn) => fn.name === nameOrSignature);
+    if (byName.length === 1) return byName[0];
+    if (byName.length > 1) {
+        throw new Error(`${nameOrSignature} is overloaded; name it by signature: ${byName.map(functionSignature).join(', ')}`);
+    }
+    throw new Error(`The ABI has no function ${nameOrSignature}`);
+}
+
+// `args` come from request bodies, so each is checked against its input's type as it is encoded
+export function encodeFunctionCall(fn: AbiFunction, args: unknown[]): string {
+    if (args.length !== fn.inputs.length) {
+        throw new Error(`${fn.name} takes ${fn.inputs.length} argument(s), got ${args.length}`);
+    }
+    const types = fn.inputs.map((input) => parseType(input.type));
+    // Encode one by one first so an error names the argument at fault
+    types.forEach((type, index) => {
+        try {
+            encodeValue(type, args[index]);
+        } catch (error) {
+            throw new Error(`Argument ${fn.inputs[index].name || index}: ${error.message}`);
+        }
+    });
+    return functionSelector(fn) + encodeTuple(types, args);
+}
+
+/**
+ * Decodes calldata against the function its selector names, or returns null
+ * when none of `functions` has that selector. Throws when the arguments do
+ * not decode.
+ */
+export function decodeFunctionCall(functions: AbiFunction[], data: string): DecodedFunctionCall | null {
+    const selector = data.slice(0, 10).toLowerCase();
+    const fn = functions.find((candidate) => {
+        try {
+            return functionSelector(candidate) === selector;
+        } catch {
+            // Functions with unsupported types cannot be matched
+            return false;
+        }
+    });
+    if (!fn) return null;
+
+    const values = decodeTuple(
+        fn.inputs.map((input) => parseType(input.type)),
+        data.slice(10).toLowerCase(),
+        0,
+    );
+    return {
+        function: fn,
+        signature: functionSignature(fn),
+        args: fn.inputs.map((input, index) => ({ name: input.name ?? '', type: input.type, value: values[index] })),
+    };
+}
@@ -0,0 +1,24 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex } from '@noble/hashes/utils';
+
+/**
+ * Mixed-case checksum encoding from EIP-55: a letter is uppercased when the
+ * matching nibble of the keccak256 hash of the lowercase address is 8 or more.
+ */
+export function toChecksumAddress(address: string): string {
+    const lower = address.toLowerCase().replace(/^0x/, '');
+    const hash = bytesToHex(keccak_256(lower));
+    let result = '0x';
+    for (let i = 0; i < lower.length; i++) {
+        result += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+    }
+    return result;
+}
+
+// The address is the last 20 bytes of the keccak256 hash of the uncompressed public key, without its 0x04 prefix
+export function publicKeyToAddress(publicKey: Uint8Array): string {
+    const uncompressed = secp256k1.ProjectivePoint.fromHex(publicKey).toRawBytes(false);
+    const hash = keccak_256(uncompressed.subarray(1));
+    return toChecksumAddress(bytesToHex(hash.subarray(-20)));
+}
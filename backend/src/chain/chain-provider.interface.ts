@@ -0,0 +1,55 @@
+// Current network pricing in integer wei per unit of gas
+export type FeeData = {
+    // Null on networks without EIP-1559
+    baseFeePerGas: bigint | null;
+    maxPriorityFeePerGas: bigint;
+    gasPrice: bigint;
+};
+
+export type GasEstimateRequest = {
+    from: string;
+    to: string;
+    // Integer wei
+    value: bigint;
+    // Hex calldata for contract calls, e.g. an ERC-20 transfer
+    data?: string;
+};
+
+export type ChainReceipt = {
+    transactionHash: string;
+    status: 'success' | 'reverted';
+    blockNumber: number;
+    blockHash: string;
+    gasUsed: bigint;
+    effectiveGasPrice: bigint;
+    // Set for reverted transactions when the node reports a reason
+    revertReason?: string;
+};
+
+/**
+ * Everything the app needs from a blockchain node. Services depend on this
+ * interface only, and get the provider for a network from the networks registry.
+ */
+export interface ChainProvider {
+    /**
+     * Broadcasts a signed, serialized transaction and returns its hash. Throws
+     * ChainRejectedError when the node refuses it, e.g. for a used nonce or an
+     * underpriced replacement.
+     */
+    sendRawTransaction(raw: string): Promise<string>;
+
+    // Null until the transaction is mined, and for transactions the node does not know
+    getReceipt(hash: string): Promise<ChainReceipt | null>;
+
+    getBlockNumber(): Promise<number>;
+
+    estimateGas(request: GasEstimateRequest): Promise<bigint>;
+
+    getFeeData(): Promise<FeeData>;
+
+    // EIP-155 chain ID that signatures must commit to
+    getChainId(): Promise<number>;
+
+    // The next nonce the chain expects from `address`, counting its mempool
+    getTransactionCount(address: string): Promise<number>;
+}
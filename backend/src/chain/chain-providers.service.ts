@@ -0,0 +1,60 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ChainProvider } from './chain-provider.interface';
+import { JsonRpcChainProvider } from './json-rpc-chain.provider';
+import { SimulatedChainProvider } from './simulated-chain.provider';
+
+// How to reach a network: a JSON-RPC endpoint, or the in-process simulated chain when null
+export type ChainConnection = {
+    chainId: number;
+    rpcUrl: string | null;
+};
+
+type OpenProvider = {
+    rpcUrl: string | null;
+    provider: ChainProvider;
+};
+
+/**
+ * Hands out one ChainProvider per network. A provider is created on first
+ * use and replaced when the network's RPC URL changes. Each simulated
+ * network runs its own chain.
+ */
+@Injectable()
+export class ChainProvidersService implements OnModuleDestroy {
+    private readonly providers = new Map<number, OpenProvider>();
+
+    constructor(private readonly configService: ConfigService) { }
+
+    get(connection: ChainConnection): ChainProvider {
+        const open = this.providers.get(connection.chainId);
+        if (open && open.rpcUrl === connection.rpcUrl) {
+            return open.provider;
+        }
+        if (open) {
+            this.close(open.provider);
+        }
+
+        const provider = connection.rpcUrl
+            ? new JsonRpcChainProvider(connection.rpcUrl)
+            : new SimulatedChainProvider(this.configService, connection.chainId);
+        if (provider instanceof SimulatedChainProvider) {
+            provider.start();
+        }
+        this.providers.set(connection.chainId, { rpcUrl: connection.rpcUrl, provider });
+        return provider;
+    }
+
+    onModuleDestroy() {
+        for (const { provider } of this.providers.values()) {
+            this.close(provider);
+        }
+        this.providers.clear();
+    }
+
+    private close(provider: ChainProvider) {
+        if (provider instanceof SimulatedChainProvider) {
+            provider.stop();
+        }
+    }
+}
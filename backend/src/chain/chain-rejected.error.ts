@@ -0,0 +1,10 @@
+/**
+ * The node refused a transaction outright. Retrying the same request will
+ * not help, unlike a network or availability error.
+ */
+export class ChainRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ChainRejectedError';
+    }
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { ChainProvidersService } from './chain-providers.service';
+
+@Module({
+    providers: [ChainProvidersService],
+    exports: [ChainProvidersService],
+})
+export class ChainModule { }
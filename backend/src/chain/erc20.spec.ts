@@ -0,0 +1,47 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex } from '@noble/hashes/utils';
+import { encodeErc20Transfer, ERC20_TRANSFER_SELECTOR, transferCall } from './erc20';
+
+const RECIPIENT = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+describe('encodeErc20Transfer', () => {
+    it('uses the selector of transfer(address,uint256)', () => {
+        expect(ERC20_TRANSFER_SELECTOR).toBe(`0x${bytesToHex(keccak_256('transfer(address,uint256)')).slice(0, 8)}`);
+    });
+
+    it('pads the recipient and amount to 32-byte words', () => {
+        expect(encodeErc20Transfer(RECIPIENT, 1_000_000n)).toBe(
+            '0xa9059cbb' +
+                '000000000000000000000000f39fd6e51aad88f6f4ce6ab8827279cfffb92266' +
+                '00000000000000000000000000000000000000000000000000000000000f4240',
+        );
+    });
+
+    it('rejects amounts that do not fit in a uint256', () => {
+        expect(() => encodeErc20Transfer(RECIPIENT, 1n << 256n)).toThrow('uint256');
+        expect(() => encodeErc20Transfer(RECIPIENT, -1n)).toThrow('uint256');
+    });
+
+    it('rejects malformed recipients', () => {
+        expect(() => encodeErc20Transfer('0x1234', 1n)).toThrow('Invalid address');
+    });
+});
+
+describe('transferCall', () => {
+    it('sends native transfers straight to the recipient', () => {
+        expect(transferCall(RECIPIENT, 5n, null)).toEqual({ to: RECIPIENT, value: 5n });
+    });
+
+    it('passes contract calldata along with the value', () => {
+        expect(transferCall(TOKEN, 5n, null, '0xd0e30db0')).toEqual({ to: TOKEN, value: 5n, data: '0xd0e30db0' });
+    });
+
+    it('calls the token contract without value for token transfers', () => {
+        expect(transferCall(RECIPIENT, 5n, TOKEN)).toEqual({
+            to: TOKEN,
+            value: 0n,
+            data: encodeErc20Transfer(RECIPIENT, 5n),
+        });
+    });
+});
@@ -0,0 +1,47 @@
+// First four bytes of keccak256("transfer(address,uint256)")
+export const ERC20_TRANSFER_SELECTOR = '0xa9059cbb';
+
+const UINT256_MAX = (1n << 256n) - 1n;
+
+function word(value: bigint): string {
+    return value.toString(16).padStart(64, '0');
+}
+
+/**
+ * Calldata for an ERC-20 `transfer(to, amount)`: the selector followed by
+ * each argument left-padded to a 32-byte word. `amount` is in the token's
+ * base units.
+ */
+export function encodeErc20Transfer(to: string, amount: bigint): string {
+    if (!/^0x[a-fA-F0-9]{40}$/.test(to)) {
+        throw new Error(`Invalid address: ${to}`);
+    }
+    if (amount < 0n || amount > UINT256_MAX) {
+        throw new Error(`Amount ${amount} does not fit in a uint256`);
+    }
+    return ERC20_TRANSFER_SELECTOR + word(BigInt(to)) + word(amount);
+}
+
+export type TransferCall = {
+    to: string;
+    // Integer wei
+    value: bigint;
+    data?: string;
+};
+
+/**
+ * What a transfer of `amount` to `recipient` sends on chain. Native transfers
+ * carry the value themselves, along with the calldata when they call a
+ * contract; a token transfer calls the token contract with no value attached.
+ */
+export function transferCall(
+    recipient: string,
+    amount: bigint,
+    tokenAddress: string | null,
+    data: string | null = null,
+): TransferCall {
+    if (tokenAddress) {
+        return { to: tokenAddress, value: 0n, data: encodeErc20Transfer(recipient, amount) };
+    }
+    return data ? { to: recipient, value: amount, data } : { to: recipient, value: amount };
+}
@@ -0,0 +1,60 @@
+import { FeeData } from './chain-provider.interface';
+
+// Fee fields of a transaction, in integer wei per unit of gas
+export type FeeFields = {
+    gasPrice?: bigint;
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+};
+
+// What a transaction offers: at most `feeCap` in total, of which at most `tip` goes to the miner
+export type FeeBid = {
+    feeCap: bigint;
+    tip: bigint;
+};
+
+// Nodes only accept a replacement that raises both the fee cap and the tip by at least 10%
+export const REPLACEMENT_BUMP_PERCENT = 10n;
+
+export function isEip1559(fields: FeeFields): boolean {
+    return fields.maxFeePerGas !== undefined;
+}
+
+/**
+ * Fees to sign with when the sender named none: the network's tip with a fee
+ * cap that survives the base fee doubling, or its gas price on networks
+ * without EIP-1559.
+ */
+export function networkFees(feeData: FeeData): FeeFields {
+    if (feeData.baseFeePerGas === null) {
+        return { gasPrice: feeData.gasPrice };
+    }
+    return {
+        maxFeePerGas: 2n * feeData.baseFeePerGas + feeData.maxPriorityFeePerGas,
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
+    };
+}
+
+// Legacy transactions offer their gas price as both cap and tip
+export function feeBid(fields: FeeFields, defaultGasPrice: bigint): FeeBid {
+    if (isEip1559(fields)) {
+        return { feeCap: fields.maxFeePerGas, tip: fields.maxPriorityFeePerGas ?? 0n };
+    }
+    const price = fields.gasPrice ?? defaultGasPrice;
+    return { feeCap: price, tip: price };
+}
+
+// Smallest value that is a full bump above `value`, rounded up
+export function bumpedFee(value: bigint): bigint {
+    return (value * (100n + REPLACEMENT_BUMP_PERCENT) + 99n) / 100n;
+}
+
+export function outbids(next: FeeBid, current: FeeBid): boolean {
+    return next.feeCap >= bumpedFee(current.feeCap) && next.tip >= bumpedFee(current.tip);
+}
+
+// Price per gas actually paid in a block with the given base fee
+export function effectiveGasPrice(bid: FeeBid, baseFeePerGas: bigint): bigint {
+    const offered = baseFeePerGas + bid.tip;
+    return offered < bid.feeCap ? offered : bid.feeCap;
+}
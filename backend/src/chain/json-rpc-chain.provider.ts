@@ -0,0 +1,150 @@
+import { ChainProvider, ChainReceipt, FeeData, GasEstimateRequest } from './chain-provider.interface';
+import { ChainRejectedError } from './chain-rejected.error';
+
+type JsonRpcResponse<T> = {
+    jsonrpc: '2.0';
+    id: number;
+    result?: T;
+    error?: { code: number; message: string };
+};
+
+type RpcReceipt = {
+    transactionHash: string;
+    status: string;
+    blockNumber: string;
+    blockHash: string;
+    gasUsed: string;
+    // Left out by pre-London nodes and some clients
+    effectiveGasPrice?: string;
+};
+
+type RpcTransaction = {
+    gasPrice?: string;
+};
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Suggested tip for nodes without eth_maxPriorityFeePerGas
+const DEFAULT_PRIORITY_FEE = 1_500_000_000n;
+
+export class JsonRpcError extends Error {
+    constructor(
+        readonly code: number,
+        message: string,
+    ) {
+        super(message);
+        this.name = 'JsonRpcError';
+    }
+}
+
+function toQuantity(value: bigint | number): string {
+    return `0x${value.toString(16)}`;
+}
+
+/**
+ * Talks to an Ethereum JSON-RPC endpoint such as anvil, a hardhat node or
+ * geth --dev. Transactions arrive signed by the app's own keys, so the node
+ * needs no unlocked accounts.
+ */
+export class JsonRpcChainProvider implements ChainProvider {
+    private requestId = 0;
+
+    constructor(private readonly rpcUrl: string) { }
+
+    async sendRawTransaction(raw: string): Promise<string> {
+        try {
+            return await this.call<string>('eth_sendRawTransaction', [raw]);
+        } catch (error) {
+            // The node answered and refused; anything else (timeouts, HTTP errors) may be retried
+            if (error instanceof JsonRpcError) {
+                throw new ChainRejectedError(error.message);
+            }
+            throw error;
+        }
+    }
+
+    async getReceipt(hash: string): Promise<ChainReceipt | null> {
+        const receipt = await this.call<RpcReceipt | null>('eth_getTransactionReceipt', [hash]);
+        if (!receipt || !receipt.blockNumber) {
+            return null;
+        }
+
+        return {
+            transactionHash: receipt.transactionHash,
+            status: receipt.status === '0x1' ? 'success' : 'reverted',
+            blockNumber: Number(receipt.blockNumber),
+            blockHash: receipt.blockHash,
+            gasUsed: BigInt(receipt.gasUsed),
+            effectiveGasPrice: receipt.effectiveGasPrice
+                ? BigInt(receipt.effectiveGasPrice)
+                : await this.paidGasPrice(hash),
+        };
+    }
+
+    async getBlockNumber(): Promise<number> {
+        return Number(await this.call<string>('eth_blockNumber', []));
+    }
+
+    async estimateGas(request: GasEstimateRequest): Promise<bigint> {
+        const gas = await this.call<string>('eth_estimateGas', [
+            { from: request.from, to: request.to, value: toQuantity(request.value), data: request.data },
+        ]);
+        return BigInt(gas);
+    }
+
+    async getFeeData(): Promise<FeeData> {
+        const block = await this.call<{ baseFeePerGas?: string } | null>('eth_getBlockByNumber', ['latest', false]);
+        const gasPrice = BigInt(await this.call<string>('eth_gasPrice', []));
+
+        let maxPriorityFeePerGas = DEFAULT_PRIORITY_FEE;
+        try {
+            maxPriorityFeePerGas = BigInt(await this.call<string>('eth_maxPriorityFeePerGas', []));
+        } catch (error) {
+            if (!(error instanceof JsonRpcError)) throw error;
+        }
+
+        return {
+            // Pre-London chains have no base fee and only take legacy transactions
+            baseFeePerGas: block?.baseFeePerGas ? BigInt(block.baseFeePerGas) : null,
+            maxPriorityFeePerGas,
+            gasPrice,
+        };
+    }
+
+    async getChainId(): Promise<number> {
+        return Number(await this.call<string>('eth_chainId', []));
+    }
+
+    async getTransactionCount(address: string): Promise<number> {
+        return Number(await this.call<string>('eth_getTransactionCount', [address, 'pending']));
+    }
+
+    // Without EIP-1559 a transaction pays exactly the gas price it was signed with
+    private async paidGasPrice(hash: string): Promise<bigint> {
+        const transaction = await this.call<RpcTransaction | null>('eth_getTransactionByHash', [hash]);
+        if (!transaction?.gasPrice) {
+            throw new Error(`Node reports no gas price for mined transaction ${hash}`);
+        }
+        return BigInt(transaction.gasPrice);
+    }
+
+    private async call<T>(method: string, params: unknown[]): Promise<T> {
+        const response = await fetch(this.rpcUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params }),
+            // A redirect could lead past the checks the URL passed when it was registered
+            redirect: 'error',
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+            throw new Error(`${method} failed: HTTP ${response.status}`);
+        }
+
+        const body = (await response.json()) as JsonRpcResponse<T>;
+        if (body.error) {
+            throw new JsonRpcError(body.error.code, body.error.message);
+        }
+        return body.result;
+    }
+}
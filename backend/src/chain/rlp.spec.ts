@@ -0,0 +1,55 @@
+import { bigintToBytes, rlpDecode, rlpEncode, RlpItem } from './rlp';
+
+// Vectors from the RLP section of the Ethereum yellow paper and wiki
+const text = (value: string) => Uint8Array.from(Buffer.from(value, 'utf-8'));
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const bytes = (encoded: string) => Uint8Array.from(Buffer.from(encoded, 'hex'));
+
+const LOREM = 'Lorem ipsum dolor sit amet, consectetur adipisicing elit';
+
+const VECTORS: [string, RlpItem, string][] = [
+    ['the string "dog"', text('dog'), '83646f67'],
+    ['a list of strings', [text('cat'), text('dog')], 'c88363617483646f67'],
+    ['the empty string', text(''), '80'],
+    ['the empty list', [], 'c0'],
+    ['the integer 0', bigintToBytes(0), '80'],
+    ['a single byte below 0x80', Uint8Array.of(0x0f), '0f'],
+    ['the integer 1024', bigintToBytes(1024), '820400'],
+    ['the set theoretical representation of three', [[], [[]], [[], [[]]]], 'c7c0c1c0c3c0c1c0'],
+    ['a 56 byte string', text(LOREM), `b838${hex(text(LOREM))}`],
+];
+
+describe('rlpEncode', () => {
+    it.each(VECTORS)('encodes %s', (_name, item, expected) => {
+        expect(hex(rlpEncode(item))).toBe(expected);
+    });
+});
+
+describe('rlpDecode', () => {
+    it.each(VECTORS)('decodes %s', (_name, item, encoded) => {
+        expect(rlpDecode(bytes(encoded))).toEqual(item);
+    });
+
+    it('rejects trailing bytes', () => {
+        expect(() => rlpDecode(bytes('83646f6700'))).toThrow('trailing bytes');
+    });
+
+    it('rejects truncated input', () => {
+        expect(() => rlpDecode(bytes('83646f'))).toThrow('truncated');
+    });
+
+    it('rejects a single small byte wrapped in a string prefix', () => {
+        expect(() => rlpDecode(bytes('810f'))).toThrow('single byte');
+    });
+});
+
+describe('bigintToBytes', () => {
+    it('drops leading zeros', () => {
+        expect(hex(bigintToBytes(0x0400n))).toBe('0400');
+        expect(hex(bigintToBytes(0xffn))).toBe('ff');
+    });
+
+    it('rejects negative values', () => {
+        expect(() => bigintToBytes(-1n)).toThrow();
+    });
+});
@@ -0,0 +1,122 @@
+// Recursive Length Prefix encoding, the serialization Ethereum signs and hashes
+// transactions in. Items are byte strings or (nested) lists of items.
+
+export type RlpItem = Uint8Array | RlpItem[];
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+// Big-endian with no leading zeros; zero is the empty string
+export function bigintToBytes(value: bigint | number): Uint8Array {
+    const number = BigInt(value);
+    if (number < 0n) {
+        throw new Error('RLP cannot encode negative integers');
+    }
+    if (number === 0n) return new Uint8Array(0);
+    const hex = number.toString(16);
+    return Uint8Array.from(Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex'));
+}
+
+export function bytesToBigint(bytes: Uint8Array): bigint {
+    return bytes.length === 0 ? 0n : BigInt(`0x${Buffer.from(bytes).toString('hex')}`);
+}
+
+function encodeLength(length: number, offset: number): Uint8Array {
+    if (length < 56) {
+        return Uint8Array.of(offset + length);
+    }
+    const lengthBytes = bigintToBytes(length);
+    return concatBytes([Uint8Array.of(offset + 55 + lengthBytes.length), lengthBytes]);
+}
+
+export function rlpEncode(item: RlpItem): Uint8Array {
+    if (Array.isArray(item)) {
+        const payload = concatBytes(item.map(rlpEncode));
+        return concatBytes([encodeLength(payload.length, 0xc0), payload]);
+    }
+    // A single byte below 0x80 is its own encoding
+    if (item.length === 1 && item[0] < 0x80) {
+        return item;
+    }
+    return concatBytes([encodeLength(item.length, 0x80), item]);
+}
+
+type Decoded = {
+    item: RlpItem;
+    end: number;
+};
+
+function readLength(input: Uint8Array, start: number, lengthOfLength: number): number {
+    if (start + lengthOfLength > input.length) {
+        throw new Error('RLP input is truncated');
+    }
+    if (input[start] === 0) {
+        throw new Error('RLP length has leading zeros');
+    }
+    const length = Number(bytesToBigint(input.subarray(start, start + lengthOfLength)));
+    if (length < 56) {
+        throw new Error('RLP uses a long length for a short item');
+    }
+    return length;
+}
+
+function decodeAt(input: Uint8Array, start: number): Decoded {
+    if (start >= input.length) {
+        throw new Error('RLP input is truncated');
+    }
+    const prefix = input[start];
+
+    if (prefix < 0x80) {
+        return { item: input.subarray(start, start + 1), end: start + 1 };
+    }
+
+    if (prefix < 0xc0) {
+        const long = prefix > 0xb7;
+        const lengthOfLength = long ? prefix - 0xb7 : 0;
+        const length = long ? readLength(input, start + 1, lengthOfLength) : prefix - 0x80;
+        const from = start + 1 + lengthOfLength;
+        if (from + length > input.length) {
+            throw new Error('RLP input is truncated');
+        }
+        const bytes = input.subarray(from, from + length);
+        if (length === 1 && bytes[0] < 0x80) {
+            throw new Error('RLP single byte is not encoded as itself');
+        }
+        return { item: bytes, end: from + length };
+    }
+
+    const long = prefix > 0xf7;
+    const lengthOfLength = long ? prefix - 0xf7 : 0;
+    const length = long ? readLength(input, start + 1, lengthOfLength) : prefix - 0xc0;
+    const from = start + 1 + lengthOfLength;
+    const end = from + length;
+    if (end > input.length) {
+        throw new Error('RLP input is truncated');
+    }
+    const items: RlpItem[] = [];
+    for (let position = from; position < end;) {
+        const decoded = decodeAt(input, position);
+        items.push(decoded.item);
+        position = decoded.end;
+    }
+    return { item: items, end };
+}
+
+/**
+ * Decodes exactly one item, rejecting trailing bytes and non-canonical
+ * encodings so every payload has a single valid form.
+ */
+export function rlpDecode(input: Uint8Array): RlpItem {
+    const { item, end } = decodeAt(input, 0);
+    if (end !== input.length) {
+        throw new Error('RLP input has trailing bytes');
+    }
+    return item;
+}
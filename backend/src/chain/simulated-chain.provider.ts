@@ -0,0 +1,207 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { ChainProvider, ChainReceipt, FeeData, GasEstimateRequest } from './chain-provider.interface';
+import { ChainRejectedError } from './chain-rejected.error';
+import { effectiveGasPrice, FeeBid, feeBid, outbids } from './fee-bid';
+import { decodeTransaction, DecodedTransaction } from './transaction-signing';
+import { readNumber } from '../common/config';
+
+type SimulatedChainSettings = {
+    chainId: number;
+    blockTimeMs: number;
+    failureRate: number;
+    dropRate: number;
+};
+
+type MempoolEntry = {
+    transaction: DecodedTransaction;
+    bid: FeeBid;
+};
+
+// Gas charged for a plain value transfer
+const INTRINSIC_GAS = 21_000n;
+// Calldata is charged per byte, more for non-zero bytes
+const ZERO_BYTE_GAS = 4n;
+const NON_ZERO_BYTE_GAS = 16n;
+// Stand-in for running a contract call, about what an ERC-20 transfer costs
+const CALL_EXECUTION_GAS = 30_000n;
+
+const GWEI = 1_000_000_000n;
+const INITIAL_BASE_FEE = 10n * GWEI;
+const MIN_BASE_FEE = GWEI;
+const DEFAULT_PRIORITY_FEE = 1_500_000_000n;
+
+function randomHash(): string {
+    return `0x${randomBytes(32).toString('hex')}`;
+}
+
+function nonceKey(from: string, nonce: number): string {
+    return `${from.toLowerCase()}:${nonce}`;
+}
+
+// Gas a transaction needs before any code runs
+function intrinsicGas(data = '0x'): bigint {
+    const bytes = Buffer.from(data.replace(/^0x/, ''), 'hex');
+    let gas = INTRINSIC_GAS;
+    for (const byte of bytes) {
+        gas += byte === 0 ? ZERO_BYTE_GAS : NON_ZERO_BYTE_GAS;
+    }
+    return gas;
+}
+
+// Gas a transaction uses when it succeeds; any calldata is treated as a contract call
+function gasRequired(data = '0x'): bigint {
+    return intrinsicGas(data) + (data.length > 2 ? CALL_EXECUTION_GAS : 0n);
+}
+
+/**
+ * In-process chain that mines a block every `blockTimeMs`. It takes signed
+ * transactions like a real node, recovering the sender from the signature
+ * and checking the chain ID. Each block has an
+ * EIP-1559 base fee that drifts up to 12.5% per block, and includes every
+ * mempool transaction whose fee cap covers it; the rest wait. A configurable
+ * share of transactions revert or are evicted without ever being mined.
+ * State lives in memory only, so it is lost on restart.
+ */
+export class SimulatedChainProvider implements ChainProvider {
+    private readonly logger = new Logger(SimulatedChainProvider.name);
+    private readonly settings: SimulatedChainSettings;
+    private timer: NodeJS.Timeout | null = null;
+    private blockNumber = 0;
+    private baseFeePerGas = INITIAL_BASE_FEE;
+    // One pending transaction per sender and nonce; a replacement overwrites it
+    private readonly mempool = new Map<string, MempoolEntry>();
+    private readonly receipts = new Map<string, ChainReceipt>();
+    private readonly usedNonces = new Set<string>();
+
+    constructor(configService: ConfigService, chainId: number) {
+        this.settings = {
+            chainId,
+            blockTimeMs: readNumber(configService, 'SIMULATED_CHAIN_BLOCK_TIME_MS', 2000),
+            failureRate: readNumber(configService, 'SIMULATED_CHAIN_FAILURE_RATE', 0.1),
+            dropRate: readNumber(configService, 'SIMULATED_CHAIN_DROP_RATE', 0.02),
+        };
+    }
+
+    start() {
+        this.timer = setInterval(() => this.mineBlock(), this.settings.blockTimeMs);
+    }
+
+    stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    async sendRawTransaction(raw: string): Promise<string> {
+        let transaction: DecodedTransaction;
+        try {
+            transaction = decodeTransaction(raw);
+        } catch (error) {
+            throw new ChainRejectedError(`invalid transaction: ${error.message}`);
+        }
+        if (transaction.chainId !== this.settings.chainId) {
+            throw new ChainRejectedError('invalid chain id');
+        }
+
+        const key = nonceKey(transaction.from, transaction.nonce);
+        if (this.usedNonces.has(key)) {
+            throw new ChainRejectedError('nonce too low');
+        }
+        if (transaction.gasLimit < intrinsicGas(transaction.data)) {
+            throw new ChainRejectedError('intrinsic gas too low');
+        }
+
+        const existing = this.mempool.get(key);
+        if (existing?.transaction.hash === transaction.hash) {
+            throw new ChainRejectedError('already known');
+        }
+        const bid = feeBid(transaction, 0n);
+        if (existing && !outbids(bid, existing.bid)) {
+            throw new ChainRejectedError('replacement transaction underpriced');
+        }
+
+        this.mempool.set(key, { transaction, bid });
+        return transaction.hash;
+    }
+
+    async getReceipt(hash: string): Promise<ChainReceipt | null> {
+        return this.receipts.get(hash) ?? null;
+    }
+
+    async getBlockNumber(): Promise<number> {
+        return this.blockNumber;
+    }
+
+    async estimateGas(request: GasEstimateRequest): Promise<bigint> {
+        return gasRequired(request.data);
+    }
+
+    async getFeeData(): Promise<FeeData> {
+        return {
+            baseFeePerGas: this.baseFeePerGas,
+            maxPriorityFeePerGas: DEFAULT_PRIORITY_FEE,
+            gasPrice: this.baseFeePerGas + DEFAULT_PRIORITY_FEE,
+        };
+    }
+
+    async getChainId(): Promise<number> {
+        return this.settings.chainId;
+    }
+
+    async getTransactionCount(address: string): Promise<number> {
+        let next = 0;
+        const keys = [...this.usedNonces, ...this.mempool.keys()];
+        for (const key of keys) {
+            const [from, nonce] = key.split(':');
+            if (from === address.toLowerCase()) next = Math.max(next, Number(nonce) + 1);
+        }
+        return next;
+    }
+
+    private mineBlock() {
+        this.blockNumber += 1;
+        const blockHash = randomHash();
+        const baseFee = this.baseFeePerGas;
+        let included = 0;
+
+        for (const [key, entry] of this.mempool) {
+            if (entry.bid.feeCap < baseFee) {
+                continue;
+            }
+            this.mempool.delete(key);
+
+            const roll = Math.random();
+            if (roll < this.settings.dropRate) {
+                continue;
+            }
+
+            const { hash, gasLimit, data } = entry.transaction;
+            const outOfGas = gasLimit < gasRequired(data);
+            const reverted = outOfGas || roll < this.settings.dropRate + this.settings.failureRate;
+            this.usedNonces.add(key);
+            this.receipts.set(hash, {
+                transactionHash: hash,
+                status: reverted ? 'reverted' : 'success',
+                blockNumber: this.blockNumber,
+                blockHash,
+                // A revert burns the whole gas limit, as running out of gas would
+                gasUsed: reverted ? gasLimit : gasRequired(data),
+                effectiveGasPrice: effectiveGasPrice(entry.bid, baseFee),
+                revertReason: outOfGas ? 'out of gas' : reverted ? 'execution reverted (simulated)' : undefined,
+            });
+            included += 1;
+        }
+
+        // Stand-in for block fullness: anywhere from empty (-12.5%) to full (+12.5%)
+        const drift = BigInt(Math.round((Math.random() - 0.5) * 250));
+        const next = (baseFee * (1000n + drift)) / 1000n;
+        this.baseFeePerGas = next > MIN_BASE_FEE ? next : MIN_BASE_FEE;
+
+        if (included > 0) {
+            this.logger.debug(`Mined block ${this.blockNumber} with ${included} transaction(s)`);
+        }
+    }
+}
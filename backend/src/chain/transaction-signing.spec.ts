@@ -0,0 +1,109 @@
+import { bytesToHex } from '@noble/hashes/utils';
+import { decodeTransaction, signingHash, signTransaction, transactionHash, UnsignedTransaction } from './transaction-signing';
+
+const hexToBytes = (hex: string) => Uint8Array.from(Buffer.from(hex.replace(/^0x/, ''), 'hex'));
+
+// The worked example from EIP-155
+const EIP155_KEY = hexToBytes('0x4646464646464646464646464646464646464646464646464646464646464646');
+const EIP155_TX: UnsignedTransaction = {
+    chainId: 1,
+    nonce: 9,
+    gasPrice: 20_000_000_000n,
+    gasLimit: 21_000n,
+    to: '0x3535353535353535353535353535353535353535',
+    value: 1_000_000_000_000_000_000n,
+};
+const EIP155_SIGNING_HASH = '0xdaf5a779ae972f972197303d7b574746c7ef83eadac0f2791ad23db92e4c8e53';
+const EIP155_RAW =
+    '0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a7640000' +
+    '8025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761a' +
+    'ecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83';
+
+// First account of the well-known anvil / hardhat test mnemonic
+const DEV_KEY = hexToBytes('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+const DEV_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const EIP1559_TX: UnsignedTransaction = {
+    chainId: 31337,
+    nonce: 0,
+    maxFeePerGas: 2_000_000_000n,
+    maxPriorityFeePerGas: 1_000_000_000n,
+    gasLimit: 21_000n,
+    to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    value: 1_000_000_000_000_000_000n,
+};
+// Signed independently with ethers 6 and viem, which agree byte for byte
+const EIP1559_SIGNING_HASH = '0xb74b50b3bba4accb52a758871e49bc78918a27c080727efb8b3c8306e46a3edd';
+const EIP1559_RAW =
+    '0x02f874827a6980843b9aca0084773594008252089470997970c51812dc3a010c7d01b50e0d17dc79c8880de0b6b3a764000080c0' +
+    '80a074128fd7d42631897474d93692787a2e56b813754468caaca4993c641c986a37a06d5a3b027177cc2841199b70400fece0a2' +
+    '9ac5eabee2fa9cbf9b6aa213716c48';
+const EIP1559_HASH = '0x7d4c13ed95c0cee830d7457ec5a5976db1fc301cfa7a23fef0039a7ccf6aea87';
+
+describe('signTransaction', () => {
+    it('computes the EIP-155 signing hash', () => {
+        expect(`0x${bytesToHex(signingHash(EIP155_TX))}`).toBe(EIP155_SIGNING_HASH);
+    });
+
+    it('produces the EIP-155 signed transaction', () => {
+        const signed = signTransaction(EIP155_TX, EIP155_KEY);
+        expect(signed.raw).toBe(EIP155_RAW);
+        expect(signed.hash).toBe(transactionHash(EIP155_RAW));
+    });
+
+    it('computes the EIP-1559 signing hash', () => {
+        expect(`0x${bytesToHex(signingHash(EIP1559_TX))}`).toBe(EIP1559_SIGNING_HASH);
+    });
+
+    it('produces the EIP-1559 signed transaction', () => {
+        const signed = signTransaction(EIP1559_TX, DEV_KEY);
+        expect(signed.raw).toBe(EIP1559_RAW);
+        expect(signed.hash).toBe(EIP1559_HASH);
+    });
+
+    it('is deterministic', () => {
+        expect(signTransaction(EIP1559_TX, DEV_KEY)).toEqual(signTransaction(EIP1559_TX, DEV_KEY));
+    });
+
+    it('changes the hash when any field changes', () => {
+        const original = signTransaction(EIP1559_TX, DEV_KEY);
+        const bumped = signTransaction({ ...EIP1559_TX, maxFeePerGas: 2_200_000_000n }, DEV_KEY);
+        const otherChain = signTransaction({ ...EIP1559_TX, chainId: 1 }, DEV_KEY);
+        expect(bumped.hash).not.toBe(original.hash);
+        expect(otherChain.hash).not.toBe(original.hash);
+    });
+});
+
+describe('transactionHash', () => {
+    it('is the keccak256 of the raw bytes', () => {
+        expect(transactionHash('0x')).toBe('0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    });
+});
+
+describe('decodeTransaction', () => {
+    it('decodes the EIP-155 example and recovers its sender', () => {
+        const decoded = decodeTransaction(EIP155_RAW);
+        expect(decoded).toMatchObject({ ...EIP155_TX, data: '0x', raw: EIP155_RAW });
+        expect(decoded.from).toBe('0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F');
+    });
+
+    it('decodes the EIP-1559 vector and recovers its sender', () => {
+        expect(decodeTransaction(EIP1559_RAW)).toEqual({
+            ...EIP1559_TX,
+            data: '0x',
+            from: DEV_ADDRESS,
+            raw: EIP1559_RAW,
+            hash: EIP1559_HASH,
+        });
+    });
+
+    it('rejects transactions without replay protection', () => {
+        // The EIP-155 example re-signed with a bare v of 27
+        const unprotected = EIP155_RAW.replace('8025a0', '801ba0');
+        expect(() => decodeTransaction(unprotected)).toThrow('replay-protected');
+    });
+
+    it('rejects unknown transaction types', () => {
+        expect(() => decodeTransaction('0x01c0')).toThrow('Unsupported transaction type');
+    });
+});
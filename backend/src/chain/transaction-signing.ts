@@ -0,0 +1,190 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex } from '@noble/hashes/utils';
+import { publicKeyToAddress, toChecksumAddress } from './address';
+import { FeeFields, isEip1559 } from './fee-bid';
+import { bigintToBytes, bytesToBigint, rlpDecode, rlpEncode, RlpItem } from './rlp';
+
+// EIP-2718 type byte of EIP-1559 transactions; legacy transactions have none
+const EIP1559_TYPE = 0x02;
+
+export type UnsignedTransaction = FeeFields & {
+    chainId: number;
+    nonce: number;
+    to: string;
+    // Integer wei
+    value: bigint;
+    gasLimit: bigint;
+    // Hex calldata; empty for plain transfers
+    data?: string;
+};
+
+export type SignedTransaction = {
+    // 0x-prefixed serialized transaction, ready for eth_sendRawTransaction
+    raw: string;
+    hash: string;
+};
+
+export type DecodedTransaction = UnsignedTransaction & SignedTransaction & {
+    // Recovered from the signature
+    from: string;
+};
+
+function hexToBytes(hex: string): Uint8Array {
+    const digits = hex.replace(/^0x/, '');
+    if (digits.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(digits)) {
+        throw new Error(`Invalid hex string: ${hex}`);
+    }
+    return Uint8Array.from(Buffer.from(digits, 'hex'));
+}
+
+function toHex(bytes: Uint8Array): string {
+    return `0x${bytesToHex(bytes)}`;
+}
+
+function withType(type: number, payload: Uint8Array): Uint8Array {
+    const typed = new Uint8Array(payload.length + 1);
+    typed[0] = type;
+    typed.set(payload, 1);
+    return typed;
+}
+
+// Field order shared by the signing payload and the signed transaction
+function payloadFields(tx: UnsignedTransaction): RlpItem[] {
+    const common = [
+        bigintToBytes(tx.gasLimit),
+        hexToBytes(tx.to),
+        bigintToBytes(tx.value),
+        hexToBytes(tx.data ?? '0x'),
+    ];
+    if (isEip1559(tx)) {
+        return [
+            bigintToBytes(tx.chainId),
+            bigintToBytes(tx.nonce),
+            bigintToBytes(tx.maxPriorityFeePerGas ?? 0n),
+            bigintToBytes(tx.maxFeePerGas),
+            ...common,
+            // Access list, always empty
+            [],
+        ];
+    }
+    return [bigintToBytes(tx.nonce), bigintToBytes(tx.gasPrice ?? 0n), ...common];
+}
+
+/**
+ * Digest the sender signs. Legacy transactions commit to the chain ID the
+ * EIP-155 way, by appending [chainId, 0, 0] to the fields.
+ */
+export function signingHash(tx: UnsignedTransaction): Uint8Array {
+    const fields = payloadFields(tx);
+    if (isEip1559(tx)) {
+        return keccak_256(withType(EIP1559_TYPE, rlpEncode(fields)));
+    }
+    return keccak_256(rlpEncode([...fields, bigintToBytes(tx.chainId), new Uint8Array(0), new Uint8Array(0)]));
+}
+
+// A transaction's hash is the keccak256 of its signed serialization
+export function transactionHash(raw: string): string {
+    return toHex(keccak_256(hexToBytes(raw)));
+}
+
+export function signTransaction(tx: UnsignedTransaction, privateKey: Uint8Array): SignedTransaction {
+    const signature = secp256k1.sign(signingHash(tx), privateKey);
+    const r = bigintToBytes(signature.r);
+    const s = bigintToBytes(signature.s);
+
+    let serialized: Uint8Array;
+    if (isEip1559(tx)) {
+        serialized = withType(EIP1559_TYPE, rlpEncode([...payloadFields(tx), bigintToBytes(signature.recovery), r, s]));
+    } else {
+        const v = BigInt(tx.chainId) * 2n + 35n + BigInt(signature.recovery);
+        serialized = rlpEncode([...payloadFields(tx), bigintToBytes(v), r, s]);
+    }
+
+    const raw = toHex(serialized);
+    return { raw, hash: transactionHash(raw) };
+}
+
+function expectBytes(item: RlpItem): Uint8Array {
+    if (Array.isArray(item)) {
+        throw new Error('Expected a byte string transaction field');
+    }
+    return item;
+}
+
+function expectFields(item: RlpItem, count: number): RlpItem[] {
+    if (!Array.isArray(item) || item.length !== count) {
+        throw new Error(`Expected a list of ${count} transaction fields`);
+    }
+    return item;
+}
+
+function recoverSender(digest: Uint8Array, r: Uint8Array, s: Uint8Array, recovery: number): string {
+    const signature = new secp256k1.Signature(bytesToBigint(r), bytesToBigint(s)).addRecoveryBit(recovery);
+    return publicKeyToAddress(signature.recoverPublicKey(digest).toRawBytes(false));
+}
+
+function decodeAddress(bytes: Uint8Array): string {
+    if (bytes.length !== 20) {
+        throw new Error('Contract creation is not supported');
+    }
+    return toChecksumAddress(bytesToHex(bytes));
+}
+
+/**
+ * Parses a signed legacy (EIP-155) or EIP-1559 transaction and recovers its
+ * sender. Throws on anything malformed or unsigned.
+ */
+export function decodeTransaction(raw: string): DecodedTransaction {
+    const bytes = hexToBytes(raw);
+    if (bytes.length === 0) {
+        throw new Error('Empty transaction');
+    }
+    const hash = transactionHash(raw);
+
+    if (bytes[0] === EIP1559_TYPE) {
+        const fields = expectFields(rlpDecode(bytes.subarray(1)), 12);
+        const [chainId, nonce, tip, feeCap, gasLimit, to, value, data] = fields.slice(0, 8).map(expectBytes);
+        const [yParity, r, s] = fields.slice(9).map(expectBytes);
+        const digest = keccak_256(withType(EIP1559_TYPE, rlpEncode(fields.slice(0, 9))));
+        return {
+            chainId: Number(bytesToBigint(chainId)),
+            nonce: Number(bytesToBigint(nonce)),
+            maxPriorityFeePerGas: bytesToBigint(tip),
+            maxFeePerGas: bytesToBigint(feeCap),
+            gasLimit: bytesToBigint(gasLimit),
+            to: decodeAddress(to),
+            value: bytesToBigint(value),
+            data: toHex(data),
+            from: recoverSender(digest, r, s, Number(bytesToBigint(yParity))),
+            raw,
+            hash,
+        };
+    }
+
+    if (bytes[0] < 0xc0) {
+        throw new Error(`Unsupported transaction type ${bytes[0]}`);
+    }
+
+    const fields = expectFields(rlpDecode(bytes), 9);
+    const [nonce, gasPrice, gasLimit, to, value, data, v, r, s] = fields.map(expectBytes);
+    const vNumber = bytesToBigint(v);
+    if (vNumber < 35n) {
+        // Pre-EIP-155 signatures can be replayed on any chain
+        throw new Error('Transaction is not replay-protected');
+    }
+    const chainId = (vNumber - 35n) / 2n;
+    const unsigned = [...fields.slice(0, 6), bigintToBytes(chainId), new Uint8Array(0), new Uint8Array(0)];
+    return {
+        chainId: Number(chainId),
+        nonce: Number(bytesToBigint(nonce)),
+        gasPrice: bytesToBigint(gasPrice),
+        gasLimit: bytesToBigint(gasLimit),
+        to: decodeAddress(to),
+        value: bytesToBigint(value),
+        data: toHex(data),
+        from: recoverSender(keccak_256(rlpEncode(unsigned)), r, s, Number((vNumber - 35n) % 2n)),
+        raw,
+        hash,
+    };
+}
@@ -0,0 +1,28 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdminTokenGuard } from './admin-token.guard';
+
+const context = (token?: string) =>
+    ({
+        switchToHttp: () => ({
+            getRequest: () => ({ header: (name: string) => (name === 'x-admin-token' ? token : undefined) }),
+        }),
+    }) as unknown as ExecutionContext;
+
+const guard = (adminToken?: string) => new AdminTokenGuard(new ConfigService({ ADMIN_TOKEN: adminToken }));
+
+describe('AdminTokenGuard', () => {
+    it('admits the configured token', () => {
+        expect(guard('s3cret').canActivate(context('s3cret'))).toBe(true);
+    });
+
+    it('rejects a missing or wrong token with a 401', () => {
+        expect(() => guard('s3cret').canActivate(context())).toThrow(UnauthorizedException);
+        expect(() => guard('s3cret').canActivate(context('s3cre'))).toThrow(UnauthorizedException);
+    });
+
+    it('disables the route while no token is configured', () => {
+        expect(() => guard().canActivate(context('anything'))).toThrow(ForbiddenException);
+        expect(() => guard('  ').canActivate(context('  '))).toThrow(ForbiddenException);
+    });
+});
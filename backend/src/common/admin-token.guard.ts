@@ -0,0 +1,33 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+
+export const ADMIN_TOKEN_HEADER = 'x-admin-token';
+
+/**
+ * Admits requests carrying ADMIN_TOKEN in the X-Admin-Token header. Routes
+ * behind it are disabled while ADMIN_TOKEN is unset.
+ */
+@Injectable()
+export class AdminTokenGuard implements CanActivate {
+    constructor(private readonly configService: ConfigService) { }
+
+    canActivate(context: ExecutionContext): boolean {
+        const expected = this.configService.get<string>('ADMIN_TOKEN')?.trim();
+        if (!expected) {
+            throw new ForbiddenException('This endpoint is disabled; set ADMIN_TOKEN to enable it');
+        }
+        const given = context.switchToHttp().getRequest<Request>().header(ADMIN_TOKEN_HEADER);
+        if (!given || !sameToken(given, expected)) {
+            throw new UnauthorizedException(`A valid ${ADMIN_TOKEN_HEADER} header is required`);
+        }
+        return true;
+    }
+}
+
+// Compares digests so neither the length nor the content leaks through timing
+function sameToken(given: string, expected: string): boolean {
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(given), digest(expected));
+}
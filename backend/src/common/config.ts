@@ -0,0 +1,7 @@
+import { ConfigService } from '@nestjs/config';
+
+// Reads a numeric setting, falling back when it is missing or not a number
+export function readNumber(configService: ConfigService, key: string, fallback: number): number {
+    const value = Number(configService.get(key, fallback));
+    return Number.isFinite(value) ? value : fallback;
+}
@@ -0,0 +1,65 @@
+import { Types } from 'mongoose';
+
+export const ETH_DECIMALS = 18;
+
+// Non-negative decimal with at most 18 fractional digits, e.g. "1.5" or "0.000000000000000001"
+export const ETH_AMOUNT_PATTERN = /^\d+(\.\d{1,18})?$/;
+
+// Decimal128 holds 34 significant digits, so larger base-unit amounts cannot be stored exactly
+export const MAX_BASE_UNITS = 10n ** 34n - 1n;
+
+/**
+ * Converts a decimal string in whole units (e.g. ETH) to an integer in base
+ * units (e.g. wei) without going through floating point.
+ */
+export function parseUnits(value: string, decimals = ETH_DECIMALS): bigint {
+    const match = /^(\d+)(?:\.(\d+))?$/.exec(value.trim());
+    if (!match) {
+        throw new Error(`Invalid decimal amount: ${value}`);
+    }
+
+    const [, whole, fraction = ''] = match;
+    if (fraction.length > decimals) {
+        throw new Error(`Amount ${value} has more than ${decimals} decimal places`);
+    }
+
+    return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+/**
+ * Converts an integer in base units back to an exact decimal string, trimming
+ * trailing zeros ("1500000000000000000" -> "1.5").
+ */
+export function formatUnits(value: bigint | string, decimals = ETH_DECIMALS): string {
+    const amount = BigInt(value);
+    const negative = amount < 0n;
+    const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, '0');
+    const whole = digits.slice(0, digits.length - decimals);
+    const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+export function toDecimal128(value: bigint): Types.Decimal128 {
+    return Types.Decimal128.fromString(value.toString());
+}
+
+/**
+ * Reads an integer (wei) back out of a Decimal128. Aggregation results may use
+ * exponent notation ("3.0E+18"), so the string is normalised rather than
+ * passed straight to BigInt; any fractional part is truncated.
+ */
+export function fromDecimal128(value: Types.Decimal128 | null | undefined): bigint {
+    if (value == null) return 0n;
+
+    const text = value.toString();
+    const match = /^(-?)(\d+)(?:\.(\d+))?(?:E([+-]?\d+))?$/i.exec(text);
+    if (!match) {
+        throw new Error(`Cannot convert ${text} to an integer`);
+    }
+
+    const [, sign, whole, fraction = '', exponent = '0'] = match;
+    const digits = whole + fraction;
+    const scale = Number(exponent) - fraction.length;
+    const integer = scale >= 0 ? digits + '0'.repeat(scale) : digits.slice(0, digits.length + scale) || '0';
+    return BigInt(sign + integer);
+}
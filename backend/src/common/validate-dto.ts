@@ -0,0 +1,37 @@
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+
+// `value` is only set when `errors` is empty
+export type DtoValidationResult<T> = {
+    value?: T;
+    errors: string[];
+};
+
+function collectMessages(errors: ValidationError[], prefix = ''): string[] {
+    return errors.flatMap((error) => {
+        const path = prefix ? `${prefix}.${error.property}` : error.property;
+        const own = Object.values(error.constraints ?? {});
+        return own.length > 0 ? own : collectMessages(error.children ?? [], path);
+    });
+}
+
+/**
+ * Validates a plain object against a DTO class with the same rules as the
+ * global ValidationPipe, for payloads that must be checked item by item
+ * instead of rejected as a whole.
+ */
+export async function validateDto<T extends object>(
+    cls: ClassConstructor<T>,
+    plain: unknown,
+): Promise<DtoValidationResult<T>> {
+    if (!plain || typeof plain !== 'object' || Array.isArray(plain)) {
+        return { errors: ['must be an object'] };
+    }
+
+    const value = plainToInstance(cls, plain);
+    const errors = await validate(value, { whitelist: true, forbidNonWhitelisted: true });
+    if (errors.length > 0) {
+        return { errors: collectMessages(errors) };
+    }
+    return { value, errors: [] };
+}
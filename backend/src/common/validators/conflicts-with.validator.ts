@@ -0,0 +1,27 @@
+import { registerDecorator, ValidationArguments, ValidationOptions } from 'class-validator';
+
+/**
+ * Rejects the property when any of `properties` is also set, for fields that
+ * describe the same thing in incompatible ways.
+ */
+export function ConflictsWith(properties: string[], validationOptions?: ValidationOptions) {
+    return function (object: object, propertyName: string) {
+        registerDecorator({
+            name: 'conflictsWith',
+            target: object.constructor,
+            propertyName,
+            constraints: properties,
+            options: validationOptions,
+            validator: {
+                validate(value: unknown, args: ValidationArguments) {
+                    if (value === undefined) return true;
+                    const dto = args.object as Record<string, unknown>;
+                    return args.constraints.every((other: string) => dto[other] === undefined);
+                },
+                defaultMessage(args: ValidationArguments) {
+                    return `${args.property} cannot be combined with ${args.constraints.join(' or ')}`;
+                },
+            },
+        });
+    };
+}
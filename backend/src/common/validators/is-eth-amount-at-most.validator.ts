@@ -0,0 +1,29 @@
+import { registerDecorator, ValidationArguments, ValidationOptions } from 'class-validator';
+import { ETH_AMOUNT_PATTERN, parseUnits } from '../units';
+
+/**
+ * Checks that an ETH amount does not exceed the ETH amount in `property`.
+ * Passes when either side is missing or malformed; other validators report that.
+ */
+export function IsEthAmountAtMost(property: string, validationOptions?: ValidationOptions) {
+    return function (object: object, propertyName: string) {
+        registerDecorator({
+            name: 'isEthAmountAtMost',
+            target: object.constructor,
+            propertyName,
+            constraints: [property],
+            options: validationOptions,
+            validator: {
+                validate(value: unknown, args: ValidationArguments) {
+                    const limit = (args.object as Record<string, unknown>)[args.constraints[0]];
+                    if (typeof value !== 'string' || typeof limit !== 'string') return true;
+                    if (!ETH_AMOUNT_PATTERN.test(value) || !ETH_AMOUNT_PATTERN.test(limit)) return true;
+                    return parseUnits(value) <= parseUnits(limit);
+                },
+                defaultMessage(args: ValidationArguments) {
+                    return `${args.property} must not exceed ${args.constraints[0]}`;
+                },
+            },
+        });
+    };
+}
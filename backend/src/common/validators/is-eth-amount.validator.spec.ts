@@ -0,0 +1,33 @@
+import { validate } from 'class-validator';
+import { IsEthAmount } from './is-eth-amount.validator';
+
+class Amounts {
+    @IsEthAmount()
+    amount: string;
+}
+
+const errorsFor = async (amount: string) => {
+    const body = Object.assign(new Amounts(), { amount });
+    return (await validate(body)).map((error) => Object.values(error.constraints ?? {})).flat();
+};
+
+describe('IsEthAmount', () => {
+    it('accepts amounts that convert exactly to wei', async () => {
+        expect(await errorsFor('1.5')).toEqual([]);
+        expect(await errorsFor('0.000000000000000001')).toEqual([]);
+        expect(await errorsFor('9999999999999999.999999999999999999')).toEqual([]);
+    });
+
+    it('rejects amounts with more digits than Decimal128 stores', async () => {
+        expect(await errorsFor('10000000000000000')).toEqual([
+            'amount must be a positive decimal number below 10^16 with at most 18 decimal places',
+        ]);
+        expect(await errorsFor('123456789012345678901.123456789012345678')).toHaveLength(1);
+    });
+
+    it('rejects zero, extra decimal places and other strings', async () => {
+        expect(await errorsFor('0')).toHaveLength(1);
+        expect(await errorsFor('0.0000000000000000001')).toHaveLength(1);
+        expect(await errorsFor('1e18')).toHaveLength(1);
+    });
+});
@@ -0,0 +1,40 @@
+import { registerDecorator, ValidationArguments, ValidationOptions } from 'class-validator';
+import { ETH_AMOUNT_PATTERN, MAX_BASE_UNITS, parseUnits } from '../units';
+
+type EthAmountOptions = {
+    // Either fixed, or decided per object, e.g. by another of its fields
+    allowZero?: boolean | ((object: object) => boolean);
+};
+
+function allowsZero(options: EthAmountOptions, object: object): boolean {
+    return typeof options.allowZero === 'function' ? options.allowZero(object) : !!options.allowZero;
+}
+
+/**
+ * Checks that a value is a decimal ETH string that converts exactly to wei:
+ * digits only, at most 18 decimal places, few enough digits for Decimal128,
+ * and positive unless `allowZero`.
+ */
+export function IsEthAmount(options: EthAmountOptions = {}, validationOptions?: ValidationOptions) {
+    return function (object: object, propertyName: string) {
+        registerDecorator({
+            name: 'isEthAmount',
+            target: object.constructor,
+            propertyName,
+            options: validationOptions,
+            validator: {
+                validate(value: unknown, args: ValidationArguments) {
+                    if (typeof value !== 'string' || !ETH_AMOUNT_PATTERN.test(value)) {
+                        return false;
+                    }
+                    const wei = parseUnits(value);
+                    return wei <= MAX_BASE_UNITS && (allowsZero(options, args.object) || wei > 0n);
+                },
+                defaultMessage(args: ValidationArguments) {
+                    const kind = allowsZero(options, args.object) ? 'non-negative' : 'positive';
+                    return `${args.property} must be a ${kind} decimal number below 10^16 with at most 18 decimal places`;
+                },
+            },
+        });
+    };
+}
@@ -0,0 +1,8 @@
+import { CorsOptions } from '@nestjs/common/interfaces/external/cors-options.interface';
+
+// Shared by the HTTP server and the WebSocket gateway
+export const corsOptions: CorsOptions = {
+    origin: ['http://localhost:3001', 'http://localhost:3000'],
+    credentials: true,
+    exposedHeaders: ['Idempotent-Replayed'],
+};
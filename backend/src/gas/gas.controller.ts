@@ -0,0 +1,13 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { GasService } from './gas.service';
+import { ChainIdQueryDto } from '../networks/dto/chain-id-query.dto';
+
+@Controller('gas')
+export class GasController {
+    constructor(private readonly gasService: GasService) { }
+
+    @Get('estimate')
+    async estimate(@Query() query: ChainIdQueryDto) {
+        return this.gasService.estimate(query.chainId);
+    }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { GasController } from './gas.controller';
+import { GasService } from './gas.service';
+import { NetworksModule } from '../networks/networks.module';
+import { Transaction, TransactionSchema } from '../transactions/schemas/transaction.schema';
+
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            { name: Transaction.name, schema: TransactionSchema },
+        ]),
+        NetworksModule,
+    ],
+    controllers: [GasController],
+    providers: [GasService],
+})
+export class GasModule { }
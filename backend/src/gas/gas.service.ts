@@ -0,0 +1,103 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Transaction, TransactionDocument, TransactionStatus } from '../transactions/schemas/transaction.schema';
+import { NetworksService } from '../networks/networks.service';
+import { fromDecimal128 } from '../common/units';
+
+export const GAS_TIERS = ['slow', 'standard', 'fast'] as const;
+export type GasTier = (typeof GAS_TIERS)[number];
+
+// Share of the network's suggested tip offered by each tier
+const TIER_TIP_PERCENT: Record<GasTier, bigint> = {
+    slow: 80n,
+    standard: 100n,
+    fast: 150n,
+};
+
+// Recent confirmations used to estimate how long each tier waits
+const SAMPLE_SIZE = 200;
+
+type ConfirmationSample = {
+    price: bigint;
+    seconds: number;
+};
+
+function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+@Injectable()
+export class GasService {
+    constructor(
+        @InjectModel(Transaction.name)
+        private transactionModel: Model<TransactionDocument>,
+        private readonly networks: NetworksService,
+    ) { }
+
+    /**
+     * Suggests legacy and EIP-1559 fees per tier from a network's current
+     * base fee and tip. The fee cap allows for the base fee doubling before the
+     * transaction is mined. Times are the median submit-to-confirm wait of
+     * recent transactions on that network that paid at least the tier's price.
+     */
+    async estimate(chainId?: number) {
+        const network = await this.networks.resolve(chainId);
+        const chain = await this.networks.provider(network.chainId);
+        const [feeData, samples] = await Promise.all([
+            chain.getFeeData(),
+            this.recentConfirmations(network.chainId),
+        ]);
+        const { baseFeePerGas } = feeData;
+
+        const tiers = GAS_TIERS.map((tier) => {
+            const percent = TIER_TIP_PERCENT[tier];
+            const tip = (feeData.maxPriorityFeePerGas * percent) / 100n;
+            // Without a base fee only legacy pricing applies, scaled like the tip
+            const gasPrice = baseFeePerGas !== null ? baseFeePerGas + tip : (feeData.gasPrice * percent) / 100n;
+            const paying = samples.filter((sample) => sample.price >= gasPrice);
+
+            return {
+                tier,
+                gasPrice: gasPrice.toString(),
+                maxFeePerGas: baseFeePerGas !== null ? (2n * baseFeePerGas + tip).toString() : null,
+                maxPriorityFeePerGas: baseFeePerGas !== null ? tip.toString() : null,
+                estimatedSeconds: median((paying.length > 0 ? paying : samples).map((sample) => sample.seconds)),
+            };
+        });
+
+        return {
+            success: true,
+            data: {
+                chainId: network.chainId,
+                baseFeePerGas: baseFeePerGas?.toString() ?? null,
+                sampleSize: samples.length,
+                tiers,
+            },
+        };
+    }
+
+    private async recentConfirmations(chainId: number): Promise<ConfirmationSample[]> {
+        const confirmed = await this.transactionModel
+            .find({ chainId, status: TransactionStatus.CONFIRMED, effectiveGasPrice: { $exists: true } })
+            .sort({ updatedAt: -1 })
+            .limit(SAMPLE_SIZE)
+            .select({ effectiveGasPrice: 1, statusHistory: 1 })
+            .exec();
+
+        const samples: ConfirmationSample[] = [];
+        for (const tx of confirmed) {
+            const submittedAt = tx.statusHistory.find((change) => change.status === TransactionStatus.SUBMITTED)?.timestamp;
+            const confirmedAt = tx.statusHistory.find((change) => change.status === TransactionStatus.CONFIRMED)?.timestamp;
+            if (!submittedAt || !confirmedAt) continue;
+            samples.push({
+                price: fromDecimal128(tx.effectiveGasPrice),
+                seconds: Math.max(0, Math.round((confirmedAt.getTime() - submittedAt.getTime()) / 1000)),
+            });
+        }
+        return samples;
+    }
+}
@@ -0,0 +1,102 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Model } from 'mongoose';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyKeyDocument, IdempotencyState } from './schemas/idempotency-key.schema';
+
+type StoredKey = { key: string; scope: string; fingerprint: string; state: IdempotencyState; response?: unknown };
+
+// Just enough of the Mongoose model for the service, with the unique index on key and scope
+function fakeModel() {
+    const keys = new Map<string, StoredKey>();
+    const id = ({ key, scope }: { key: string; scope: string }) => `${scope}:${key}`;
+    const model = {
+        keys,
+        create: jest.fn(async (doc: Omit<StoredKey, 'state'>) => {
+            if (keys.has(id(doc))) throw Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+            keys.set(id(doc), { ...doc, state: IdempotencyState.PROCESSING });
+        }),
+        findOne: (filter: { key: string; scope: string }) => ({ exec: async () => keys.get(id(filter)) ?? null }),
+        deleteOne: (filter: { key: string; scope: string }) => ({ exec: async () => keys.delete(id(filter)) }),
+        updateOne: (filter: { key: string; scope: string }, update: { $set: Partial<StoredKey> }) => ({
+            exec: async () => Object.assign(keys.get(id(filter)), update.$set),
+        }),
+    };
+    return model;
+}
+
+describe('IdempotencyService', () => {
+    let model: ReturnType<typeof fakeModel>;
+    let service: IdempotencyService;
+
+    beforeEach(() => {
+        model = fakeModel();
+        service = new IdempotencyService(model as unknown as Model<IdempotencyKeyDocument>);
+    });
+
+    it('runs the handler once and replays its response for the same body', async () => {
+        const handler = jest.fn(async () => ({ id: 'tx1' }));
+
+        const first = await service.execute('key-1', 'POST /transactions', { amount: '1', to: '0xabc' }, handler);
+        // Property order does not matter
+        const second = await service.execute('key-1', 'POST /transactions', { to: '0xabc', amount: '1' }, handler);
+
+        expect(first).toEqual({ response: { id: 'tx1' }, replayed: false });
+        expect(second).toEqual({ response: { id: 'tx1' }, replayed: true });
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps scopes apart', async () => {
+        await service.execute('key-1', 'POST /transactions', {}, async () => 'single');
+        const bulk = await service.execute('key-1', 'POST /transactions/bulk', {}, async () => 'bulk');
+        expect(bulk).toEqual({ response: 'bulk', replayed: false });
+    });
+
+    it('rejects the same key with a different body with a 409', async () => {
+        await service.execute('key-1', 'POST /transactions', { amount: '1' }, async () => 'done');
+        const handler = jest.fn();
+
+        await expect(service.execute('key-1', 'POST /transactions', { amount: '2' }, handler)).rejects.toThrow(
+            'already used with a different request body',
+        );
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('rejects a repeat while the first request is still running with a 409', async () => {
+        let finish: (value: string) => void;
+        const first = service.execute(
+            'key-1',
+            'POST /transactions',
+            {},
+            () => new Promise<string>((resolve) => (finish = resolve)),
+        );
+        await Promise.resolve();
+
+        await expect(service.execute('key-1', 'POST /transactions', {}, async () => 'again')).rejects.toThrow(
+            new ConflictException('A request with this Idempotency-Key is still being processed'),
+        );
+        finish('done');
+        await expect(first).resolves.toEqual({ response: 'done', replayed: false });
+    });
+
+    it('releases the key when the handler fails, so the client can retry', async () => {
+        await expect(
+            service.execute('key-1', 'POST /transactions', {}, async () => {
+                throw new BadRequestException('Insufficient funds');
+            }),
+        ).rejects.toThrow('Insufficient funds');
+        expect(model.keys.size).toBe(0);
+
+        await expect(service.execute('key-1', 'POST /transactions', {}, async () => 'done')).resolves.toEqual({
+            response: 'done',
+            replayed: false,
+        });
+    });
+
+    it('rejects empty and overlong keys with a 400', async () => {
+        await expect(service.execute('', 'POST /transactions', {}, async () => 'done')).rejects.toThrow(BadRequestException);
+        await expect(service.execute('k'.repeat(256), 'POST /transactions', {}, async () => 'done')).rejects.toThrow(
+            BadRequestException,
+        );
+        expect(model.create).not.toHaveBeenCalled();
+    });
+});
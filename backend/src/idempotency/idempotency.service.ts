@@ -0,0 +1,98 @@
+import { BadRequestException, ConflictException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHash } from 'crypto';
+import {
+    IdempotencyKey,
+    IdempotencyKeyDocument,
+    IdempotencyState,
+} from './schemas/idempotency-key.schema';
+
+export type IdempotentResult<T> = {
+    response: T;
+    replayed: boolean;
+};
+
+const MAX_KEY_LENGTH = 255;
+const DUPLICATE_KEY_ERROR = 11000;
+
+// JSON with object keys sorted, so property order does not change the fingerprint
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value)
+            .sort()
+            .filter((key) => value[key] !== undefined)
+            .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+@Injectable()
+export class IdempotencyService {
+    constructor(
+        @InjectModel(IdempotencyKey.name)
+        private idempotencyKeyModel: Model<IdempotencyKeyDocument>,
+    ) { }
+
+    /**
+     * Runs `handler` at most once per key and scope. A repeat with the same
+     * payload gets the stored response back; a repeat with a different payload,
+     * or while the first request is still running, is rejected with 409.
+     */
+    async execute<T>(
+        key: string,
+        scope: string,
+        payload: unknown,
+        handler: () => Promise<T>,
+    ): Promise<IdempotentResult<T>> {
+        if (!key || key.length > MAX_KEY_LENGTH) {
+            throw new BadRequestException(`Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`);
+        }
+
+        const fingerprint = createHash('sha256').update(stableStringify(payload)).digest('hex');
+
+        try {
+            await this.idempotencyKeyModel.create({ key, scope, fingerprint });
+        } catch (error) {
+            if (error?.code !== DUPLICATE_KEY_ERROR) throw error;
+            return { response: await this.replay<T>(key, scope, fingerprint), replayed: true };
+        }
+
+        let response: T;
+        try {
+            response = await handler();
+        } catch (error) {
+            // Nothing was committed, so release the key and let the client retry
+            await this.idempotencyKeyModel.deleteOne({ key, scope }).exec();
+            throw error;
+        }
+
+        await this.idempotencyKeyModel
+            .updateOne({ key, scope }, { $set: { state: IdempotencyState.COMPLETED, response } })
+            .exec();
+
+        return { response, replayed: false };
+    }
+
+    private async replay<T>(key: string, scope: string, fingerprint: string): Promise<T> {
+        const existing = await this.idempotencyKeyModel.findOne({ key, scope }).exec();
+        if (!existing) {
+            // Expired or released between our insert and this read
+            throw new ConflictException('Idempotency-Key is being reused concurrently; retry the request');
+        }
+
+        if (existing.fingerprint !== fingerprint) {
+            throw new ConflictException('Idempotency-Key was already used with a different request body');
+        }
+
+        if (existing.state !== IdempotencyState.COMPLETED) {
+            throw new ConflictException('A request with this Idempotency-Key is still being processed');
+        }
+
+        return existing.response as T;
+    }
+}
@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes } from 'mongoose';
+
+export type IdempotencyKeyDocument = IdempotencyKey & Document & {
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export enum IdempotencyState {
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+}
+
+// Keys are kept for a day; a retry after that is treated as a new request
+export const IDEMPOTENCY_KEY_TTL_SECONDS = 24 * 60 * 60;
+
+@Schema({ timestamps: true, collection: 'idempotency_keys' })
+export class IdempotencyKey {
+  @Prop({ required: true })
+  key: string;
+
+  // The endpoint the key was used on, e.g. `POST /transactions`
+  @Prop({ required: true })
+  scope: string;
+
+  // SHA-256 of the request body, used to reject reuse with a different payload
+  @Prop({ required: true })
+  fingerprint: string;
+
+  @Prop({ type: String, enum: IdempotencyState, default: IdempotencyState.PROCESSING })
+  state: IdempotencyState;
+
+  @Prop({ type: SchemaTypes.Mixed, required: false })
+  response?: unknown;
+}
+
+export const IdempotencyKeySchema = SchemaFactory.createForClass(IdempotencyKey);
+
+IdempotencyKeySchema.index({ scope: 1, key: 1 }, { unique: true });
+IdempotencyKeySchema.index({ createdAt: 1 }, { expireAfterSeconds: IDEMPOTENCY_KEY_TTL_SECONDS });
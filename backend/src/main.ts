@@ -1,15 +1,13 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { AppModule } from './app.module';
+import { corsOptions } from './config/cors.config';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
 
   // Enable CORS for frontend
-  app.enableCors({
-    origin: ['http://localhost:3001', 'http://localhost:3000'],
-    credentials: true,
-  });
+  app.enableCors(corsOptions);
 
   // Global validation pipe
   app.useGlobalPipes(
@@ -0,0 +1,9 @@
+import { Type } from 'class-transformer';
+import { IsInt, Min } from 'class-validator';
+
+export class ChainIdParamDto {
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    chainId: number;
+}
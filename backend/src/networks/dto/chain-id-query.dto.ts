@@ -0,0 +1,11 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+// Picks a network for a read; the default network when left out
+export class ChainIdQueryDto {
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    chainId?: number;
+}
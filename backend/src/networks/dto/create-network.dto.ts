@@ -0,0 +1,34 @@
+import { IsInt, IsNotEmpty, IsOptional, IsString, IsUrl, Matches, MaxLength, Min } from 'class-validator';
+
+export const EXPLORER_TX_URL_PATTERN = /^https?:\/\/\S*\{hash\}\S*$/;
+export const EXPLORER_ADDRESS_URL_PATTERN = /^https?:\/\/\S*\{address\}\S*$/;
+
+export class CreateNetworkDto {
+    @IsInt()
+    @Min(1)
+    chainId: number;
+
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(64)
+    name: string;
+
+    @IsString()
+    @Matches(/^[A-Za-z0-9]{1,11}$/, { message: 'nativeSymbol must be 1 to 11 letters or digits' })
+    nativeSymbol: string;
+
+    // Left out to run the network on the simulated chain
+    @IsOptional()
+    @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+    rpcUrl?: string;
+
+    @IsOptional()
+    @Matches(EXPLORER_TX_URL_PATTERN, { message: 'explorerTxUrl must be an http(s) URL containing {hash}' })
+    explorerTxUrl?: string;
+
+    @IsOptional()
+    @Matches(EXPLORER_ADDRESS_URL_PATTERN, {
+        message: 'explorerAddressUrl must be an http(s) URL containing {address}',
+    })
+    explorerAddressUrl?: string;
+}
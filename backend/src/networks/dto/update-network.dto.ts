@@ -0,0 +1,30 @@
+import { IsNotEmpty, IsOptional, IsString, IsUrl, Matches, MaxLength, ValidateIf } from 'class-validator';
+import { EXPLORER_ADDRESS_URL_PATTERN, EXPLORER_TX_URL_PATTERN } from './create-network.dto';
+
+// Every field is optional; null clears the RPC URL (back to simulated) or an explorer link
+export class UpdateNetworkDto {
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(64)
+    name?: string;
+
+    @IsOptional()
+    @IsString()
+    @Matches(/^[A-Za-z0-9]{1,11}$/, { message: 'nativeSymbol must be 1 to 11 letters or digits' })
+    nativeSymbol?: string;
+
+    @ValidateIf((_dto, value) => value !== null && value !== undefined)
+    @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+    rpcUrl?: string | null;
+
+    @ValidateIf((_dto, value) => value !== null && value !== undefined)
+    @Matches(EXPLORER_TX_URL_PATTERN, { message: 'explorerTxUrl must be an http(s) URL containing {hash}' })
+    explorerTxUrl?: string | null;
+
+    @ValidateIf((_dto, value) => value !== null && value !== undefined)
+    @Matches(EXPLORER_ADDRESS_URL_PATTERN, {
+        message: 'explorerAddressUrl must be an http(s) URL containing {address}',
+    })
+    explorerAddressUrl?: string | null;
+}
@@ -0,0 +1,14 @@
+import { NetworkDocument } from './schemas/network.schema';
+
+export function formatNetwork(network: NetworkDocument, defaultChainId: number) {
+    return {
+        chainId: network.chainId,
+        name: network.name,
+        nativeSymbol: network.nativeSymbol,
+        // RPC URLs often embed API keys, so only whether the network is simulated is exposed
+        simulated: !network.rpcUrl,
+        explorerTxUrl: network.explorerTxUrl ?? null,
+        explorerAddressUrl: network.explorerAddressUrl ?? null,
+        isDefault: network.chainId === defaultChainId,
+    };
+}
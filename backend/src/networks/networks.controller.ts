@@ -0,0 +1,41 @@
+import { Body, Controller, Get, Param, Patch, Post } from '@nestjs/common';
+import { NetworksService } from './networks.service';
+import { CreateNetworkDto } from './dto/create-network.dto';
+import { UpdateNetworkDto } from './dto/update-network.dto';
+import { ChainIdParamDto } from './dto/chain-id-param.dto';
+import { formatNetwork } from './network-response';
+
+@Controller('networks')
+export class NetworksController {
+    constructor(private readonly networksService: NetworksService) { }
+
+    @Get()
+    async findAll() {
+        const [networks, defaultChainId] = await Promise.all([
+            this.networksService.findAll(),
+            this.networksService.defaultChainId(),
+        ]);
+        return {
+            success: true,
+            data: networks.map((network) => formatNetwork(network, defaultChainId)),
+        };
+    }
+
+    @Post()
+    async create(@Body() createNetworkDto: CreateNetworkDto) {
+        const network = await this.networksService.create(createNetworkDto);
+        return {
+            success: true,
+            data: formatNetwork(network, await this.networksService.defaultChainId()),
+        };
+    }
+
+    @Patch(':chainId')
+    async update(@Param() params: ChainIdParamDto, @Body() updateNetworkDto: UpdateNetworkDto) {
+        const network = await this.networksService.update(params.chainId, updateNetworkDto);
+        return {
+            success: true,
+            data: formatNetwork(network, await this.networksService.defaultChainId()),
+        };
+    }
+}
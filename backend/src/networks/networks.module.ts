@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { NetworksController } from './networks.controller';
+import { NetworksService } from './networks.service';
+import { ChainModule } from '../chain/chain.module';
+import { Network, NetworkSchema } from './schemas/network.schema';
+
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            { name: Network.name, schema: NetworkSchema },
+        ]),
+        ChainModule,
+    ],
+    controllers: [NetworksController],
+    providers: [NetworksService],
+    exports: [NetworksService],
+})
+export class NetworksModule { }
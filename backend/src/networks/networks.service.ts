@@ -0,0 +1,143 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Network, NetworkDocument } from './schemas/network.schema';
+import { CreateNetworkDto } from './dto/create-network.dto';
+import { UpdateNetworkDto } from './dto/update-network.dto';
+import { ChainProvider } from '../chain/chain-provider.interface';
+import { ChainConnection, ChainProvidersService } from '../chain/chain-providers.service';
+import { JsonRpcChainProvider } from '../chain/json-rpc-chain.provider';
+import { readNumber } from '../common/config';
+import { assertAllowedRpcUrl } from './rpc-url';
+
+export const CHAIN_PROVIDER_TYPES = ['simulated', 'json-rpc'] as const;
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Registry of the networks transactions can be sent on. The first boot
+ * registers one network from CHAIN_PROVIDER; more are added through the API.
+ */
+@Injectable()
+export class NetworksService implements OnModuleInit {
+    private readonly logger = new Logger(NetworksService.name);
+
+    constructor(
+        @InjectModel(Network.name)
+        private networkModel: Model<NetworkDocument>,
+        private readonly chainProviders: ChainProvidersService,
+        private readonly configService: ConfigService,
+    ) { }
+
+    async onModuleInit() {
+        if ((await this.networkModel.estimatedDocumentCount().exec()) === 0) {
+            await this.registerInitialNetwork();
+        }
+    }
+
+    async findAll(): Promise<NetworkDocument[]> {
+        return this.networkModel.find().sort({ createdAt: 1 }).exec();
+    }
+
+    async findOne(chainId: number): Promise<NetworkDocument> {
+        const network = await this.networkModel.findOne({ chainId }).exec();
+        if (!network) {
+            throw new NotFoundException(`Network ${chainId} not found`);
+        }
+        return network;
+    }
+
+    /**
+     * The network a request targets: the given chain, or the default network
+     * when none is given. An unknown chain is a bad request.
+     */
+    async resolve(chainId?: number): Promise<NetworkDocument> {
+        const id = chainId ?? (await this.defaultChainId());
+        const network = await this.networkModel.findOne({ chainId: id }).exec();
+        if (!network) {
+            throw new BadRequestException(`Network ${id} is not registered`);
+        }
+        return network;
+    }
+
+    // DEFAULT_CHAIN_ID when set, otherwise the first registered network
+    async defaultChainId(): Promise<number> {
+        const configured = readNumber(this.configService, 'DEFAULT_CHAIN_ID', 0);
+        if (configured > 0) {
+            return configured;
+        }
+        const first = await this.networkModel.findOne().sort({ createdAt: 1 }).select({ chainId: 1 }).exec();
+        return first?.chainId;
+    }
+
+    async provider(chainId: number): Promise<ChainProvider> {
+        return this.chainProviders.get(await this.findOne(chainId));
+    }
+
+    async create(dto: CreateNetworkDto): Promise<NetworkDocument> {
+        await this.checkEndpoint({ chainId: dto.chainId, rpcUrl: dto.rpcUrl ?? null });
+        try {
+            return await this.networkModel.create(dto);
+        } catch (error) {
+            if (error.code === DUPLICATE_KEY_ERROR) {
+                throw new BadRequestException(`Network ${dto.chainId} is already registered`);
+            }
+            throw error;
+        }
+    }
+
+    async update(chainId: number, dto: UpdateNetworkDto): Promise<NetworkDocument> {
+        const network = await this.findOne(chainId);
+        if (dto.rpcUrl !== undefined) {
+            await this.checkEndpoint({ chainId, rpcUrl: dto.rpcUrl });
+        }
+        network.set(dto);
+        return network.save();
+    }
+
+    // Signatures commit to the chain ID, so an endpoint serving another chain would reject every transaction
+    private async checkEndpoint(connection: ChainConnection) {
+        if (!connection.rpcUrl) return;
+        // Callers choose the URL, so keep the server from being pointed at internal services
+        await assertAllowedRpcUrl(connection.rpcUrl);
+
+        let reported: number;
+        try {
+            reported = await new JsonRpcChainProvider(connection.rpcUrl).getChainId();
+        } catch (error) {
+            throw new BadRequestException(`Could not reach ${connection.rpcUrl}: ${error.message}`);
+        }
+        if (reported !== connection.chainId) {
+            throw new BadRequestException(`${connection.rpcUrl} serves chain ${reported}, not ${connection.chainId}`);
+        }
+    }
+
+    private async registerInitialNetwork() {
+        const type = this.configService.get<string>('CHAIN_PROVIDER', 'simulated');
+        let network: Partial<Network>;
+        switch (type) {
+            case 'json-rpc': {
+                const rpcUrl = this.configService.get<string>('CHAIN_RPC_URL', 'http://127.0.0.1:8545');
+                const chainId = await new JsonRpcChainProvider(rpcUrl).getChainId();
+                network = { chainId, name: `Local node (${chainId})`, nativeSymbol: 'ETH', rpcUrl };
+                break;
+            }
+            case 'simulated': {
+                const chainId = readNumber(this.configService, 'SIMULATED_CHAIN_ID', 31337);
+                network = { chainId, name: 'Simulated', nativeSymbol: 'ETH', rpcUrl: null };
+                break;
+            }
+            default:
+                throw new Error(`Unknown CHAIN_PROVIDER "${type}"; expected one of ${CHAIN_PROVIDER_TYPES.join(', ')}`);
+        }
+
+        try {
+            await this.networkModel.create(network);
+            this.logger.log(`Registered network ${network.name} (chain ${network.chainId})`);
+        } catch (error) {
+            // Another instance registered it first
+            if (error.code !== DUPLICATE_KEY_ERROR) throw error;
+        }
+    }
+}
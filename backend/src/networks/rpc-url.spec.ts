@@ -0,0 +1,33 @@
+import { BadRequestException } from '@nestjs/common';
+import { assertAllowedRpcUrl } from './rpc-url';
+
+describe('assertAllowedRpcUrl', () => {
+    it('allows local and public nodes', async () => {
+        await expect(assertAllowedRpcUrl('http://127.0.0.1:8545')).resolves.toBeUndefined();
+        await expect(assertAllowedRpcUrl('http://[::1]:8545')).resolves.toBeUndefined();
+        await expect(assertAllowedRpcUrl('https://10.0.0.5/rpc')).resolves.toBeUndefined();
+        await expect(assertAllowedRpcUrl('http://localhost:8545')).resolves.toBeUndefined();
+    });
+
+    it('only speaks http and https', async () => {
+        await expect(assertAllowedRpcUrl('file:///etc/passwd')).rejects.toThrow('must use http or https, not file');
+        await expect(assertAllowedRpcUrl('ftp://127.0.0.1/')).rejects.toThrow(BadRequestException);
+        await expect(assertAllowedRpcUrl('not a url')).rejects.toThrow('is not a URL');
+    });
+
+    it('rejects metadata and link-local addresses however they are written', async () => {
+        for (const url of [
+            'http://169.254.169.254/latest/meta-data/',
+            'http://2852039166/',
+            'http://0xa9.0xfe.0xa9.0xfe/',
+            'http://[::ffff:169.254.169.254]/',
+            'http://[fe80::1]:8545',
+            'http://[fd00:ec2::254]/',
+            'http://100.100.100.200/',
+            'http://0.0.0.0:8545',
+            'http://metadata.google.internal./computeMetadata/v1/',
+        ]) {
+            await expect(assertAllowedRpcUrl(url)).rejects.toThrow(BadRequestException);
+        }
+    });
+});
@@ -0,0 +1,52 @@
+import { BadRequestException } from '@nestjs/common';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// Cloud metadata services answer on these names and addresses with credentials for the host
+const BLOCKED_HOSTNAMES = ['metadata', 'metadata.google.internal', 'metadata.goog'];
+
+const BLOCKED_ADDRESSES = new BlockList();
+BLOCKED_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+BLOCKED_ADDRESSES.addAddress('100.100.100.200', 'ipv4');
+BLOCKED_ADDRESSES.addAddress('::', 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+BLOCKED_ADDRESSES.addAddress('fd00:ec2::254', 'ipv6');
+
+/**
+ * Rejects RPC URLs the server must not be made to call: anything but http(s),
+ * and hosts that are or resolve to link-local, unspecified or cloud metadata
+ * addresses. Loopback and private networks stay allowed for local nodes such
+ * as anvil.
+ */
+export async function assertAllowedRpcUrl(rpcUrl: string): Promise<void> {
+    let url: URL;
+    try {
+        url = new URL(rpcUrl);
+    } catch {
+        throw new BadRequestException(`rpcUrl ${rpcUrl} is not a URL`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new BadRequestException(`rpcUrl must use http or https, not ${url.protocol.slice(0, -1)}`);
+    }
+
+    const host = url.hostname.replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '').toLowerCase();
+    if (BLOCKED_HOSTNAMES.includes(host)) {
+        throw new BadRequestException(`rpcUrl host ${host} is not allowed`);
+    }
+
+    let addresses: { address: string; family: number }[];
+    try {
+        addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+    } catch (error) {
+        throw new BadRequestException(`Could not resolve ${host}: ${error.message}`);
+    }
+    const blocked = addresses.find(({ address, family }) =>
+        BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'),
+    );
+    if (blocked) {
+        throw new BadRequestException(
+            `rpcUrl host ${host} is a link-local or metadata address (${blocked.address}), which is not allowed`,
+        );
+    }
+}
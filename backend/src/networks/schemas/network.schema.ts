@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type NetworkDocument = Network & Document & {
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * A chain transactions can be sent on. Networks are managed through the API,
+ * so they can be added or repointed without a restart.
+ */
+@Schema({ timestamps: true })
+export class Network {
+  // EIP-155 chain ID, which signatures commit to
+  @Prop({ required: true, unique: true })
+  chainId: number;
+
+  @Prop({ required: true })
+  name: string;
+
+  // Symbol of the native currency, e.g. ETH or POL
+  @Prop({ required: true })
+  nativeSymbol: string;
+
+  // JSON-RPC endpoint; null runs the network on an in-process simulated chain
+  @Prop({ type: String, default: null })
+  rpcUrl: string | null;
+
+  // Block explorer links, with {hash} and {address} placeholders
+  @Prop({ type: String, default: null })
+  explorerTxUrl: string | null;
+
+  @Prop({ type: String, default: null })
+  explorerAddressUrl: string | null;
+}
+
+export const NetworkSchema = SchemaFactory.createForClass(Network);
@@ -0,0 +1,21 @@
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { TransactionFilterDto } from '../../transactions/dto/transaction-filter.dto';
+
+export const ADDRESS_RANKINGS = ['volume', 'count'] as const;
+export type AddressRanking = (typeof ADDRESS_RANKINGS)[number];
+
+export class AddressStatsQueryDto extends TransactionFilterDto {
+    // Ranking by volume needs `chainId` and `asset`, since amounts of different assets cannot be compared
+    @IsOptional()
+    @IsIn(ADDRESS_RANKINGS)
+    sortBy?: AddressRanking = 'count';
+
+    // Addresses per list
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(100)
+    limit?: number = 10;
+}
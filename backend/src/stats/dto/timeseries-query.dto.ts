@@ -0,0 +1,10 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { TransactionFilterDto } from '../../transactions/dto/transaction-filter.dto';
+import { STATS_INTERVALS, StatsInterval } from '../time-buckets';
+
+// `from` defaults to a fixed number of buckets before `to`, and `to` to now
+export class TimeseriesQueryDto extends TransactionFilterDto {
+    @IsOptional()
+    @IsIn(STATS_INTERVALS)
+    interval?: StatsInterval = 'day';
+}
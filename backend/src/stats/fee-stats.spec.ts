@@ -0,0 +1,85 @@
+import { GasPriceGroup, medianGasPrice, percentage, summarizeFees } from './fee-stats';
+
+const GWEI = 10n ** 9n;
+
+const group = (gasPrice: bigint | null, count: number, overrides: Partial<GasPriceGroup> = {}): GasPriceGroup => ({
+    gasPrice,
+    count,
+    failedCount: 0,
+    totalFees: 21_000n * (gasPrice ?? 0n) * BigInt(count),
+    failedFees: 0n,
+    nativeVolume: 0n,
+    nativeFees: 0n,
+    ...overrides,
+});
+
+describe('medianGasPrice', () => {
+    it('weights each price by its transactions', () => {
+        expect(medianGasPrice([{ gasPrice: 30n, count: 1 }, { gasPrice: 10n, count: 3 }, { gasPrice: 20n, count: 1 }])).toBe(
+            10n,
+        );
+    });
+
+    it('averages the middle two of an even count', () => {
+        expect(medianGasPrice([{ gasPrice: 10n, count: 2 }, { gasPrice: 21n, count: 2 }])).toBe(15n);
+    });
+
+    it('is null without transactions', () => {
+        expect(medianGasPrice([])).toBeNull();
+        expect(medianGasPrice([{ gasPrice: 10n, count: 0 }])).toBeNull();
+    });
+});
+
+describe('percentage', () => {
+    it('rounds down to four decimal places', () => {
+        expect(percentage(1n, 3n)).toBe('33.3333');
+        expect(percentage(21_000n * 20n * GWEI, 10n ** 18n)).toBe('0.0420');
+        expect(percentage(3n, 2n)).toBe('150.0000');
+    });
+
+    it('is null without volume', () => {
+        expect(percentage(5n, 0n)).toBeNull();
+    });
+});
+
+describe('summarizeFees', () => {
+    it('totals fees and averages gas prices per transaction', () => {
+        const summary = summarizeFees([
+            group(10n * GWEI, 3),
+            group(40n * GWEI, 1, { failedCount: 1, failedFees: 21_000n * 40n * GWEI }),
+        ]);
+        expect(summary).toEqual({
+            minedCount: 4,
+            failedCount: 1,
+            totalFees: (21_000n * 70n * GWEI).toString(),
+            failedFees: (21_000n * 40n * GWEI).toString(),
+            averageGasPrice: (17_500_000_000n).toString(),
+            medianGasPrice: (10n * GWEI).toString(),
+            feePercentOfVolume: null,
+        });
+    });
+
+    it('leaves transactions without a gas price out of the gas price statistics', () => {
+        const summary = summarizeFees([group(null, 5, { totalFees: 0n }), group(8n, 1)]);
+        expect(summary.minedCount).toBe(6);
+        expect(summary.averageGasPrice).toBe('8');
+        expect(summary.medianGasPrice).toBe('8');
+    });
+
+    it('compares native fees with native volume', () => {
+        const summary = summarizeFees([group(GWEI, 1, { nativeVolume: 10n ** 18n, nativeFees: 21_000n * GWEI })]);
+        expect(summary.feePercentOfVolume).toBe('0.0021');
+    });
+
+    it('reports zeros for no transactions', () => {
+        expect(summarizeFees([])).toEqual({
+            minedCount: 0,
+            failedCount: 0,
+            totalFees: '0',
+            failedFees: '0',
+            averageGasPrice: null,
+            medianGasPrice: null,
+            feePercentOfVolume: null,
+        });
+    });
+});
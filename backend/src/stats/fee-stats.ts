@@ -0,0 +1,85 @@
+/**
+ * Mined transactions on one network that paid the same effective gas price.
+ * All amounts are in wei of the network's native currency.
+ */
+export type GasPriceGroup = {
+    // null for receipts recorded without an effective gas price
+    gasPrice: bigint | null;
+    count: number;
+    failedCount: number;
+    totalFees: bigint;
+    failedFees: bigint;
+    // What the native-currency transfers among them moved, and paid to do so
+    nativeVolume: bigint;
+    nativeFees: bigint;
+};
+
+export type FeeSummary = {
+    minedCount: number;
+    failedCount: number;
+    totalFees: string;
+    failedFees: string;
+    averageGasPrice: string | null;
+    medianGasPrice: string | null;
+    feePercentOfVolume: string | null;
+};
+
+const PERCENT_DECIMALS = 4;
+
+/**
+ * Fee totals and gas price statistics over groups of mined transactions on
+ * one network. Gas prices are averaged per transaction, not per unit of gas.
+ * The fee percentage compares native-currency transfers with the fees they
+ * paid, as token amounts are in another unit; it is null without any.
+ */
+export function summarizeFees(groups: GasPriceGroup[]): FeeSummary {
+    const sum = (values: bigint[]) => values.reduce((total, value) => total + value, 0n);
+    const priced = groups.filter((group): group is GasPriceGroup & { gasPrice: bigint } => group.gasPrice !== null);
+    const pricedCount = priced.reduce((total, group) => total + group.count, 0);
+
+    return {
+        minedCount: groups.reduce((total, group) => total + group.count, 0),
+        failedCount: groups.reduce((total, group) => total + group.failedCount, 0),
+        totalFees: sum(groups.map((group) => group.totalFees)).toString(),
+        failedFees: sum(groups.map((group) => group.failedFees)).toString(),
+        averageGasPrice:
+            pricedCount > 0
+                ? (sum(priced.map((group) => group.gasPrice * BigInt(group.count))) / BigInt(pricedCount)).toString()
+                : null,
+        medianGasPrice: medianGasPrice(priced)?.toString() ?? null,
+        feePercentOfVolume: percentage(
+            sum(groups.map((group) => group.nativeFees)),
+            sum(groups.map((group) => group.nativeVolume)),
+        ),
+    };
+}
+
+/**
+ * Median of gas prices given how many transactions paid each. With an even
+ * number of transactions it is the mean of the middle two, in whole wei.
+ */
+export function medianGasPrice(groups: { gasPrice: bigint; count: number }[]): bigint | null {
+    const sorted = groups
+        .filter((group) => group.count > 0)
+        .sort((a, b) => (a.gasPrice < b.gasPrice ? -1 : a.gasPrice > b.gasPrice ? 1 : 0));
+    const total = sorted.reduce((sum, group) => sum + group.count, 0);
+    if (total === 0) return null;
+
+    const at = (index: number) => {
+        let seen = 0;
+        for (const group of sorted) {
+            seen += group.count;
+            if (index < seen) return group.gasPrice;
+        }
+        return sorted[sorted.length - 1].gasPrice;
+    };
+    return (at(Math.floor((total - 1) / 2)) + at(Math.floor(total / 2))) / 2n;
+}
+
+// part as a percentage of whole, rounded down to four decimal places
+export function percentage(part: bigint, whole: bigint): string | null {
+    if (whole <= 0n) return null;
+    const scale = 10n ** BigInt(PERCENT_DECIMALS);
+    const scaled = (part * 100n * scale) / whole;
+    return `${scaled / scale}.${(scaled % scale).toString().padStart(PERCENT_DECIMALS, '0')}`;
+}
@@ -0,0 +1,122 @@
+import { Connection, createConnection, Model } from 'mongoose';
+import { Transaction, TransactionDocument, TransactionSchema, TransactionStatus } from '../transactions/schemas/transaction.schema';
+import { fromDecimal128, toDecimal128 } from '../common/units';
+import { NetworksService } from '../networks/networks.service';
+import { TokensService } from '../tokens/tokens.service';
+import { StatsService } from './stats.service';
+
+/**
+ * Compares getStats with the way it used to work: a count per status, then
+ * every document loaded to sum the amounts in JavaScript. Needs a MongoDB
+ * server, so it only runs when BENCHMARK_MONGODB_URI is set, e.g.
+ *
+ *   BENCHMARK_MONGODB_URI=mongodb://localhost:27017 npx jest stats.benchmark
+ *
+ * The documents go into a separate `stats_benchmark` database, which is
+ * dropped afterwards.
+ */
+const uri = process.env.BENCHMARK_MONGODB_URI;
+const describeWithMongo = uri ? describe : describe.skip;
+
+const DOCUMENT_COUNT = 100_000;
+const BATCH_SIZE = 10_000;
+const RUNS = 3;
+
+const STATUSES = Object.values(TransactionStatus);
+
+async function legacyStats(model: Model<TransactionDocument>) {
+    const countWith = (status: TransactionStatus) => model.countDocuments({ status }).exec();
+    const total = await model.countDocuments().exec();
+    const confirmed = await countWith(TransactionStatus.CONFIRMED);
+    const pending = await countWith(TransactionStatus.PENDING);
+    const failed = await countWith(TransactionStatus.FAILED);
+    const transactions = await model.find().exec();
+    const totalVolume = transactions.reduce((sum, tx) => sum + fromDecimal128(tx.amount), 0n);
+    return { total, confirmed, pending, failed, totalVolume };
+}
+
+// Fastest of a few runs, in milliseconds
+async function fastest(run: () => Promise<unknown>): Promise<number> {
+    let best = Infinity;
+    for (let attempt = 0; attempt < RUNS; attempt++) {
+        const started = process.hrtime.bigint();
+        await run();
+        best = Math.min(best, Number(process.hrtime.bigint() - started) / 1e6);
+    }
+    return best;
+}
+
+describeWithMongo('StatsService.getStats benchmark', () => {
+    let connection: Connection;
+    let model: Model<TransactionDocument>;
+    let service: StatsService;
+    let expectedVolume = 0n;
+
+    beforeAll(async () => {
+        connection = await createConnection(uri, { dbName: 'stats_benchmark' }).asPromise();
+        await connection.dropDatabase();
+        model = connection.model<TransactionDocument>(Transaction.name, TransactionSchema);
+        await model.createIndexes();
+
+        // Native transfers only, so the registries have nothing to label
+        const registry = { findAll: async () => [] };
+        service = new StatsService(
+            model,
+            registry as unknown as NetworksService,
+            registry as unknown as TokensService,
+        );
+
+        const createdAt = Date.now();
+        for (let offset = 0; offset < DOCUMENT_COUNT; offset += BATCH_SIZE) {
+            const batch = Array.from({ length: BATCH_SIZE }, (_, index) => {
+                const n = offset + index;
+                // Amounts past 2^53 wei, which a float sum would round
+                const amount = 10n ** 18n + BigInt(n) * 1_000_000_007n;
+                expectedVolume += amount;
+                return {
+                    chainId: 31337,
+                    fromAddress: `0x${(n % 50).toString(16).padStart(40, '0')}`,
+                    toAddress: `0x${(n % 997).toString(16).padStart(40, '0')}`,
+                    tokenAddress: null,
+                    amount: toDecimal128(amount),
+                    status: STATUSES[n % STATUSES.length],
+                    gasLimit: '21000',
+                    nonce: n,
+                    statusHistory: [],
+                    createdAt: new Date(createdAt - n * 1000),
+                    updatedAt: new Date(createdAt - n * 1000),
+                };
+            });
+            await model.collection.insertMany(batch, { ordered: false });
+        }
+    }, 300_000);
+
+    afterAll(async () => {
+        await connection?.dropDatabase();
+        await connection?.close();
+    });
+
+    it('returns the same totals with exact volume', async () => {
+        const { data } = await service.getStats();
+        const legacy = await legacyStats(model);
+
+        expect(data.totalTransactions).toBe(DOCUMENT_COUNT);
+        expect(data.totalTransactions).toBe(legacy.total);
+        expect(data.confirmedCount).toBe(legacy.confirmed);
+        expect(data.pendingCount).toBe(legacy.pending);
+        expect(data.failedCount).toBe(legacy.failed);
+        expect(data.volumes).toHaveLength(1);
+        expect(BigInt(data.volumes[0].totalVolume)).toBe(expectedVolume);
+        expect(legacy.totalVolume).toBe(expectedVolume);
+    }, 300_000);
+
+    it('is faster than counting and loading every document', async () => {
+        const legacyMs = await fastest(() => legacyStats(model));
+        const aggregatedMs = await fastest(() => service.getStats());
+        console.log(
+            `getStats over ${DOCUMENT_COUNT} documents: ${aggregatedMs.toFixed(0)} ms, ` +
+                `count and load: ${legacyMs.toFixed(0)} ms (${(legacyMs / aggregatedMs).toFixed(1)}x)`,
+        );
+        expect(aggregatedMs).toBeLessThan(legacyMs);
+    }, 300_000);
+});
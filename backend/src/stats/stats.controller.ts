@@ -1,13 +1,36 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, Param, Query } from '@nestjs/common';
 import { StatsService } from './stats.service';
+import { TransactionFilterDto } from '../transactions/dto/transaction-filter.dto';
+import { TimeseriesQueryDto } from './dto/timeseries-query.dto';
+import { AddressStatsQueryDto } from './dto/address-stats-query.dto';
+import { AccountAddressParamDto } from '../accounts/dto/account-address-param.dto';
 
 @Controller('stats')
 export class StatsController {
     constructor(private readonly statsService: StatsService) { }
 
     @Get()
-    async getStats() {
-        return this.statsService.getStats();
+    async getStats(@Query() query: TransactionFilterDto) {
+        return this.statsService.getStats(query);
+    }
+
+    @Get('timeseries')
+    async getTimeseries(@Query() query: TimeseriesQueryDto) {
+        return this.statsService.getTimeseries(query);
+    }
+
+    @Get('fees')
+    async getFees(@Query() query: TimeseriesQueryDto) {
+        return this.statsService.getFees(query);
     }
-}
 
+    @Get('addresses')
+    async getTopAddresses(@Query() query: AddressStatsQueryDto) {
+        return this.statsService.getTopAddresses(query);
+    }
+
+    @Get('addresses/:address')
+    async getAddressStats(@Param() params: AccountAddressParamDto, @Query() query: TransactionFilterDto) {
+        return this.statsService.getAddressStats(params.address, query);
+    }
+}
@@ -3,12 +3,16 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { StatsController } from './stats.controller';
 import { StatsService } from './stats.service';
 import { Transaction, TransactionSchema } from '../transactions/schemas/transaction.schema';
+import { NetworksModule } from '../networks/networks.module';
+import { TokensModule } from '../tokens/tokens.module';
 
 @Module({
     imports: [
         MongooseModule.forFeature([
             { name: Transaction.name, schema: TransactionSchema },
         ]),
+        NetworksModule,
+        TokensModule,
     ],
     controllers: [StatsController],
     providers: [StatsService],
@@ -1,38 +1,456 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { FilterQuery, Model, PipelineStage, Types } from 'mongoose';
 import { Transaction, TransactionDocument, TransactionStatus } from '../transactions/schemas/transaction.schema';
+import { ETH_DECIMALS, fromDecimal128 } from '../common/units';
+import { NetworksService } from '../networks/networks.service';
+import { NetworkDocument } from '../networks/schemas/network.schema';
+import { TokensService } from '../tokens/tokens.service';
+import { TokenDocument } from '../tokens/schemas/token.schema';
+import { TransactionFilterDto } from '../transactions/dto/transaction-filter.dto';
+import { buildTransactionFilter } from '../transactions/transaction-query';
+import { toChecksumAddress } from '../chain/address';
+import { TimeseriesQueryDto } from './dto/timeseries-query.dto';
+import { AddressStatsQueryDto } from './dto/address-stats-query.dto';
+import { bucketStarts, defaultFrom, MAX_BUCKETS, nextBucketStart, StatsInterval } from './time-buckets';
+import { GasPriceGroup, summarizeFees } from './fee-stats';
+
+// Mined transactions pay their fee whether or not they revert
+const MINED_STATUSES = [TransactionStatus.CONFIRMED, TransactionStatus.FAILED];
+
+// What a mined transaction paid, in wei
+const FEE = { $multiply: [{ $toDecimal: '$gasUsed' }, '$effectiveGasPrice'] };
+
+/**
+ * Volume and average amount per asset, i.e. per network and token, since
+ * amounts of different assets cannot be added up. Amounts are in the
+ * asset's base units; `decimals` scales them to whole units. Decimal128
+ * $sum is exact for integer base-unit amounts.
+ */
+const VOLUME_STAGES: PipelineStage.FacetPipelineStage[] = [
+    {
+        $group: {
+            _id: { chainId: '$chainId', tokenAddress: { $ifNull: ['$tokenAddress', null] } },
+            total: { $sum: '$amount' },
+            count: { $sum: 1 },
+        },
+    },
+    { $sort: { '_id.chainId': 1, '_id.tokenAddress': 1 } },
+];
+
+type VolumeGroup = {
+    _id: { chainId: number; tokenAddress: string | null };
+    total: Types.Decimal128;
+    count: number;
+};
+
+type AddressGroup = {
+    // Lowercase, as addresses are stored
+    _id: string;
+    count: number;
+    confirmed: number;
+    failed: number;
+    lastActivity: Date;
+    volume: Types.Decimal128;
+    volumes: { chainId: number; tokenAddress: string | null; total: Types.Decimal128; count: number }[];
+};
+
+const countWhere = (status: TransactionStatus) => ({ $sum: { $cond: [{ $eq: ['$status', status] }, 1, 0] } });
+
+/**
+ * Groups transactions by the address on one side, with a volume per asset.
+ * `volume` adds every asset up, so it only means something once the match
+ * has narrowed the transactions to one asset.
+ */
+function addressStages(side: 'fromAddress' | 'toAddress'): PipelineStage.FacetPipelineStage[] {
+    return [
+        {
+            $group: {
+                _id: {
+                    address: `$${side}`,
+                    chainId: '$chainId',
+                    tokenAddress: { $ifNull: ['$tokenAddress', null] },
+                },
+                count: { $sum: 1 },
+                confirmed: countWhere(TransactionStatus.CONFIRMED),
+                failed: countWhere(TransactionStatus.FAILED),
+                lastActivity: { $max: '$createdAt' },
+                volume: { $sum: '$amount' },
+            },
+        },
+        {
+            $group: {
+                _id: '$_id.address',
+                count: { $sum: '$count' },
+                confirmed: { $sum: '$confirmed' },
+                failed: { $sum: '$failed' },
+                lastActivity: { $max: '$lastActivity' },
+                volume: { $sum: '$volume' },
+                volumes: {
+                    $push: { chainId: '$_id.chainId', tokenAddress: '$_id.tokenAddress', total: '$volume', count: '$count' },
+                },
+            },
+        },
+    ];
+}
+
+type BucketGroup = {
+    _id: { bucket: Date; chainId: number; tokenAddress: string | null };
+    count: number;
+    volume: Types.Decimal128;
+    fees: Types.Decimal128;
+} & Record<TransactionStatus, number>;
+
+type FeeGroup = {
+    // gasPrice is missing for receipts recorded without one
+    _id: { bucket: Date; chainId: number; gasPrice?: Types.Decimal128 | null };
+    count: number;
+    failed: number;
+    fees: Types.Decimal128;
+    failedFees: Types.Decimal128;
+    nativeVolume: Types.Decimal128;
+    nativeFees: Types.Decimal128;
+};
+
+type StatusCounts = Record<`${TransactionStatus}Count`, number>;
+
+type Registry = {
+    networks: NetworkDocument[];
+    tokens: TokenDocument[];
+};
 
 @Injectable()
 export class StatsService {
     constructor(
         @InjectModel(Transaction.name)
         private transactionModel: Model<TransactionDocument>,
+        private readonly networks: NetworksService,
+        private readonly tokens: TokensService,
     ) { }
 
-    async getStats() {
-        const total = await this.transactionModel.countDocuments().exec();
-        const confirmed = await this.transactionModel.countDocuments({ status: TransactionStatus.CONFIRMED }).exec();
-        const pending = await this.transactionModel.countDocuments({ status: TransactionStatus.PENDING }).exec();
-        const failed = await this.transactionModel.countDocuments({ status: TransactionStatus.FAILED }).exec();
+    /**
+     * Totals over the transactions the filter matches, all of them by
+     * default. Counting and summing happen in one aggregation, so the
+     * documents never leave the database.
+     */
+    async getStats(filter: TransactionFilterDto = {}) {
+        const scope = await this.scope(filter);
+        const [{ statuses, volumes }] = await this.transactionModel
+            .aggregate<{ statuses: { _id: TransactionStatus; count: number }[]; volumes: VolumeGroup[] }>([
+                { $match: scope },
+                {
+                    $facet: {
+                        statuses: [{ $group: { _id: '$status', count: { $sum: 1 } } }],
+                        volumes: VOLUME_STAGES,
+                    },
+                },
+            ])
+            .exec();
 
-        const transactions = await this.transactionModel.find().exec();
-        const totalVolume = transactions.reduce((sum, tx) => sum + parseFloat(tx.amount || '0'), 0);
-        const averageAmount = total > 0 ? totalVolume / total : 0;
-        const successRate = total > 0 ? (confirmed / total) * 100 : 0;
+        const countOf = (status: TransactionStatus) => statuses.find((row) => row._id === status)?.count ?? 0;
+        const total = statuses.reduce((sum, row) => sum + row.count, 0);
+        const successRate = total > 0 ? (countOf(TransactionStatus.CONFIRMED) / total) * 100 : 0;
+        const registry = await this.registry();
 
         return {
             success: true,
             data: {
                 totalTransactions: total,
-                totalVolume: totalVolume.toFixed(8),
-                averageAmount: averageAmount.toFixed(8),
+                volumes: volumes.map((group) => this.volume(registry, group._id, fromDecimal128(group.total), group.count)),
                 successRate: successRate.toFixed(2),
-                pendingCount: pending,
-                confirmedCount: confirmed,
-                failedCount: failed,
+                pendingCount: countOf(TransactionStatus.PENDING),
+                submittedCount: countOf(TransactionStatus.SUBMITTED),
+                confirmedCount: countOf(TransactionStatus.CONFIRMED),
+                failedCount: countOf(TransactionStatus.FAILED),
+                droppedCount: countOf(TransactionStatus.DROPPED),
+                replacedCount: countOf(TransactionStatus.REPLACED),
+            },
+        };
+    }
+
+    /**
+     * Transactions created in each hour, day or week (UTC) of a range, with
+     * the same counts and per-asset volumes as `getStats` plus the fees mined
+     * transactions paid, per network in wei. Every bucket in the range gets a
+     * row, also those without transactions. The other filters apply as they
+     * do to `getStats`.
+     */
+    async getTimeseries(query: TimeseriesQueryDto) {
+        const { interval, from, to, starts } = this.range(query);
+
+        const statuses = Object.values(TransactionStatus);
+        // Decimal128 $sum is exact for integer base-unit amounts
+        const groups: BucketGroup[] = await this.transactionModel
+            .aggregate([
+                { $match: { ...(await this.scope(query)), createdAt: { $gte: from, $lte: to } } },
+                {
+                    $group: {
+                        _id: {
+                            bucket: { $dateTrunc: { date: '$createdAt', unit: interval, startOfWeek: 'monday' } },
+                            chainId: '$chainId',
+                            tokenAddress: { $ifNull: ['$tokenAddress', null] },
+                        },
+                        count: { $sum: 1 },
+                        ...Object.fromEntries(statuses.map((status) => [status, countWhere(status)])),
+                        volume: { $sum: '$amount' },
+                        fees: { $sum: { $cond: [{ $in: ['$status', MINED_STATUSES] }, FEE, null] } },
+                    },
+                },
+                { $sort: { '_id.bucket': 1, '_id.chainId': 1, '_id.tokenAddress': 1 } },
+            ])
+            .exec();
+
+        const registry = await this.registry();
+        const buckets = starts.map((start) => {
+            const rows = groups.filter((group) => group._id.bucket.getTime() === start.getTime());
+            const counts = Object.fromEntries(
+                statuses.map((status) => [`${status}Count`, rows.reduce((sum, row) => sum + row[status], 0)]),
+            ) as StatusCounts;
+            const total = rows.reduce((sum, row) => sum + row.count, 0);
+
+            // Fees are paid in each network's native currency, whatever the asset sent
+            const fees = new Map<number, bigint>();
+            for (const row of rows) {
+                fees.set(row._id.chainId, (fees.get(row._id.chainId) ?? 0n) + fromDecimal128(row.fees));
+            }
+
+            return {
+                start: start.toISOString(),
+                end: nextBucketStart(start, interval).toISOString(),
+                totalTransactions: total,
+                ...counts,
+                successRate: (total > 0 ? (counts.confirmedCount / total) * 100 : 0).toFixed(2),
+                volumes: rows.map((row) => this.volume(registry, row._id, fromDecimal128(row.volume), row.count)),
+                fees: [...fees].map(([chainId, totalFees]) => ({
+                    chainId,
+                    symbol: this.asset(registry, chainId, null).symbol,
+                    totalFees: totalFees.toString(),
+                })),
+            };
+        });
+
+        return {
+            success: true,
+            data: {
+                interval,
+                from: from.toISOString(),
+                to: to.toISOString(),
+                buckets,
+            },
+        };
+    }
+
+    /**
+     * What mined transactions paid in fees in each bucket of a range, per
+     * network in wei: total fees, fees spent on failed transactions, average
+     * and median effective gas price, and fees as a percentage of the
+     * native-currency volume. The range, buckets and filters are as for
+     * `getTimeseries`, and `totals` covers the whole range.
+     */
+    async getFees(query: TimeseriesQueryDto) {
+        const { interval, from, to, starts } = this.range(query);
+        const native = (value: unknown) => ({ $cond: [{ $eq: [{ $ifNull: ['$tokenAddress', null] }, null] }, value, null] });
+
+        // One row per distinct gas price, so medians are exact without loading every transaction
+        const groups: FeeGroup[] = await this.transactionModel
+            .aggregate([
+                { $match: { ...(await this.scope(query)), createdAt: { $gte: from, $lte: to } } },
+                { $match: { status: { $in: MINED_STATUSES } } },
+                {
+                    $group: {
+                        _id: {
+                            bucket: { $dateTrunc: { date: '$createdAt', unit: interval, startOfWeek: 'monday' } },
+                            chainId: '$chainId',
+                            gasPrice: '$effectiveGasPrice',
+                        },
+                        count: { $sum: 1 },
+                        failed: countWhere(TransactionStatus.FAILED),
+                        fees: { $sum: FEE },
+                        failedFees: { $sum: { $cond: [{ $eq: ['$status', TransactionStatus.FAILED] }, FEE, null] } },
+                        nativeVolume: { $sum: native('$amount') },
+                        nativeFees: { $sum: native(FEE) },
+                    },
+                },
+            ])
+            .exec();
+
+        const registry = await this.registry();
+        const chainIds = [...new Set(groups.map((group) => group._id.chainId))].sort((a, b) => a - b);
+        const summaries = (rows: FeeGroup[]) =>
+            chainIds.map((chainId) => ({
+                chainId,
+                symbol: this.asset(registry, chainId, null).symbol,
+                ...summarizeFees(rows.filter((row) => row._id.chainId === chainId).map(gasPriceGroup)),
+            }));
+
+        return {
+            success: true,
+            data: {
+                interval,
+                from: from.toISOString(),
+                to: to.toISOString(),
+                totals: summaries(groups),
+                buckets: starts.map((start) => ({
+                    start: start.toISOString(),
+                    end: nextBucketStart(start, interval).toISOString(),
+                    fees: summaries(groups.filter((group) => group._id.bucket.getTime() === start.getTime())),
+                })),
             },
         };
     }
+
+    /**
+     * The addresses that sent and received the most transactions, or the
+     * most volume, among those the filters match. Each comes with its success
+     * rate, last activity and volume per asset.
+     */
+    async getTopAddresses(query: AddressStatsQueryDto) {
+        const sortBy = query.sortBy ?? 'count';
+        if (sortBy === 'volume' && (!query.chainId || !query.asset)) {
+            throw new BadRequestException(
+                'Ranking by volume needs chainId and asset, since amounts of different assets cannot be compared',
+            );
+        }
+        const ranking: PipelineStage.FacetPipelineStage[] = [
+            { $sort: { [sortBy]: -1, lastActivity: -1, _id: 1 } },
+            { $limit: query.limit ?? 10 },
+        ];
+
+        const [{ senders, recipients }] = await this.transactionModel
+            .aggregate<{ senders: AddressGroup[]; recipients: AddressGroup[] }>([
+                { $match: await this.scope(query) },
+                {
+                    $facet: {
+                        senders: [...addressStages('fromAddress'), ...ranking],
+                        recipients: [...addressStages('toAddress'), ...ranking],
+                    },
+                },
+            ])
+            .exec();
+
+        const registry = await this.registry();
+        const ranked = (rows: AddressGroup[]) =>
+            rows.map((row) => ({ address: toChecksumAddress(row._id), ...this.addressSummary(registry, row) }));
+        return {
+            success: true,
+            data: {
+                sortBy,
+                senders: ranked(senders),
+                recipients: ranked(recipients),
+            },
+        };
+    }
+
+    // What one address sent and received among the transactions the filters match
+    async getAddressStats(address: string, filter: TransactionFilterDto) {
+        const exact = address.toLowerCase();
+        const [{ sent, received }] = await this.transactionModel
+            .aggregate<{ sent: AddressGroup[]; received: AddressGroup[] }>([
+                { $match: { $and: [await this.scope(filter), { $or: [{ fromAddress: exact }, { toAddress: exact }] }] } },
+                {
+                    $facet: {
+                        sent: [{ $match: { fromAddress: exact } }, ...addressStages('fromAddress')],
+                        received: [{ $match: { toAddress: exact } }, ...addressStages('toAddress')],
+                    },
+                },
+            ])
+            .exec();
+
+        const registry = await this.registry();
+        return {
+            success: true,
+            data: {
+                address: toChecksumAddress(address),
+                sent: this.addressSummary(registry, sent[0]),
+                received: this.addressSummary(registry, received[0]),
+            },
+        };
+    }
+
+    // An address with no transactions on that side has no row
+    private addressSummary(registry: Registry, row: AddressGroup | undefined) {
+        if (!row) {
+            return { transactionCount: 0, confirmedCount: 0, failedCount: 0, successRate: '0.00', lastActivity: null, volumes: [] };
+        }
+        const volumes = [...row.volumes].sort(
+            (a, b) => a.chainId - b.chainId || (a.tokenAddress ?? '').localeCompare(b.tokenAddress ?? ''),
+        );
+        return {
+            transactionCount: row.count,
+            confirmedCount: row.confirmed,
+            failedCount: row.failed,
+            successRate: ((row.confirmed / row.count) * 100).toFixed(2),
+            lastActivity: row.lastActivity.toISOString(),
+            volumes: volumes.map((volume) => this.volume(registry, volume, fromDecimal128(volume.total), volume.count)),
+        };
+    }
+
+    private volume(
+        registry: Registry,
+        { chainId, tokenAddress }: { chainId: number; tokenAddress: string | null },
+        totalVolume: bigint,
+        count: number,
+    ) {
+        return {
+            chainId,
+            tokenAddress,
+            ...this.asset(registry, chainId, tokenAddress),
+            transactionCount: count,
+            totalVolume: totalVolume.toString(),
+            averageAmount: (totalVolume / BigInt(count)).toString(),
+        };
+    }
+
+    // Assets no longer registered are labelled with their address, or ETH for an unknown network
+    private asset({ networks, tokens }: Registry, chainId: number, tokenAddress: string | null) {
+        const token = tokenAddress
+            ? tokens.find((candidate) => candidate.chainId === chainId && candidate.address === tokenAddress)
+            : null;
+        const network = networks.find((candidate) => candidate.chainId === chainId);
+        return {
+            symbol: tokenAddress ? token?.symbol ?? tokenAddress : network?.nativeSymbol ?? 'ETH',
+            decimals: tokenAddress ? token?.decimals ?? 0 : ETH_DECIMALS,
+        };
+    }
+
+    // `to` defaults to now, and `from` to a fixed number of buckets before it
+    private range(query: TimeseriesQueryDto): { interval: StatsInterval; from: Date; to: Date; starts: Date[] } {
+        const interval = query.interval ?? 'day';
+        const to = query.to ? new Date(query.to) : new Date();
+        const from = query.from ? new Date(query.from) : defaultFrom(to, interval);
+        if (from > to) {
+            throw new BadRequestException('from must not be after to');
+        }
+        const starts = bucketStarts(from, to, interval);
+        if (!starts) {
+            throw new BadRequestException(`The range covers more than ${MAX_BUCKETS} ${interval}s; pick a wider interval`);
+        }
+        return { interval, from, to, starts };
+    }
+
+    // The transaction list's filters; the amount range is in units of the filtered asset
+    private async scope(filter: TransactionFilterDto): Promise<FilterQuery<TransactionDocument>> {
+        const decimals =
+            filter.minAmount || filter.maxAmount
+                ? await this.tokens.assetDecimals(filter.asset, filter.chainId)
+                : ETH_DECIMALS;
+        return buildTransactionFilter(filter, decimals);
+    }
+
+    private async registry(): Promise<Registry> {
+        const [networks, tokens] = await Promise.all([this.networks.findAll(), this.tokens.findAll()]);
+        return { networks, tokens };
+    }
 }
 
+function gasPriceGroup(row: FeeGroup): GasPriceGroup {
+    return {
+        gasPrice: row._id.gasPrice == null ? null : fromDecimal128(row._id.gasPrice),
+        count: row.count,
+        failedCount: row.failed,
+        totalFees: fromDecimal128(row.fees),
+        failedFees: fromDecimal128(row.failedFees),
+        nativeVolume: fromDecimal128(row.nativeVolume),
+        nativeFees: fromDecimal128(row.nativeFees),
+    };
+}
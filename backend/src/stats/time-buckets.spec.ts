@@ -0,0 +1,49 @@
+import { bucketStart, bucketStarts, defaultFrom, MAX_BUCKETS, nextBucketStart } from './time-buckets';
+
+const utc = (iso: string) => new Date(iso);
+
+describe('bucketStart', () => {
+    it('truncates to the hour and day in UTC', () => {
+        expect(bucketStart(utc('2024-03-14T15:09:26.535Z'), 'hour')).toEqual(utc('2024-03-14T15:00:00.000Z'));
+        expect(bucketStart(utc('2024-03-14T15:09:26.535Z'), 'day')).toEqual(utc('2024-03-14T00:00:00.000Z'));
+    });
+
+    it('starts weeks on Monday', () => {
+        // 2024-03-14 is a Thursday, 2024-03-17 a Sunday
+        expect(bucketStart(utc('2024-03-14T15:09:26.535Z'), 'week')).toEqual(utc('2024-03-11T00:00:00.000Z'));
+        expect(bucketStart(utc('2024-03-17T23:59:59.999Z'), 'week')).toEqual(utc('2024-03-11T00:00:00.000Z'));
+        expect(bucketStart(utc('2024-03-18T00:00:00.000Z'), 'week')).toEqual(utc('2024-03-18T00:00:00.000Z'));
+    });
+
+    it('crosses month boundaries', () => {
+        expect(bucketStart(utc('2024-03-02T10:00:00.000Z'), 'week')).toEqual(utc('2024-02-26T00:00:00.000Z'));
+        expect(nextBucketStart(utc('2024-02-28T00:00:00.000Z'), 'day')).toEqual(utc('2024-02-29T00:00:00.000Z'));
+    });
+});
+
+describe('bucketStarts', () => {
+    it('covers the range with a bucket for every interval', () => {
+        expect(bucketStarts(utc('2024-03-14T15:30:00.000Z'), utc('2024-03-14T18:00:00.000Z'), 'hour')).toEqual([
+            utc('2024-03-14T15:00:00.000Z'),
+            utc('2024-03-14T16:00:00.000Z'),
+            utc('2024-03-14T17:00:00.000Z'),
+            utc('2024-03-14T18:00:00.000Z'),
+        ]);
+    });
+
+    it('refuses ranges with too many buckets', () => {
+        const from = utc('2024-01-01T00:00:00.000Z');
+        const to = new Date(from.getTime() + (MAX_BUCKETS - 1) * 60 * 60 * 1000);
+        expect(bucketStarts(from, to, 'hour')).toHaveLength(MAX_BUCKETS);
+        expect(bucketStarts(from, new Date(to.getTime() + 60 * 60 * 1000), 'hour')).toBeNull();
+    });
+});
+
+describe('defaultFrom', () => {
+    it('reaches back a fixed number of buckets', () => {
+        const to = utc('2024-03-14T15:09:26.535Z');
+        expect(bucketStarts(defaultFrom(to, 'hour'), to, 'hour')).toHaveLength(24);
+        expect(bucketStarts(defaultFrom(to, 'day'), to, 'day')).toHaveLength(30);
+        expect(bucketStarts(defaultFrom(to, 'week'), to, 'week')).toHaveLength(12);
+    });
+});
@@ -0,0 +1,57 @@
+export const STATS_INTERVALS = ['hour', 'day', 'week'] as const;
+export type StatsInterval = (typeof STATS_INTERVALS)[number];
+
+// Buckets covered when a request sets no `from`
+export const DEFAULT_BUCKET_COUNT: Record<StatsInterval, number> = {
+    hour: 24,
+    day: 30,
+    week: 12,
+};
+
+// Keeps a wide range at a fine interval from building an enormous response
+export const MAX_BUCKETS = 1000;
+
+const INTERVAL_MS: Record<StatsInterval, number> = {
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Start of the bucket holding `date`, in UTC. Weeks start on Monday, as
+ * MongoDB's `$dateTrunc` is told to count them.
+ */
+export function bucketStart(date: Date, interval: StatsInterval): Date {
+    const start = new Date(date);
+    start.setUTCMinutes(0, 0, 0);
+    if (interval === 'hour') return start;
+    start.setUTCHours(0);
+    if (interval === 'week') {
+        // getUTCDay is 0 for Sunday
+        start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    }
+    return start;
+}
+
+export function nextBucketStart(start: Date, interval: StatsInterval): Date {
+    return new Date(start.getTime() + INTERVAL_MS[interval]);
+}
+
+// Start of a default range: DEFAULT_BUCKET_COUNT buckets, up to and including the one holding `to`
+export function defaultFrom(to: Date, interval: StatsInterval): Date {
+    return new Date(bucketStart(to, interval).getTime() - (DEFAULT_BUCKET_COUNT[interval] - 1) * INTERVAL_MS[interval]);
+}
+
+/**
+ * Starts of every bucket from the one holding `from` to the one holding
+ * `to`, so ranges without transactions still get a row. Returns null when
+ * there would be more than MAX_BUCKETS.
+ */
+export function bucketStarts(from: Date, to: Date, interval: StatsInterval): Date[] | null {
+    const starts: Date[] = [];
+    for (let start = bucketStart(from, interval); start <= to; start = nextBucketStart(start, interval)) {
+        if (starts.length === MAX_BUCKETS) return null;
+        starts.push(start);
+    }
+    return starts;
+}
@@ -0,0 +1,21 @@
+import { IsInt, IsString, Matches, Max, Min } from 'class-validator';
+
+export class CreateTokenDto {
+    @IsInt()
+    @Min(1)
+    chainId: number;
+
+    @IsString()
+    @Matches(/^0x[a-fA-F0-9]{40}$/, { message: 'address must be a valid Ethereum address' })
+    address: string;
+
+    @IsString()
+    @Matches(/^[A-Za-z0-9.]{1,11}$/, { message: 'symbol must be 1 to 11 letters, digits or dots' })
+    symbol: string;
+
+    // Amounts are validated against 18 decimal places before they are scaled, so more cannot be entered
+    @IsInt()
+    @Min(0)
+    @Max(18)
+    decimals: number;
+}
@@ -0,0 +1,32 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type TokenDocument = Token & Document & {
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * An ERC-20 token transactions can transfer. Tokens are registered per
+ * network, since the same contract address means nothing on another chain.
+ */
+@Schema({ timestamps: true })
+export class Token {
+  @Prop({ required: true })
+  chainId: number;
+
+  // EIP-55 checksummed contract address
+  @Prop({ required: true })
+  address: string;
+
+  @Prop({ required: true })
+  symbol: string;
+
+  // Amounts are entered in whole tokens and stored in base units, 10^decimals per token
+  @Prop({ required: true })
+  decimals: number;
+}
+
+export const TokenSchema = SchemaFactory.createForClass(Token);
+
+TokenSchema.index({ chainId: 1, address: 1 }, { unique: true });
@@ -0,0 +1,10 @@
+import { TokenDocument } from './schemas/token.schema';
+
+export function formatToken(token: TokenDocument) {
+    return {
+        chainId: token.chainId,
+        address: token.address,
+        symbol: token.symbol,
+        decimals: token.decimals,
+    };
+}
@@ -0,0 +1,29 @@
+import { Body, Controller, Get, Post, Query } from '@nestjs/common';
+import { TokensService } from './tokens.service';
+import { CreateTokenDto } from './dto/create-token.dto';
+import { formatToken } from './token-response';
+import { ChainIdQueryDto } from '../networks/dto/chain-id-query.dto';
+
+@Controller('tokens')
+export class TokensController {
+    constructor(private readonly tokensService: TokensService) { }
+
+    // Tokens on every network unless `chainId` narrows the list
+    @Get()
+    async findAll(@Query() query: ChainIdQueryDto) {
+        const tokens = await this.tokensService.findAll(query.chainId);
+        return {
+            success: true,
+            data: tokens.map(formatToken),
+        };
+    }
+
+    @Post()
+    async create(@Body() createTokenDto: CreateTokenDto) {
+        const token = await this.tokensService.create(createTokenDto);
+        return {
+            success: true,
+            data: formatToken(token),
+        };
+    }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { TokensController } from './tokens.controller';
+import { TokensService } from './tokens.service';
+import { Token, TokenSchema } from './schemas/token.schema';
+import { NetworksModule } from '../networks/networks.module';
+
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            { name: Token.name, schema: TokenSchema },
+        ]),
+        NetworksModule,
+    ],
+    controllers: [TokensController],
+    providers: [TokensService],
+    exports: [TokensService],
+})
+export class TokensModule { }
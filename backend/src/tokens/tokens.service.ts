@@ -0,0 +1,65 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { Token, TokenDocument } from './schemas/token.schema';
+import { CreateTokenDto } from './dto/create-token.dto';
+import { toChecksumAddress } from '../chain/address';
+import { NetworksService } from '../networks/networks.service';
+import { ETH_DECIMALS } from '../common/units';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Registry of the ERC-20 tokens transactions can transfer, with the symbol
+ * and decimals needed to scale amounts.
+ */
+@Injectable()
+export class TokensService {
+    constructor(
+        @InjectModel(Token.name)
+        private tokenModel: Model<TokenDocument>,
+        private readonly networks: NetworksService,
+    ) { }
+
+    // Every registered token, or only those on `chainId`
+    async findAll(chainId?: number): Promise<TokenDocument[]> {
+        const filter: FilterQuery<TokenDocument> = chainId ? { chainId } : {};
+        return this.tokenModel.find(filter).sort({ chainId: 1, symbol: 1 }).exec();
+    }
+
+    async find(chainId: number, address: string): Promise<TokenDocument | null> {
+        return this.tokenModel.findOne({ chainId, address: toChecksumAddress(address) }).exec();
+    }
+
+    // The token a request names; one not registered on the network is a bad request
+    async resolve(chainId: number, address: string): Promise<TokenDocument> {
+        const token = await this.find(chainId, address);
+        if (!token) {
+            throw new BadRequestException(`Token ${address} is not registered on network ${chainId}`);
+        }
+        return token;
+    }
+
+    /**
+     * Decimals of a filter's `asset`: a registered token's, or the native
+     * currency's 18 for `native`, no asset or an unregistered token.
+     */
+    async assetDecimals(asset: string | undefined, chainId?: number): Promise<number> {
+        if (!asset || asset === 'native') return ETH_DECIMALS;
+        const address = toChecksumAddress(asset);
+        const token = (await this.findAll(chainId)).find((candidate) => candidate.address === address);
+        return token?.decimals ?? ETH_DECIMALS;
+    }
+
+    async create(dto: CreateTokenDto): Promise<TokenDocument> {
+        await this.networks.resolve(dto.chainId);
+        try {
+            return await this.tokenModel.create({ ...dto, address: toChecksumAddress(dto.address) });
+        } catch (error) {
+            if (error.code === DUPLICATE_KEY_ERROR) {
+                throw new BadRequestException(`Token ${dto.address} is already registered on network ${dto.chainId}`);
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,19 @@
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsIn, IsOptional } from 'class-validator';
+
+export const BULK_MODES = ['atomic', 'best-effort'] as const;
+export type BulkMode = (typeof BULK_MODES)[number];
+
+export const MAX_BULK_TRANSACTIONS = 500;
+
+export class BulkCreateTransactionsDto {
+    // atomic: nothing is created unless every row is valid; best-effort: valid rows are created
+    @IsOptional()
+    @IsIn(BULK_MODES)
+    mode?: BulkMode = 'atomic';
+
+    // Each row is validated against CreateTransactionDto individually so errors can be reported per row
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayMaxSize(MAX_BULK_TRANSACTIONS)
+    transactions: unknown[];
+}
@@ -1,7 +1,55 @@
-import { IsNotEmpty, IsString, IsOptional, Matches, IsPositive } from 'class-validator';
+import {
+    IsArray,
+    IsNotEmpty,
+    IsString,
+    IsOptional,
+    IsMongoId,
+    IsInt,
+    Matches,
+    Min,
+    ValidateIf,
+    ValidateNested,
+} from 'class-validator';
 import { Type } from 'class-transformer';
+import { IsEthAmount } from '../../common/validators/is-eth-amount.validator';
+import { IsEthAmountAtMost } from '../../common/validators/is-eth-amount-at-most.validator';
+import { ConflictsWith } from '../../common/validators/conflicts-with.validator';
+
+// EIP-1559 fields come as a pair; setting either one requires both
+const hasEip1559Fees = (dto: CreateTransactionDto) =>
+    dto.maxFeePerGas !== undefined || dto.maxPriorityFeePerGas !== undefined;
+
+// A contract call may send no value at all
+const isContractCall = (dto: CreateTransactionDto) => dto.data !== undefined || dto.call !== undefined;
+
+// A call encoded from an uploaded ABI
+export class ContractCallDto {
+    @IsMongoId()
+    abiId: string;
+
+    // Function name, or its full signature (e.g. `mint(address,uint256)`) when overloaded
+    @IsString()
+    @IsNotEmpty()
+    function: string;
+
+    // One per input, as JSON: integers as decimal or 0x strings, bytes as hex, arrays as arrays
+    @IsArray()
+    args: unknown[];
+}
 
 export class CreateTransactionDto {
+    // Defaults to the default network
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    chainId?: number;
+
+    // Defaults to the default account (derivation index 0)
+    @IsOptional()
+    @IsMongoId()
+    fromAccountId?: string;
+
     @IsString()
     @IsNotEmpty()
     @Matches(/^0x[a-fA-F0-9]{40}$/, {
@@ -9,16 +57,55 @@ export class CreateTransactionDto {
     })
     toAddress: string;
 
+    // ERC-20 token to transfer, registered on the network; left out for the native currency
+    @IsOptional()
+    @IsString()
+    @Matches(/^0x[a-fA-F0-9]{40}$/, {
+        message: 'tokenAddress must be a valid Ethereum address',
+    })
+    tokenAddress?: string;
+
+    // Raw calldata for a contract call to `toAddress`; checked against the ABIs bound to that contract
+    @IsOptional()
+    @IsString()
+    @Matches(/^0x([a-fA-F0-9]{2})*$/, { message: 'data must be 0x-prefixed hex bytes' })
+    @ConflictsWith(['tokenAddress', 'call'])
+    data?: string;
+
+    // A contract call to `toAddress` to encode instead of passing raw `data`
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => ContractCallDto)
+    @ConflictsWith(['tokenAddress'])
+    call?: ContractCallDto;
+
+    // In whole units of the asset (ETH or the token); stored in base units. Contract calls may send 0
     @IsString()
     @IsNotEmpty()
+    @IsEthAmount({ allowZero: isContractCall })
     amount: string;
 
     @IsOptional()
     @IsString()
+    @Matches(/^\d+$/, { message: 'gasLimit must be a whole number' })
     gasLimit?: string;
 
+    // Legacy pricing, in ETH per unit of gas; stored as wei
     @IsOptional()
     @IsString()
+    @IsEthAmount()
+    @ConflictsWith(['maxFeePerGas', 'maxPriorityFeePerGas'])
     gasPrice?: string;
-}
 
+    // EIP-1559 pricing, in ETH per unit of gas; stored as wei. The fee cap covers base fee plus tip
+    @ValidateIf(hasEip1559Fees)
+    @IsString()
+    @IsEthAmount()
+    maxFeePerGas?: string;
+
+    @ValidateIf(hasEip1559Fees)
+    @IsString()
+    @IsEthAmount({ allowZero: true })
+    @IsEthAmountAtMost('maxFeePerGas')
+    maxPriorityFeePerGas?: string;
+}
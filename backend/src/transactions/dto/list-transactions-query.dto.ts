@@ -0,0 +1,29 @@
+import { IsOptional, IsString, IsIn, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { TransactionFilterDto } from './transaction-filter.dto';
+
+export const TRANSACTION_SORT_FIELDS = ['date', 'amount', 'status'] as const;
+export type TransactionSortField = (typeof TRANSACTION_SORT_FIELDS)[number];
+
+export type SortOrder = 'asc' | 'desc';
+
+export class ListTransactionsQueryDto extends TransactionFilterDto {
+    @IsOptional()
+    @IsIn(TRANSACTION_SORT_FIELDS)
+    sortBy?: TransactionSortField = 'date';
+
+    @IsOptional()
+    @IsIn(['asc', 'desc'])
+    order?: SortOrder = 'desc';
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(100)
+    limit?: number = 20;
+
+    @IsOptional()
+    @IsString()
+    cursor?: string;
+}
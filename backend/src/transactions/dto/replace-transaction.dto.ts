@@ -0,0 +1,22 @@
+import { IsOptional, IsString } from 'class-validator';
+import { IsEthAmount } from '../../common/validators/is-eth-amount.validator';
+import { ConflictsWith } from '../../common/validators/conflicts-with.validator';
+
+// Fees in ETH per unit of gas, matching the original's pricing; each defaults to the minimum accepted bump
+export class ReplaceTransactionDto {
+    @IsOptional()
+    @IsString()
+    @IsEthAmount()
+    @ConflictsWith(['maxFeePerGas', 'maxPriorityFeePerGas'])
+    gasPrice?: string;
+
+    @IsOptional()
+    @IsString()
+    @IsEthAmount()
+    maxFeePerGas?: string;
+
+    @IsOptional()
+    @IsString()
+    @IsEthAmount({ allowZero: true })
+    maxPriorityFeePerGas?: string;
+}
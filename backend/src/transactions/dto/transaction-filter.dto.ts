@@ -0,0 +1,67 @@
+import { IsOptional, IsString, IsEnum, IsInt, IsISO8601, Matches, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { TransactionStatus } from '../schemas/transaction.schema';
+import { IsEthAmount } from '../../common/validators/is-eth-amount.validator';
+
+const ADDRESS_FRAGMENT = /^(0x)?[a-fA-F0-9]{1,40}$/;
+
+// Narrows the transactions a listing or statistic covers; every field is optional
+export class TransactionFilterDto {
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    chainId?: number;
+
+    // `native` for the network's own currency, or an ERC-20 token address
+    @IsOptional()
+    @IsString()
+    @Matches(/^(native|0x[a-fA-F0-9]{40})$/, {
+        message: 'asset must be "native" or a token address',
+    })
+    asset?: string;
+
+    @IsOptional()
+    @IsEnum(TransactionStatus)
+    status?: TransactionStatus;
+
+    @IsOptional()
+    @IsISO8601()
+    from?: string;
+
+    @IsOptional()
+    @IsISO8601()
+    to?: string;
+
+    // Matches either side of the transfer (case-insensitive, partial matches allowed)
+    @IsOptional()
+    @IsString()
+    @Matches(ADDRESS_FRAGMENT, {
+        message: 'address must be a hex address or address fragment',
+    })
+    address?: string;
+
+    // Match only the sender or only the recipient, like `address`
+    @IsOptional()
+    @IsString()
+    @Matches(ADDRESS_FRAGMENT, {
+        message: 'fromAddress must be a hex address or address fragment',
+    })
+    fromAddress?: string;
+
+    @IsOptional()
+    @IsString()
+    @Matches(ADDRESS_FRAGMENT, {
+        message: 'toAddress must be a hex address or address fragment',
+    })
+    toAddress?: string;
+
+    // Amount range in whole units of the asset filtered on, ETH otherwise
+    @IsOptional()
+    @IsEthAmount({ allowZero: true })
+    minAmount?: string;
+
+    @IsOptional()
+    @IsEthAmount({ allowZero: true })
+    maxAmount?: string;
+}
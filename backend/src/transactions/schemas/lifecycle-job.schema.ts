@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type LifecycleJobDocument = LifecycleJob & Document & {
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export enum LifecycleAction {
+  // Hand a pending transaction to the network
+  SUBMIT = 'submit',
+  // Resolve a submitted transaction to its final status
+  SETTLE = 'settle',
+}
+
+/**
+ * Scheduled next step for a transaction that has not reached a terminal status.
+ * Jobs live in MongoDB so pending work survives a restart.
+ */
+@Schema({ timestamps: true, collection: 'lifecycle_jobs' })
+export class LifecycleJob {
+  @Prop({ type: Types.ObjectId, required: true, unique: true })
+  transactionId: Types.ObjectId;
+
+  @Prop({ type: String, enum: LifecycleAction, required: true })
+  action: LifecycleAction;
+
+  @Prop({ required: true })
+  runAt: Date;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  // Set while a worker is processing the job; an expired lock means the worker died
+  @Prop({ type: Date, default: null })
+  lockedUntil: Date | null;
+
+  @Prop({ required: false })
+  lastError?: string;
+}
+
+export const LifecycleJobSchema = SchemaFactory.createForClass(LifecycleJob);
+
+LifecycleJobSchema.index({ runAt: 1, lockedUntil: 1 });
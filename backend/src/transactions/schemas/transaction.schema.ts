@@ -1,5 +1,5 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document, Types } from 'mongoose';
+import { Document, SchemaTypes, Types } from 'mongoose';
 
 export type TransactionDocument = Transaction & Document & {
   createdAt: Date;
@@ -8,23 +8,77 @@ export type TransactionDocument = Transaction & Document & {
 
 export enum TransactionStatus {
   PENDING = 'pending',
+  SUBMITTED = 'submitted',
   CONFIRMED = 'confirmed',
   FAILED = 'failed',
+  DROPPED = 'dropped',
+  REPLACED = 'replaced',
 }
 
+export enum ReplacementType {
+  CANCEL = 'cancel',
+  SPEED_UP = 'speed-up',
+}
+
+@Schema({ _id: false })
+export class StatusChange {
+  @Prop({ required: true })
+  timestamp: Date;
+
+  // null for the entry recorded when the transaction is created
+  @Prop({ type: String, enum: TransactionStatus, default: null })
+  previousStatus: TransactionStatus | null;
+
+  @Prop({ type: String, enum: TransactionStatus, required: true })
+  status: TransactionStatus;
+
+  // Who caused the change, e.g. `api` or `lifecycle`
+  @Prop({ required: true })
+  actor: string;
+
+  @Prop({ required: false })
+  reason?: string;
+}
+
+export const StatusChangeSchema = SchemaFactory.createForClass(StatusChange);
+
 @Schema({ timestamps: true })
 export class Transaction {
-  @Prop({ required: true, unique: true })
-  hash: string;
+  // keccak256 of the signed payload, set when the transaction is broadcast
+  @Prop({ required: false })
+  hash?: string;
+
+  // Signed serialized transaction, stored before the first broadcast so retries resend the same bytes
+  @Prop({ required: false })
+  rawTransaction?: string;
 
+  // The network the transaction is sent on
   @Prop({ required: true })
+  chainId: number;
+
+  // Addresses are stored lowercase so lookups are exact matches on the indexes
+  @Prop({ required: true, lowercase: true })
   fromAddress: string;
 
-  @Prop({ required: true })
+  // The sender account whose key signs the transaction
+  @Prop({ type: SchemaTypes.ObjectId, required: false })
+  fromAccountId?: Types.ObjectId;
+
+  // The recipient; for token transfers the token contract is called instead and pays out to it
+  @Prop({ required: true, lowercase: true })
   toAddress: string;
 
-  @Prop({ required: true })
-  amount: string;
+  // Contract of the ERC-20 token transferred; null for the network's native currency
+  @Prop({ type: String, default: null })
+  tokenAddress: string | null;
+
+  // Hex calldata of a contract call to `toAddress`; null for plain transfers
+  @Prop({ type: String, default: null })
+  data: string | null;
+
+  // Integer base units of the asset: wei, or 10^-decimals of a token
+  @Prop({ type: SchemaTypes.Decimal128, required: true })
+  amount: Types.Decimal128;
 
   @Prop({ 
     type: String, 
@@ -36,13 +90,60 @@ export class Transaction {
   @Prop({ required: false })
   gasLimit?: string;
 
+  // Integer wei per unit of gas. Legacy transactions set gasPrice, EIP-1559 ones the fee cap and tip
+  @Prop({ type: SchemaTypes.Decimal128, required: false })
+  gasPrice?: Types.Decimal128;
+
+  @Prop({ type: SchemaTypes.Decimal128, required: false })
+  maxFeePerGas?: Types.Decimal128;
+
+  @Prop({ type: SchemaTypes.Decimal128, required: false })
+  maxPriorityFeePerGas?: Types.Decimal128;
+
+  // Receipt data, set once mined
   @Prop({ required: false })
-  gasPrice?: string;
+  blockNumber?: number;
+
+  @Prop({ required: false })
+  blockHash?: string;
+
+  @Prop({ required: false })
+  gasUsed?: string;
+
+  // Integer wei per unit of gas actually paid
+  @Prop({ type: SchemaTypes.Decimal128, required: false })
+  effectiveGasPrice?: Types.Decimal128;
+
+  // Blocks on top of (and including) the one holding the transaction, counted until final
+  @Prop({ required: false })
+  confirmations?: number;
+
+  // Why the transaction failed or was dropped
+  @Prop({ required: false })
+  failureReason?: string;
+
+  // Position in the sender's transaction sequence; replacements reuse it
+  @Prop({ required: true, default: 0 })
+  nonce: number;
+
+  // The transaction this one replaces (cancel or speed-up)
+  @Prop({ type: SchemaTypes.ObjectId, required: false })
+  replacesId?: Types.ObjectId;
+
+  @Prop({ type: String, enum: ReplacementType, required: false })
+  replacementType?: ReplacementType;
+
+  @Prop({ type: [StatusChangeSchema], default: [] })
+  statusHistory: StatusChange[];
 }
 
 export const TransactionSchema = SchemaFactory.createForClass(Transaction);
 
 // Create index for faster queries
-TransactionSchema.index({ hash: 1 });
+TransactionSchema.index({ hash: 1 }, { unique: true, sparse: true });
 TransactionSchema.index({ createdAt: -1 });
-
+TransactionSchema.index({ fromAddress: 1, chainId: 1, nonce: 1 });
+TransactionSchema.index({ toAddress: 1, chainId: 1 });
+TransactionSchema.index({ chainId: 1, createdAt: -1 });
+TransactionSchema.index({ tokenAddress: 1, createdAt: -1 });
+TransactionSchema.index({ status: 1, createdAt: -1 });
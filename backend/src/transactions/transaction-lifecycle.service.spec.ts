@@ -0,0 +1,138 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { TransactionLifecycleService } from './transaction-lifecycle.service';
+import { TransactionStatus } from './schemas/transaction.schema';
+import { LifecycleAction } from './schemas/lifecycle-job.schema';
+
+const query = <T>(value: T) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+function setup(stored: Record<string, unknown> | null) {
+    const transactionModel = {
+        findById: jest.fn(() => query(stored)),
+        findOneAndUpdate: jest.fn((_filter, update) =>
+            query(stored && { ...stored, ...update.$set, statusHistory: [update.$push.statusHistory] }),
+        ),
+        aggregate: jest.fn(() => query([])),
+    };
+    const jobModel = {
+        collection: { name: 'lifecycle_jobs' },
+        findOneAndUpdate: jest.fn(
+            (_filter: { transactionId: Types.ObjectId }, _update: { $set: { action: LifecycleAction } }, _options: {
+                upsert: boolean;
+            }) => query(null),
+        ),
+    };
+    const gateway = { emitStatusChanged: jest.fn(), emitNonceGap: jest.fn() };
+    const nonces = { findGaps: jest.fn().mockResolvedValue([]) };
+    const service = new TransactionLifecycleService(
+        transactionModel as never,
+        jobModel as never,
+        gateway as never,
+        {} as never,
+        {} as never,
+        nonces as never,
+        new ConfigService({}),
+    );
+    return { service, transactionModel, jobModel, gateway, nonces };
+}
+
+const transaction = (status: TransactionStatus) => ({
+    _id: new Types.ObjectId(),
+    status,
+    fromAddress: '0x00000000000000000000000000000000000000aa',
+    chainId: 31337,
+    nonce: 4,
+});
+
+describe('TransactionLifecycleService', () => {
+    describe('transition', () => {
+        it('moves the status only if no one else did, recording why', async () => {
+            const stored = transaction(TransactionStatus.SUBMITTED);
+            const { service, transactionModel, gateway } = setup(stored);
+
+            const updated = await service.transition(stored._id, TransactionStatus.CONFIRMED, {
+                actor: 'lifecycle',
+                reason: 'Included in block 12',
+            });
+
+            expect(updated.status).toBe(TransactionStatus.CONFIRMED);
+            const [filter, update] = transactionModel.findOneAndUpdate.mock.calls[0];
+            expect(filter).toEqual({ _id: stored._id, status: TransactionStatus.SUBMITTED });
+            expect(update.$push.statusHistory).toMatchObject({
+                previousStatus: TransactionStatus.SUBMITTED,
+                status: TransactionStatus.CONFIRMED,
+                actor: 'lifecycle',
+                reason: 'Included in block 12',
+            });
+            expect(gateway.emitStatusChanged).toHaveBeenCalledWith(updated, TransactionStatus.SUBMITTED);
+        });
+
+        it('rejects moves the state machine does not allow', async () => {
+            const stored = transaction(TransactionStatus.PENDING);
+            const { service, transactionModel } = setup(stored);
+
+            await expect(
+                service.transition(stored._id, TransactionStatus.FAILED, { actor: 'lifecycle' }),
+            ).rejects.toThrow(new ConflictException('Cannot move transaction from pending to failed'));
+            expect(transactionModel.findOneAndUpdate).not.toHaveBeenCalled();
+        });
+
+        it('rejects a move when the status changed since it was read', async () => {
+            const stored = transaction(TransactionStatus.SUBMITTED);
+            const { service, transactionModel, gateway } = setup(stored);
+            transactionModel.findOneAndUpdate.mockReturnValueOnce(query(null));
+
+            await expect(
+                service.transition(stored._id, TransactionStatus.DROPPED, { actor: 'lifecycle' }),
+            ).rejects.toThrow('changed status concurrently');
+            expect(gateway.emitStatusChanged).not.toHaveBeenCalled();
+        });
+
+        it('keeps the reason a transaction was dropped and reports the nonce gap it leaves', async () => {
+            const stored = transaction(TransactionStatus.SUBMITTED);
+            const { service, transactionModel, gateway, nonces } = setup(stored);
+            nonces.findGaps.mockResolvedValue([4]);
+
+            const dropped = await service.transition(stored._id, TransactionStatus.DROPPED, {
+                actor: 'lifecycle',
+                reason: 'Not mined within 60s',
+            });
+
+            expect(transactionModel.findOneAndUpdate.mock.calls[0][1].$set.failureReason).toBe('Not mined within 60s');
+            expect(nonces.findGaps).toHaveBeenCalledWith(stored.fromAddress, stored.chainId);
+            expect(gateway.emitNonceGap).toHaveBeenCalledWith(dropped);
+        });
+
+        it('reports no gap when another transaction still holds the nonce', async () => {
+            const stored = transaction(TransactionStatus.PENDING);
+            const { service, gateway } = setup(stored);
+
+            await service.transition(stored._id, TransactionStatus.DROPPED, { actor: 'lifecycle' });
+
+            expect(gateway.emitNonceGap).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('recover', () => {
+        it('queues unfinished transactions without a job at the step they reached', async () => {
+            const pending = transaction(TransactionStatus.PENDING);
+            const submitted = transaction(TransactionStatus.SUBMITTED);
+            const { service, transactionModel, jobModel } = setup(null);
+            transactionModel.aggregate.mockReturnValue(query([pending, submitted]));
+
+            await service.recover();
+
+            expect(jobModel.findOneAndUpdate).toHaveBeenCalledTimes(2);
+            const scheduled = jobModel.findOneAndUpdate.mock.calls.map(([filter, update, options]) => [
+                filter.transactionId,
+                update.$set.action,
+                options.upsert,
+            ]);
+            expect(scheduled).toEqual([
+                [pending._id, LifecycleAction.SUBMIT, true],
+                [submitted._id, LifecycleAction.SETTLE, true],
+            ]);
+        });
+    });
+});
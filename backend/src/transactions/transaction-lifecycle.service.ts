@@ -0,0 +1,569 @@
+import {
+    ConflictException,
+    Injectable,
+    Logger,
+    NotFoundException,
+    OnApplicationBootstrap,
+    OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+    Transaction,
+    TransactionDocument,
+    TransactionStatus,
+} from './schemas/transaction.schema';
+import {
+    LifecycleAction,
+    LifecycleJob,
+    LifecycleJobDocument,
+} from './schemas/lifecycle-job.schema';
+import { canTransition } from './transaction-state-machine';
+import { TransactionsGateway } from './transactions.gateway';
+import { ChainRejectedError } from '../chain/chain-rejected.error';
+import { FeeFields, isEip1559, networkFees } from '../chain/fee-bid';
+import { transactionHash } from '../chain/transaction-signing';
+import { transferCall } from '../chain/erc20';
+import { fromDecimal128, toDecimal128 } from '../common/units';
+import { readNumber } from '../common/config';
+import { AccountsService } from '../accounts/accounts.service';
+import { NonceService } from '../accounts/nonce.service';
+import { NetworksService } from '../networks/networks.service';
+
+type LifecycleSettings = {
+    pollIntervalMs: number;
+    submitDelayMs: number;
+    receiptPollIntervalMs: number;
+    dropTimeoutMs: number;
+    requiredConfirmations: number;
+    lockTimeoutMs: number;
+    retryDelayMs: number;
+    maxAttempts: number;
+};
+
+export type TransitionContext = {
+    actor: string;
+    reason?: string;
+};
+
+type NextStep = {
+    action: LifecycleAction;
+    delayMs: number;
+};
+
+export const LIFECYCLE_ACTOR = 'lifecycle';
+
+// How nodes refuse a payload they already hold, e.g. when a broadcast is retried
+const KNOWN_TRANSACTION_ERROR = /already known|already imported|known transaction/i;
+
+function storedFees(transaction: TransactionDocument): FeeFields {
+    return {
+        gasPrice: transaction.gasPrice ? fromDecimal128(transaction.gasPrice) : undefined,
+        maxFeePerGas: transaction.maxFeePerGas ? fromDecimal128(transaction.maxFeePerGas) : undefined,
+        maxPriorityFeePerGas: transaction.maxPriorityFeePerGas
+            ? fromDecimal128(transaction.maxPriorityFeePerGas)
+            : undefined,
+    };
+}
+
+/**
+ * Drives transactions from `pending` to a terminal status using jobs persisted
+ * in the `lifecycle_jobs` collection, so in-flight work resumes after a restart.
+ * Transactions are signed with the sender account's key, broadcast through the
+ * chain provider and settled from their receipts.
+ */
+@Injectable()
+export class TransactionLifecycleService implements OnApplicationBootstrap, OnModuleDestroy {
+    private readonly logger = new Logger(TransactionLifecycleService.name);
+    private readonly settings: LifecycleSettings;
+    private timer: NodeJS.Timeout | null = null;
+    private polling = false;
+
+    constructor(
+        @InjectModel(Transaction.name)
+        private transactionModel: Model<TransactionDocument>,
+        @InjectModel(LifecycleJob.name)
+        private jobModel: Model<LifecycleJobDocument>,
+        private readonly transactionsGateway: TransactionsGateway,
+        private readonly networks: NetworksService,
+        private readonly accounts: AccountsService,
+        private readonly nonces: NonceService,
+        configService: ConfigService,
+    ) {
+        this.settings = {
+            pollIntervalMs: readNumber(configService, 'LIFECYCLE_POLL_INTERVAL_MS', 500),
+            submitDelayMs: readNumber(configService, 'LIFECYCLE_SUBMIT_DELAY_MS', 500),
+            receiptPollIntervalMs: readNumber(configService, 'LIFECYCLE_RECEIPT_POLL_INTERVAL_MS', 1000),
+            dropTimeoutMs: readNumber(configService, 'LIFECYCLE_DROP_TIMEOUT_MS', 60000),
+            requiredConfirmations: Math.max(1, readNumber(configService, 'LIFECYCLE_REQUIRED_CONFIRMATIONS', 1)),
+            lockTimeoutMs: readNumber(configService, 'LIFECYCLE_LOCK_TIMEOUT_MS', 30000),
+            retryDelayMs: readNumber(configService, 'LIFECYCLE_RETRY_DELAY_MS', 1000),
+            maxAttempts: readNumber(configService, 'LIFECYCLE_MAX_ATTEMPTS', 5),
+        };
+    }
+
+    async onApplicationBootstrap() {
+        await this.recover();
+        this.timer = setInterval(() => this.poll(), this.settings.pollIntervalMs);
+    }
+
+    onModuleDestroy() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Queues a freshly created transaction for submission.
+     */
+    async enqueue(transactionId: Types.ObjectId) {
+        await this.schedule(transactionId, LifecycleAction.SUBMIT, this.settings.submitDelayMs);
+    }
+
+    /**
+     * Moves a transaction to `to`, enforcing the state machine, and appends the
+     * change to its status history. The update is conditional on the status
+     * read, so concurrent writers cannot both win. `fields` are set in the
+     * same update.
+     */
+    async transition(
+        transactionId: Types.ObjectId | string,
+        to: TransactionStatus,
+        context: TransitionContext,
+        fields: Record<string, unknown> = {},
+    ): Promise<TransactionDocument> {
+        const current = await this.findTransaction(transactionId);
+
+        const previousStatus = current.status;
+        if (!canTransition(previousStatus, to)) {
+            throw new ConflictException(`Cannot move transaction from ${previousStatus} to ${to}`);
+        }
+
+        // Keep why a transaction ended badly on the document itself
+        const failed = to === TransactionStatus.FAILED || to === TransactionStatus.DROPPED;
+        const failureFields = failed && context.reason ? { failureReason: context.reason } : {};
+
+        const updated = await this.transactionModel
+            .findOneAndUpdate(
+                { _id: current._id, status: previousStatus },
+                {
+                    $set: { ...failureFields, ...fields, status: to },
+                    $push: {
+                        statusHistory: {
+                            timestamp: new Date(),
+                            previousStatus,
+                            status: to,
+                            actor: context.actor,
+                            reason: context.reason,
+                        },
+                    },
+                },
+                { new: true },
+            )
+            .exec();
+        if (!updated) {
+            throw new ConflictException(`Transaction ${transactionId} changed status concurrently`);
+        }
+
+        this.transactionsGateway.emitStatusChanged(updated, previousStatus);
+        if (to === TransactionStatus.DROPPED) {
+            await this.checkNonceGap(updated);
+        }
+        return updated;
+    }
+
+    /**
+     * Re-queues every unfinished transaction that has no job, e.g. because it
+     * was created before jobs existed or its job was lost.
+     */
+    async recover() {
+        const orphans: { _id: Types.ObjectId; status: TransactionStatus }[] = await this.transactionModel
+            .aggregate([
+                { $match: { status: { $in: [TransactionStatus.PENDING, TransactionStatus.SUBMITTED] } } },
+                {
+                    $lookup: {
+                        from: this.jobModel.collection.name,
+                        localField: '_id',
+                        foreignField: 'transactionId',
+                        as: 'jobs',
+                    },
+                },
+                { $match: { jobs: { $size: 0 } } },
+                { $project: { status: 1 } },
+            ])
+            .exec();
+
+        for (const orphan of orphans) {
+            const action =
+                orphan.status === TransactionStatus.PENDING ? LifecycleAction.SUBMIT : LifecycleAction.SETTLE;
+            await this.schedule(orphan._id, action, 0);
+        }
+
+        if (orphans.length > 0) {
+            this.logger.log(`Recovered ${orphans.length} unfinished transaction(s)`);
+        }
+    }
+
+    private async findTransaction(transactionId: Types.ObjectId | string): Promise<TransactionDocument> {
+        const transaction = await this.transactionModel.findById(transactionId).exec();
+        if (!transaction) {
+            throw new NotFoundException(`Transaction with ID ${transactionId} not found`);
+        }
+        return transaction;
+    }
+
+    private async schedule(transactionId: Types.ObjectId, action: LifecycleAction, delayMs: number) {
+        await this.jobModel
+            .findOneAndUpdate(
+                { transactionId },
+                {
+                    $set: { action, runAt: new Date(Date.now() + delayMs), attempts: 0, lockedUntil: null },
+                    $unset: { lastError: 1 },
+                },
+                { upsert: true },
+            )
+            .exec();
+    }
+
+    private async poll() {
+        if (this.polling) return;
+        this.polling = true;
+        try {
+            let job: LifecycleJobDocument | null;
+            while ((job = await this.claimNextJob())) {
+                await this.runJob(job);
+            }
+        } catch (error) {
+            this.logger.error(`Lifecycle poll failed: ${error.message}`);
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private claimNextJob(): Promise<LifecycleJobDocument | null> {
+        const now = new Date();
+        return this.jobModel
+            .findOneAndUpdate(
+                {
+                    runAt: { $lte: now },
+                    $or: [{ lockedUntil: null }, { lockedUntil: { $lt: now } }],
+                },
+                {
+                    $set: { lockedUntil: new Date(now.getTime() + this.settings.lockTimeoutMs) },
+                    $inc: { attempts: 1 },
+                },
+                { sort: { runAt: 1 }, new: true },
+            )
+            .exec();
+    }
+
+    private async runJob(job: LifecycleJobDocument) {
+        try {
+            const next = await this.execute(job);
+            if (next) {
+                await this.jobModel
+                    .updateOne(
+                        { _id: job._id },
+                        {
+                            $set: {
+                                action: next.action,
+                                runAt: new Date(Date.now() + next.delayMs),
+                                attempts: 0,
+                                lockedUntil: null,
+                            },
+                        },
+                    )
+                    .exec();
+            } else {
+                await this.jobModel.deleteOne({ _id: job._id }).exec();
+            }
+        } catch (error) {
+            // The transaction moved on without us (or vanished); the job is obsolete
+            if (error instanceof ConflictException || error instanceof NotFoundException) {
+                this.logger.warn(`Discarding ${job.action} job for ${job.transactionId}: ${error.message}`);
+                await this.jobModel.deleteOne({ _id: job._id }).exec();
+                return;
+            }
+
+            if (job.attempts >= this.settings.maxAttempts) {
+                this.logger.error(`Giving up on ${job.action} for ${job.transactionId}: ${error.message}`);
+                await this.jobModel.deleteOne({ _id: job._id }).exec();
+                return;
+            }
+
+            await this.jobModel
+                .updateOne(
+                    { _id: job._id },
+                    {
+                        $set: {
+                            runAt: new Date(Date.now() + this.settings.retryDelayMs * job.attempts),
+                            lockedUntil: null,
+                            lastError: error.message,
+                        },
+                    },
+                )
+                .exec();
+        }
+    }
+
+    private async execute(job: LifecycleJobDocument): Promise<NextStep | null> {
+        switch (job.action) {
+            case LifecycleAction.SUBMIT:
+                return this.submit(job.transactionId);
+
+            case LifecycleAction.SETTLE:
+                return this.settle(job.transactionId);
+        }
+    }
+
+    private async submit(transactionId: Types.ObjectId): Promise<NextStep | null> {
+        let transaction = await this.findTransaction(transactionId);
+        if (!canTransition(transaction.status, TransactionStatus.SUBMITTED)) {
+            throw new ConflictException(`Cannot submit a transaction that is ${transaction.status}`);
+        }
+
+        // Signed once, so a retried submit rebroadcasts the same bytes under the same hash
+        if (!transaction.rawTransaction) {
+            transaction = await this.sign(transaction);
+            if (!transaction) return null;
+        }
+
+        const chain = await this.networks.provider(transaction.chainId);
+        let hash: string;
+        try {
+            hash = await chain.sendRawTransaction(transaction.rawTransaction);
+        } catch (error) {
+            if (!(error instanceof ChainRejectedError)) throw error;
+
+            // An earlier attempt may have reached the node before failing on our side
+            const signedHash = transactionHash(transaction.rawTransaction);
+            if (KNOWN_TRANSACTION_ERROR.test(error.message) || (await chain.getReceipt(signedHash))) {
+                hash = signedHash;
+            } else {
+                await this.transition(transaction._id, TransactionStatus.DROPPED, {
+                    actor: LIFECYCLE_ACTOR,
+                    reason: `Rejected by the node: ${error.message}`,
+                });
+                return null;
+            }
+        }
+
+        await this.transition(
+            transaction._id,
+            TransactionStatus.SUBMITTED,
+            { actor: LIFECYCLE_ACTOR, reason: 'Broadcast to the network' },
+            { hash },
+        );
+        return { action: LifecycleAction.SETTLE, delayMs: this.settings.receiptPollIntervalMs };
+    }
+
+    /**
+     * Signs the transaction with its sender's key and stores the payload.
+     * Unpriced transactions are signed at the network's current fees, which
+     * are stored with it. Drops the transaction and returns null when the
+     * sender has no key.
+     */
+    private async sign(transaction: TransactionDocument): Promise<TransactionDocument | null> {
+        const fees = await this.signingFees(transaction);
+        const signed = transaction.fromAccountId
+            ? await this.accounts.signTransaction(transaction.fromAccountId, {
+                  chainId: transaction.chainId,
+                  nonce: transaction.nonce,
+                  ...transferCall(
+                      transaction.toAddress,
+                      fromDecimal128(transaction.amount),
+                      transaction.tokenAddress,
+                      transaction.data,
+                  ),
+                  gasLimit: BigInt(transaction.gasLimit),
+                  ...fees,
+              })
+            : null;
+
+        if (!signed) {
+            await this.transition(transaction._id, TransactionStatus.DROPPED, {
+                actor: LIFECYCLE_ACTOR,
+                reason: `No signing key for ${transaction.fromAddress}`,
+            });
+            return null;
+        }
+
+        const updated = await this.transactionModel
+            .findOneAndUpdate(
+                { _id: transaction._id, status: transaction.status, rawTransaction: null },
+                {
+                    $set: {
+                        rawTransaction: signed.raw,
+                        gasPrice: fees.gasPrice !== undefined ? toDecimal128(fees.gasPrice) : undefined,
+                        maxFeePerGas: fees.maxFeePerGas !== undefined ? toDecimal128(fees.maxFeePerGas) : undefined,
+                        maxPriorityFeePerGas:
+                            fees.maxPriorityFeePerGas !== undefined ? toDecimal128(fees.maxPriorityFeePerGas) : undefined,
+                    },
+                },
+                { new: true },
+            )
+            .exec();
+        if (!updated) {
+            throw new ConflictException(`Transaction ${transaction._id} changed while it was being signed`);
+        }
+        return updated;
+    }
+
+    private async signingFees(transaction: TransactionDocument): Promise<FeeFields> {
+        const fees = storedFees(transaction);
+        if (fees.gasPrice !== undefined || isEip1559(fees)) {
+            return fees;
+        }
+        const chain = await this.networks.provider(transaction.chainId);
+        return networkFees(await chain.getFeeData());
+    }
+
+    /**
+     * Checks for a receipt and settles the transaction once it is
+     * `requiredConfirmations` blocks deep; until then the receipt data and
+     * confirmation count are kept up to date. Without a receipt, checks again
+     * later until `dropTimeoutMs` after submission, when the transaction is
+     * presumed evicted from the mempool.
+     */
+    private async settle(transactionId: Types.ObjectId): Promise<NextStep | null> {
+        const transaction = await this.findTransaction(transactionId);
+        if (transaction.status !== TransactionStatus.SUBMITTED) {
+            throw new ConflictException(`Cannot settle a transaction that is ${transaction.status}`);
+        }
+
+        const chain = await this.networks.provider(transaction.chainId);
+        const receipt = transaction.hash ? await chain.getReceipt(transaction.hash) : null;
+        if (!receipt) {
+            if (transaction.blockNumber !== undefined && transaction.blockNumber !== null) {
+                // The block it was mined in is no longer canonical
+                this.logger.warn(`Transaction ${transaction._id} left block ${transaction.blockNumber} in a reorg`);
+                await this.updateReceipt(transaction, null);
+            }
+
+            const submittedAt = [...transaction.statusHistory]
+                .reverse()
+                .find((change) => change.status === TransactionStatus.SUBMITTED)?.timestamp;
+            const waitedMs = Date.now() - (submittedAt ?? transaction.updatedAt).getTime();
+            if (waitedMs < this.settings.dropTimeoutMs) {
+                return { action: LifecycleAction.SETTLE, delayMs: this.settings.receiptPollIntervalMs };
+            }
+
+            await this.transition(transaction._id, TransactionStatus.DROPPED, {
+                actor: LIFECYCLE_ACTOR,
+                reason: `Not mined within ${Math.round(this.settings.dropTimeoutMs / 1000)}s; presumed dropped`,
+            });
+            return null;
+        }
+
+        const head = await chain.getBlockNumber();
+        const confirmations = Math.max(0, head - receipt.blockNumber + 1);
+        const succeeded = receipt.status === 'success';
+        const receiptFields = {
+            blockNumber: receipt.blockNumber,
+            blockHash: receipt.blockHash,
+            gasUsed: receipt.gasUsed.toString(),
+            effectiveGasPrice: toDecimal128(receipt.effectiveGasPrice),
+            confirmations,
+        };
+
+        if (confirmations < this.settings.requiredConfirmations) {
+            await this.updateReceipt(transaction, receiptFields);
+            return { action: LifecycleAction.SETTLE, delayMs: this.settings.receiptPollIntervalMs };
+        }
+
+        const settled = await this.transition(
+            transaction._id,
+            succeeded ? TransactionStatus.CONFIRMED : TransactionStatus.FAILED,
+            {
+                actor: LIFECYCLE_ACTOR,
+                reason: succeeded
+                    ? `Included in block ${receipt.blockNumber} (${confirmations} confirmation(s))`
+                    : receipt.revertReason ?? `Reverted in block ${receipt.blockNumber}`,
+            },
+            receiptFields,
+        );
+        // Failed transactions are mined too, so either way the nonce is spent
+        await this.resolveNonce(settled);
+        return null;
+    }
+
+    // Stores receipt data on a transaction still awaiting finality, or clears it when `fields` is null
+    private async updateReceipt(transaction: TransactionDocument, fields: Record<string, unknown> | null) {
+        const unchanged =
+            fields !== null &&
+            transaction.blockHash === fields.blockHash &&
+            transaction.confirmations === fields.confirmations;
+        if (unchanged) return;
+
+        const update = fields
+            ? { $set: fields }
+            : { $unset: { blockNumber: 1, blockHash: 1, gasUsed: 1, effectiveGasPrice: 1, confirmations: 1 } };
+        const updated = await this.transactionModel
+            .findOneAndUpdate({ _id: transaction._id, status: TransactionStatus.SUBMITTED }, update, { new: true })
+            .exec();
+        if (updated) {
+            this.transactionsGateway.emitUpdated(updated);
+        }
+    }
+
+    /**
+     * Reports a dropped transaction whose nonce nothing else can use, leaving
+     * later transactions from the sender stuck. Failed transactions were mined,
+     * so their nonce is spent and they never leave a gap.
+     */
+    private async checkNonceGap(dropped: TransactionDocument) {
+        try {
+            const gaps = await this.nonces.findGaps(dropped.fromAddress, dropped.chainId);
+            if (!gaps.includes(dropped.nonce)) return;
+            this.logger.warn(
+                `Nonce gap for ${dropped.fromAddress} at ${dropped.nonce}: later transactions cannot be mined until it is used`,
+            );
+            this.transactionsGateway.emitNonceGap(dropped);
+        } catch (error) {
+            this.logger.warn(`Could not check ${dropped._id} for a nonce gap: ${error.message}`);
+        }
+    }
+
+    /**
+     * Settles the other transactions that shared a mined transaction's nonce.
+     * Those it replaced (directly or through earlier replacements) become
+     * `replaced`; any other contender can never be mined and is dropped.
+     */
+    private async resolveNonce(mined: TransactionDocument) {
+        const sameNonce = await this.transactionModel
+            .find({
+                fromAddress: mined.fromAddress,
+                chainId: mined.chainId,
+                nonce: mined.nonce,
+                _id: { $ne: mined._id },
+            })
+            .exec();
+        const contenders = sameNonce.filter(
+            (tx) => tx.status === TransactionStatus.PENDING || tx.status === TransactionStatus.SUBMITTED,
+        );
+        if (contenders.length === 0) return;
+
+        const replacesById = new Map(sameNonce.map((tx) => [tx._id.toString(), tx.replacesId?.toString()]));
+        const superseded = new Set<string>();
+        for (let id = mined.replacesId?.toString(); id && !superseded.has(id); id = replacesById.get(id)) {
+            superseded.add(id);
+        }
+
+        for (const tx of contenders) {
+            const replaced = superseded.has(tx._id.toString());
+            try {
+                await this.transition(tx._id, replaced ? TransactionStatus.REPLACED : TransactionStatus.DROPPED, {
+                    actor: LIFECYCLE_ACTOR,
+                    reason: replaced
+                        ? `Replaced by ${mined._id}`
+                        : `Nonce ${mined.nonce} already used by ${mined._id}`,
+                });
+                await this.jobModel.deleteOne({ transactionId: tx._id }).exec();
+            } catch (error) {
+                this.logger.warn(`Could not settle ${tx._id} after ${mined._id} was mined: ${error.message}`);
+            }
+        }
+    }
+}
@@ -0,0 +1,35 @@
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { buildCursorFilter, buildTransactionFilter, encodeCursor } from './transaction-query';
+
+const id = new Types.ObjectId();
+const cursor = (v: string) => Buffer.from(JSON.stringify({ v, id: id.toString() })).toString('base64url');
+
+describe('buildCursorFilter', () => {
+    it('continues after the document a cursor encodes', () => {
+        const createdAt = new Date('2024-03-14T15:09:26.535Z');
+        const filter = buildCursorFilter('date', 'desc', encodeCursor('date', { _id: id, createdAt }));
+        expect(filter).toEqual({
+            $or: [{ createdAt: { $lt: createdAt } }, { createdAt, _id: { $lt: id } }],
+        });
+    });
+
+    it('accepts amounts as Decimal128 prints them', () => {
+        expect(() => buildCursorFilter('amount', 'asc', cursor('1000000000000000000'))).not.toThrow();
+        expect(() => buildCursorFilter('amount', 'asc', cursor('1.0E+18'))).not.toThrow();
+    });
+
+    it('rejects tampered values with a 400', () => {
+        expect(() => buildCursorFilter('date', 'desc', cursor('yesterday'))).toThrow(BadRequestException);
+        expect(() => buildCursorFilter('amount', 'desc', cursor('lots'))).toThrow(BadRequestException);
+        expect(() => buildCursorFilter('status', 'desc', cursor('lost'))).toThrow(BadRequestException);
+        expect(() => buildCursorFilter('date', 'desc', 'not-a-cursor')).toThrow('Invalid cursor');
+    });
+});
+
+describe('buildTransactionFilter', () => {
+    it('says why an amount bound cannot be used', () => {
+        expect(() => buildTransactionFilter({ minAmount: '1.5' }, 0)).toThrow('has more than 0 decimal places');
+        expect(() => buildTransactionFilter({ maxAmount: '10000000000000000' })).toThrow('is too large');
+    });
+});
@@ -0,0 +1,151 @@
+import { BadRequestException } from '@nestjs/common';
+import { FilterQuery, SortOrder as MongoSortOrder, Types } from 'mongoose';
+import { TransactionDocument, TransactionStatus } from './schemas/transaction.schema';
+import { SortOrder, TransactionSortField } from './dto/list-transactions-query.dto';
+import { TransactionFilterDto } from './dto/transaction-filter.dto';
+import { ETH_DECIMALS, MAX_BASE_UNITS, parseUnits, toDecimal128 } from '../common/units';
+import { toChecksumAddress } from '../chain/address';
+
+// Amounts are stored as Decimal128 wei, so they sort and compare numerically
+const SORT_KEYS: Record<TransactionSortField, string> = {
+    date: 'createdAt',
+    amount: 'amount',
+    status: 'status',
+};
+
+type CursorPayload = {
+    v: string;
+    id: string;
+};
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function amountBound(value: string, decimals: number) {
+    let units: bigint;
+    try {
+        units = parseUnits(value, decimals);
+    } catch {
+        throw new BadRequestException(`Amount ${value} has more than ${decimals} decimal places`);
+    }
+    if (units > MAX_BASE_UNITS) {
+        throw new BadRequestException(`Amount ${value} is too large; amounts are stored with at most 34 digits`);
+    }
+    return toDecimal128(units);
+}
+
+/**
+ * `decimals` scales the amount range, so it should be the filtered asset's;
+ * amounts of different assets are not comparable anyway.
+ */
+export function buildTransactionFilter(
+    query: TransactionFilterDto,
+    decimals = ETH_DECIMALS,
+): FilterQuery<TransactionDocument> {
+    const filter: FilterQuery<TransactionDocument> = {};
+
+    if (query.chainId) {
+        filter.chainId = query.chainId;
+    }
+
+    // null also matches transactions stored before tokens existed, which lack the field
+    if (query.asset) {
+        filter.tokenAddress = query.asset === 'native' ? null : toChecksumAddress(query.asset);
+    }
+
+    if (query.status) {
+        filter.status = query.status;
+    }
+
+    if (query.from || query.to) {
+        filter.createdAt = {};
+        if (query.from) filter.createdAt.$gte = new Date(query.from);
+        if (query.to) filter.createdAt.$lte = new Date(query.to);
+    }
+
+    if (query.address) {
+        const pattern = new RegExp(escapeRegex(query.address), 'i');
+        filter.$or = [{ fromAddress: pattern }, { toAddress: pattern }];
+    }
+
+    if (query.fromAddress) {
+        filter.fromAddress = new RegExp(escapeRegex(query.fromAddress), 'i');
+    }
+
+    if (query.toAddress) {
+        filter.toAddress = new RegExp(escapeRegex(query.toAddress), 'i');
+    }
+
+    if (query.minAmount || query.maxAmount) {
+        filter.amount = {};
+        if (query.minAmount) filter.amount.$gte = amountBound(query.minAmount, decimals);
+        if (query.maxAmount) filter.amount.$lte = amountBound(query.maxAmount, decimals);
+    }
+
+    return filter;
+}
+
+export function encodeCursor(sortBy: TransactionSortField, doc: Record<string, any>): string {
+    const value = doc[SORT_KEYS[sortBy]];
+    const payload: CursorPayload = {
+        v: value instanceof Date ? value.toISOString() : String(value),
+        id: doc._id.toString(),
+    };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+// Cursors come back from the client, so their values are checked before they reach a query
+function decodeCursorValue(sortBy: TransactionSortField, raw: string) {
+    switch (sortBy) {
+        case 'date': {
+            const date = new Date(raw);
+            if (isNaN(date.getTime())) throw new BadRequestException('Invalid cursor');
+            return date;
+        }
+        case 'amount':
+            // As Decimal128 prints, which may use exponent notation
+            if (!/^\d+(\.\d+)?(E[+-]?\d+)?$/i.test(raw)) throw new BadRequestException('Invalid cursor');
+            return Types.Decimal128.fromString(raw);
+        default:
+            if (!(Object.values(TransactionStatus) as string[]).includes(raw)) {
+                throw new BadRequestException('Invalid cursor');
+            }
+            return raw;
+    }
+}
+
+/**
+ * Keyset condition selecting the documents that come after the cursor in the
+ * requested sort order. `_id` breaks ties so pages never overlap.
+ */
+export function buildCursorFilter(
+    sortBy: TransactionSortField,
+    order: SortOrder,
+    cursor: string,
+): Record<string, any> {
+    let payload: CursorPayload;
+    try {
+        payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    } catch {
+        throw new BadRequestException('Invalid cursor');
+    }
+
+    if (!payload || typeof payload.v !== 'string' || !Types.ObjectId.isValid(payload.id)) {
+        throw new BadRequestException('Invalid cursor');
+    }
+
+    const key = SORT_KEYS[sortBy];
+    const op = order === 'asc' ? '$gt' : '$lt';
+    const value = decodeCursorValue(sortBy, payload.v);
+    const id = new Types.ObjectId(payload.id);
+
+    return {
+        $or: [{ [key]: { [op]: value } }, { [key]: value, _id: { [op]: id } }],
+    };
+}
+
+export function buildSort(sortBy: TransactionSortField, order: SortOrder): Record<string, MongoSortOrder> {
+    const direction = order === 'asc' ? 1 : -1;
+    return { [SORT_KEYS[sortBy]]: direction, _id: direction };
+}
@@ -0,0 +1,89 @@
+import { StatusChange, TransactionDocument } from './schemas/transaction.schema';
+import { fromDecimal128 } from '../common/units';
+import { formatBalance } from '../accounts/account-response';
+import { toChecksumAddress } from '../chain/address';
+import type { SimulationResult } from './transactions.service';
+
+export function formatTransaction(transaction: TransactionDocument) {
+    return {
+        id: transaction._id.toString(),
+        hash: transaction.hash ?? null,
+        rawTransaction: transaction.rawTransaction ?? null,
+        chainId: transaction.chainId,
+        fromAddress: toChecksumAddress(transaction.fromAddress),
+        fromAccountId: transaction.fromAccountId?.toString() ?? null,
+        toAddress: toChecksumAddress(transaction.toAddress),
+        tokenAddress: transaction.tokenAddress ?? null,
+        data: transaction.data ?? null,
+        amount: fromDecimal128(transaction.amount).toString(),
+        status: transaction.status,
+        gasLimit: transaction.gasLimit,
+        type: transaction.maxFeePerGas ? 'eip1559' : 'legacy',
+        gasPrice: transaction.gasPrice ? fromDecimal128(transaction.gasPrice).toString() : undefined,
+        maxFeePerGas: transaction.maxFeePerGas ? fromDecimal128(transaction.maxFeePerGas).toString() : undefined,
+        maxPriorityFeePerGas: transaction.maxPriorityFeePerGas
+            ? fromDecimal128(transaction.maxPriorityFeePerGas).toString()
+            : undefined,
+        blockNumber: transaction.blockNumber ?? null,
+        blockHash: transaction.blockHash ?? null,
+        gasUsed: transaction.gasUsed ?? null,
+        effectiveGasPrice: transaction.effectiveGasPrice ? fromDecimal128(transaction.effectiveGasPrice).toString() : null,
+        // Actual fee in wei: gasUsed x effectiveGasPrice
+        fee:
+            transaction.gasUsed && transaction.effectiveGasPrice
+                ? (BigInt(transaction.gasUsed) * fromDecimal128(transaction.effectiveGasPrice)).toString()
+                : null,
+        confirmations: transaction.confirmations ?? 0,
+        failureReason: transaction.failureReason ?? null,
+        nonce: transaction.nonce,
+        replacesId: transaction.replacesId?.toString(),
+        replacementType: transaction.replacementType,
+        timestamp: (transaction.createdAt || new Date()).toISOString(),
+    };
+}
+
+export type TransactionResponse = ReturnType<typeof formatTransaction>;
+
+export function formatStatusChange(change: StatusChange) {
+    return {
+        timestamp: change.timestamp.toISOString(),
+        previousStatus: change.previousStatus ?? null,
+        status: change.status,
+        actor: change.actor,
+        reason: change.reason ?? null,
+    };
+}
+
+// Amounts and fees are integer base units and wei, as decimal strings
+export function formatSimulation(simulation: SimulationResult) {
+    const { fee } = simulation;
+    return {
+        valid: simulation.valid,
+        errors: simulation.errors,
+        violations: simulation.violations,
+        warnings: simulation.warnings,
+        fromAddress: simulation.fromAddress,
+        chainId: simulation.chainId,
+        nonce: simulation.nonce,
+        gasEstimate: simulation.gasEstimate?.toString() ?? null,
+        fee: fee
+            ? {
+                gasLimit: fee.gasLimit.toString(),
+                type: fee.fees.maxFeePerGas !== undefined ? 'eip1559' : 'legacy',
+                gasPrice: fee.fees.gasPrice?.toString(),
+                maxFeePerGas: fee.fees.maxFeePerGas?.toString(),
+                maxPriorityFeePerGas: fee.fees.maxPriorityFeePerGas?.toString(),
+                baseFeePerGas: fee.baseFeePerGas?.toString() ?? null,
+                maxFee: fee.maxFee.toString(),
+                estimatedFee: fee.estimatedFee.toString(),
+            }
+            : null,
+        // What each asset the transaction spends would have left
+        balances: simulation.balances.map(({ balance, spend, remaining }) => ({
+            ...formatBalance(balance),
+            spend: spend.toString(),
+            remaining: remaining.toString(),
+        })),
+        duplicates: simulation.duplicates.map((transaction) => formatTransaction(transaction)),
+    };
+}
@@ -0,0 +1,40 @@
+import { TransactionStatus } from './schemas/transaction.schema';
+import { allowedPredecessors, canTransition, isTerminalStatus } from './transaction-state-machine';
+
+describe('transaction state machine', () => {
+    it('follows a transaction from pending to mined', () => {
+        expect(canTransition(TransactionStatus.PENDING, TransactionStatus.SUBMITTED)).toBe(true);
+        expect(canTransition(TransactionStatus.SUBMITTED, TransactionStatus.CONFIRMED)).toBe(true);
+        expect(canTransition(TransactionStatus.SUBMITTED, TransactionStatus.FAILED)).toBe(true);
+    });
+
+    it('only fails transactions that were broadcast, as only those can be mined', () => {
+        expect(canTransition(TransactionStatus.PENDING, TransactionStatus.FAILED)).toBe(false);
+        expect(canTransition(TransactionStatus.PENDING, TransactionStatus.CONFIRMED)).toBe(false);
+        expect(allowedPredecessors(TransactionStatus.FAILED)).toEqual([TransactionStatus.SUBMITTED]);
+    });
+
+    it('drops or replaces unfinished transactions', () => {
+        expect(allowedPredecessors(TransactionStatus.DROPPED)).toEqual([
+            TransactionStatus.PENDING,
+            TransactionStatus.SUBMITTED,
+        ]);
+        expect(allowedPredecessors(TransactionStatus.REPLACED)).toEqual([
+            TransactionStatus.PENDING,
+            TransactionStatus.SUBMITTED,
+        ]);
+    });
+
+    it('never leaves a terminal status', () => {
+        for (const status of [
+            TransactionStatus.CONFIRMED,
+            TransactionStatus.FAILED,
+            TransactionStatus.DROPPED,
+            TransactionStatus.REPLACED,
+        ]) {
+            expect(isTerminalStatus(status)).toBe(true);
+            expect(canTransition(status, TransactionStatus.PENDING)).toBe(false);
+        }
+        expect(isTerminalStatus(TransactionStatus.SUBMITTED)).toBe(false);
+    });
+});
@@ -0,0 +1,42 @@
+import { TransactionStatus } from './schemas/transaction.schema';
+
+/**
+ * Allowed status transitions. Terminal statuses have no outgoing edges.
+ *
+ *   pending -> submitted -> confirmed | failed | dropped
+ *   pending -> dropped (rejected before broadcast)
+ *   pending | submitted -> replaced (a replacement with the same nonce was mined)
+ *
+ * Only a mined transaction can fail, so a failure always spends its nonce;
+ * one that never got that far is dropped, which checks for a nonce gap.
+ */
+export const TRANSACTION_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  [TransactionStatus.PENDING]: [
+    TransactionStatus.SUBMITTED,
+    TransactionStatus.DROPPED,
+    TransactionStatus.REPLACED,
+  ],
+  [TransactionStatus.SUBMITTED]: [
+    TransactionStatus.CONFIRMED,
+    TransactionStatus.FAILED,
+    TransactionStatus.DROPPED,
+    TransactionStatus.REPLACED,
+  ],
+  [TransactionStatus.CONFIRMED]: [],
+  [TransactionStatus.FAILED]: [],
+  [TransactionStatus.DROPPED]: [],
+  [TransactionStatus.REPLACED]: [],
+};
+
+export function canTransition(from: TransactionStatus, to: TransactionStatus): boolean {
+  return TRANSACTION_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// Statuses a transaction may be in for a move to `to` to be legal
+export function allowedPredecessors(to: TransactionStatus): TransactionStatus[] {
+  return (Object.keys(TRANSACTION_TRANSITIONS) as TransactionStatus[]).filter((from) => canTransition(from, to));
+}
+
+export function isTerminalStatus(status: TransactionStatus): boolean {
+  return TRANSACTION_TRANSITIONS[status].length === 0;
+}
@@ -4,30 +4,87 @@ import {
     Post,
     Body,
     Param,
+    Query,
+    Headers,
+    Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { TransactionsService } from './transactions.service';
+import { IdempotencyService } from '../idempotency/idempotency.service';
 import { CreateTransactionDto } from './dto/create-transaction.dto';
-import { TransactionDocument } from './schemas/transaction.schema';
+import { ListTransactionsQueryDto } from './dto/list-transactions-query.dto';
+import { ReplaceTransactionDto } from './dto/replace-transaction.dto';
+import { BulkCreateTransactionsDto } from './dto/bulk-create-transactions.dto';
+import { formatSimulation, formatStatusChange, formatTransaction } from './transaction-response';
+import { formatDecodedCall } from '../abis/abi-response';
 
 @Controller('transactions')
 export class TransactionsController {
-    constructor(private readonly transactionsService: TransactionsService) { }
+    constructor(
+        private readonly transactionsService: TransactionsService,
+        private readonly idempotencyService: IdempotencyService,
+    ) { }
 
     @Post()
-    async create(@Body() createTransactionDto: CreateTransactionDto) {
-        const transaction = await this.transactionsService.create(createTransactionDto);
+    async create(
+        @Body() createTransactionDto: CreateTransactionDto,
+        @Headers('idempotency-key') idempotencyKey: string | undefined,
+        @Res({ passthrough: true }) res: Response,
+    ) {
+        const handler = async () => {
+            const transaction = await this.transactionsService.create(createTransactionDto);
+            return {
+                success: true,
+                data: formatTransaction(transaction),
+            };
+        };
+
+        if (idempotencyKey === undefined) {
+            return handler();
+        }
+
+        const { response, replayed } = await this.idempotencyService.execute(
+            idempotencyKey,
+            'POST /transactions',
+            createTransactionDto,
+            handler,
+        );
+        res.setHeader('Idempotent-Replayed', String(replayed));
+        return response;
+    }
+
+    // Takes a create body and reports what creating it would do; the body is checked by the service, not the pipe
+    @Post('simulate')
+    async simulate(@Body() body: unknown) {
+        const simulation = await this.transactionsService.simulate(body);
+        return {
+            success: true,
+            data: formatSimulation(simulation),
+        };
+    }
+
+    @Post('bulk')
+    async createBulk(@Body() bulkCreateTransactionsDto: BulkCreateTransactionsDto) {
+        const result = await this.transactionsService.createBulk(bulkCreateTransactionsDto);
         return {
             success: true,
-            data: this.formatTransaction(transaction),
+            data: {
+                ...result,
+                results: result.results.map((row) =>
+                    row.status === 'created' ? { ...row, transaction: formatTransaction(row.transaction) } : row,
+                ),
+            },
         };
     }
 
     @Get()
-    async findAll() {
-        const transactions = await this.transactionsService.findAll();
+    async findAll(@Query() query: ListTransactionsQueryDto) {
+        const page = await this.transactionsService.findAll(query);
         return {
             success: true,
-            data: transactions.map((tx) => this.formatTransaction(tx)),
+            data: page.items.map((tx) => formatTransaction(tx)),
+            nextCursor: page.nextCursor,
+            totalCount: page.totalCount,
         };
     }
 
@@ -36,21 +93,44 @@ export class TransactionsController {
         const transaction = await this.transactionsService.findOne(id);
         return {
             success: true,
-            data: this.formatTransaction(transaction),
+            data: formatTransaction(transaction),
         };
     }
 
-    private formatTransaction(transaction: TransactionDocument) {
+    @Post(':id/cancel')
+    async cancel(@Param('id') id: string, @Body() replaceTransactionDto: ReplaceTransactionDto) {
+        const transaction = await this.transactionsService.cancel(id, replaceTransactionDto);
         return {
-            id: transaction._id.toString(),
-            hash: transaction.hash,
-            fromAddress: transaction.fromAddress,
-            toAddress: transaction.toAddress,
-            amount: transaction.amount,
-            status: transaction.status,
-            gasLimit: transaction.gasLimit,
-            gasPrice: transaction.gasPrice,
-            timestamp: (transaction.createdAt || new Date()).toISOString(),
+            success: true,
+            data: formatTransaction(transaction),
+        };
+    }
+
+    @Post(':id/speed-up')
+    async speedUp(@Param('id') id: string, @Body() replaceTransactionDto: ReplaceTransactionDto) {
+        const transaction = await this.transactionsService.speedUp(id, replaceTransactionDto);
+        return {
+            success: true,
+            data: formatTransaction(transaction),
+        };
+    }
+
+    @Get(':id/history')
+    async getHistory(@Param('id') id: string) {
+        const transaction = await this.transactionsService.findOne(id);
+        return {
+            success: true,
+            data: (transaction.statusHistory || []).map((change) => formatStatusChange(change)),
+        };
+    }
+
+    // The contract call the transaction makes, decoded; null when no uploaded ABI has its function
+    @Get(':id/call')
+    async getCall(@Param('id') id: string) {
+        const call = await this.transactionsService.decodeCall(id);
+        return {
+            success: true,
+            data: call ? formatDecodedCall(call) : null,
         };
     }
 }
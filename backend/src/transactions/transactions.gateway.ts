@@ -0,0 +1,59 @@
+import { Logger } from '@nestjs/common';
+import { OnGatewayConnection, OnGatewayDisconnect, WebSocketGateway, WebSocketServer } from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { corsOptions } from '../config/cors.config';
+import { TransactionDocument, TransactionStatus } from './schemas/transaction.schema';
+import { formatTransaction } from './transaction-response';
+import { toChecksumAddress } from '../chain/address';
+
+export const TRANSACTION_EVENTS = {
+    CREATED: 'transaction.created',
+    STATUS_CHANGED: 'transaction.statusChanged',
+    UPDATED: 'transaction.updated',
+    NONCE_GAP: 'transaction.nonceGap',
+} as const;
+
+@WebSocketGateway({ cors: corsOptions })
+export class TransactionsGateway implements OnGatewayConnection, OnGatewayDisconnect {
+    private readonly logger = new Logger(TransactionsGateway.name);
+
+    @WebSocketServer()
+    server: Server;
+
+    handleConnection(client: Socket) {
+        this.logger.debug(`Client connected: ${client.id}`);
+    }
+
+    handleDisconnect(client: Socket) {
+        this.logger.debug(`Client disconnected: ${client.id}`);
+    }
+
+    emitCreated(transaction: TransactionDocument) {
+        this.server?.emit(TRANSACTION_EVENTS.CREATED, {
+            transaction: formatTransaction(transaction),
+        });
+    }
+
+    emitStatusChanged(transaction: TransactionDocument, previousStatus: TransactionStatus) {
+        this.server?.emit(TRANSACTION_EVENTS.STATUS_CHANGED, {
+            transaction: formatTransaction(transaction),
+            previousStatus,
+        });
+    }
+
+    // Other changes, e.g. receipt data and confirmations while a transaction awaits finality
+    emitUpdated(transaction: TransactionDocument) {
+        this.server?.emit(TRANSACTION_EVENTS.UPDATED, {
+            transaction: formatTransaction(transaction),
+        });
+    }
+
+    // A dropped transaction left its nonce unused while later ones from the same sender wait
+    emitNonceGap(transaction: TransactionDocument) {
+        this.server?.emit(TRANSACTION_EVENTS.NONCE_GAP, {
+            transaction: formatTransaction(transaction),
+            fromAddress: toChecksumAddress(transaction.fromAddress),
+            nonce: transaction.nonce,
+        });
+    }
+}
@@ -1,17 +1,31 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { TransactionsService } from './transactions.service';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { NetworksModule } from '../networks/networks.module';
+import { AccountsModule } from '../accounts/accounts.module';
+import { TokensModule } from '../tokens/tokens.module';
+import { AbisModule } from '../abis/abis.module';
 import { TransactionsController } from './transactions.controller';
+import { TransactionsGateway } from './transactions.gateway';
+import { TransactionLifecycleService } from './transaction-lifecycle.service';
 import { Transaction, TransactionSchema } from './schemas/transaction.schema';
+import { LifecycleJob, LifecycleJobSchema } from './schemas/lifecycle-job.schema';
 
 @Module({
     imports: [
         MongooseModule.forFeature([
             { name: Transaction.name, schema: TransactionSchema },
+            { name: LifecycleJob.name, schema: LifecycleJobSchema },
         ]),
+        IdempotencyModule,
+        NetworksModule,
+        AccountsModule,
+        TokensModule,
+        AbisModule,
     ],
     controllers: [TransactionsController],
-    providers: [TransactionsService],
+    providers: [TransactionsService, TransactionsGateway, TransactionLifecycleService],
     exports: [TransactionsService],
 })
 export class TransactionsModule { }
@@ -0,0 +1,129 @@
+import { BadRequestException, UnprocessableEntityException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Model, Mongoose, Types } from 'mongoose';
+import { TransactionsService } from './transactions.service';
+import { Transaction, TransactionDocument, TransactionSchema } from './schemas/transaction.schema';
+
+const SENDERS = {
+    [new Types.ObjectId().toString()]: '0x00000000000000000000000000000000000000Aa',
+    [new Types.ObjectId().toString()]: '0x00000000000000000000000000000000000000bB',
+};
+const [ALICE, BOB] = Object.keys(SENDERS);
+const RECIPIENT = '0x00000000000000000000000000000000000000cc';
+
+const row = (fromAccountId: string, chainId = 1) => ({
+    fromAccountId,
+    chainId,
+    toAddress: RECIPIENT,
+    amount: '0.1',
+    gasLimit: '21000',
+});
+
+/**
+ * A real Transaction model without a connection, so documents are built and
+ * validated as in the app while the writes are stubbed. Nonces are handed out
+ * from a counter per sender and network.
+ */
+function setup() {
+    const transactionModel = new Mongoose().model(Transaction.name, TransactionSchema) as Model<TransactionDocument>;
+    const insertMany = jest.spyOn(transactionModel, 'insertMany').mockResolvedValue([] as never);
+    const deleteMany = jest
+        .spyOn(transactionModel, 'deleteMany')
+        .mockReturnValue({ exec: jest.fn().mockResolvedValue({ deletedCount: 0 }) } as never);
+
+    const counters = new Map<string, number>();
+    const locks: string[] = [];
+    const nonces = {
+        allocate: jest.fn(async (address: string, chainId: number, count = 1) => {
+            const next = counters.get(`${address}:${chainId}`) ?? 0;
+            counters.set(`${address}:${chainId}`, next + count);
+            return next;
+        }),
+        release: jest.fn(async () => undefined),
+        withSenderLock: jest.fn(async (address: string, chainId: number, work: () => Promise<unknown>) => {
+            locks.push(`${address}:${chainId}`);
+            return work();
+        }),
+    };
+    const balances = { assertAffordable: jest.fn(async () => undefined) };
+    const lifecycle = { enqueue: jest.fn(async () => undefined) };
+    const gateway = { emitCreated: jest.fn() };
+    const accounts = {
+        findSender: async (id: string) => (SENDERS[id] ? { _id: new Types.ObjectId(id), address: SENDERS[id] } : null),
+    };
+    const networks = {
+        resolve: async (chainId = 1) => ({ chainId }),
+        provider: async () => ({ estimateGas: async () => 21_000n }),
+    };
+
+    const service = new TransactionsService(
+        transactionModel,
+        gateway as never,
+        lifecycle as never,
+        networks as never,
+        {} as never,
+        {} as never,
+        nonces as never,
+        accounts as never,
+        balances as never,
+        new ConfigService({}),
+    );
+    return { service, insertMany, deleteMany, nonces, locks, balances, lifecycle };
+}
+
+describe('TransactionsService.createBulk (atomic)', () => {
+    it('gives each sender on each network consecutive nonces and creates every row', async () => {
+        const { service, insertMany, nonces, locks, lifecycle } = setup();
+
+        const result = await service.createBulk({
+            transactions: [row(ALICE), row(BOB), row(ALICE), row(ALICE, 2)],
+        });
+
+        expect(result).toMatchObject({ mode: 'atomic', createdCount: 4, failedCount: 0 });
+        expect(result.results.map((r) => r.status === 'created' && r.transaction.nonce)).toEqual([0, 0, 1, 0]);
+        expect(nonces.allocate).toHaveBeenCalledWith(SENDERS[ALICE], 1, 2);
+        expect(insertMany).toHaveBeenCalledTimes(1);
+        // Every sender is locked, always in the same order
+        expect(locks).toEqual([`${SENDERS[ALICE]}:1`, `${SENDERS[ALICE]}:2`, `${SENDERS[BOB]}:1`].sort());
+        expect(lifecycle.enqueue).toHaveBeenCalledTimes(4);
+    });
+
+    it('undoes the insert and hands every nonce back when saving fails', async () => {
+        const { service, insertMany, deleteMany, nonces, lifecycle } = setup();
+        insertMany.mockRejectedValueOnce(new Error('connection lost'));
+
+        await expect(service.createBulk({ transactions: [row(ALICE), row(BOB), row(ALICE)] })).rejects.toThrow(
+            'connection lost',
+        );
+
+        const [filter] = deleteMany.mock.calls[0] as unknown as [{ _id: { $in: Types.ObjectId[] } }];
+        expect(filter._id.$in).toHaveLength(3);
+        expect(nonces.release).toHaveBeenCalledWith(SENDERS[ALICE], 1, 0, 2);
+        expect(nonces.release).toHaveBeenCalledWith(SENDERS[BOB], 1, 0, 1);
+        expect(lifecycle.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('takes no nonce when the senders cannot afford the batch', async () => {
+        const { service, insertMany, nonces, balances } = setup();
+        balances.assertAffordable.mockRejectedValueOnce(new BadRequestException('Insufficient funds'));
+
+        await expect(service.createBulk({ transactions: [row(ALICE), row(ALICE)] })).rejects.toThrow(
+            'Insufficient funds',
+        );
+        expect(nonces.allocate).not.toHaveBeenCalled();
+        expect(insertMany).not.toHaveBeenCalled();
+    });
+
+    it('creates nothing when any row is invalid', async () => {
+        const { service, insertMany, locks } = setup();
+
+        const attempt = service.createBulk({ transactions: [row(ALICE), { ...row(BOB), amount: 'lots' }] });
+
+        await expect(attempt).rejects.toThrow(UnprocessableEntityException);
+        await expect(attempt).rejects.toMatchObject({
+            response: { results: [{ index: 0, status: 'skipped' }, { index: 1, status: 'invalid' }] },
+        });
+        expect(locks).toEqual([]);
+        expect(insertMany).not.toHaveBeenCalled();
+    });
+});
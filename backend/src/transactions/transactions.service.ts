@@ -1,19 +1,142 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+    BadRequestException,
+    ConflictException,
+    HttpException,
+    Injectable,
+    Logger,
+    NotFoundException,
+    OnApplicationBootstrap,
+    UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
+import { FilterQuery, Model } from 'mongoose';
 import {
+    ReplacementType,
     Transaction,
     TransactionDocument,
     TransactionStatus,
 } from './schemas/transaction.schema';
 import { CreateTransactionDto } from './dto/create-transaction.dto';
+import { ReplaceTransactionDto } from './dto/replace-transaction.dto';
+import { BulkCreateTransactionsDto, BulkMode } from './dto/bulk-create-transactions.dto';
+import { ListTransactionsQueryDto } from './dto/list-transactions-query.dto';
+import { TransactionsGateway } from './transactions.gateway';
+import { TransactionLifecycleService } from './transaction-lifecycle.service';
+import {
+    buildCursorFilter,
+    buildSort,
+    buildTransactionFilter,
+    encodeCursor,
+} from './transaction-query';
+import { ETH_DECIMALS, fromDecimal128, parseUnits, toDecimal128 } from '../common/units';
+import { validateDto } from '../common/validate-dto';
+import { readNumber } from '../common/config';
+import { NonceService } from '../accounts/nonce.service';
+import { AccountsService } from '../accounts/accounts.service';
+import { BalanceProjection, BalanceService, insufficientFunds } from '../accounts/balance.service';
+import { AccountDocument } from '../accounts/schemas/account.schema';
+import { NetworksService } from '../networks/networks.service';
+import { TokensService } from '../tokens/tokens.service';
+import { TokenDocument } from '../tokens/schemas/token.schema';
+import { AbisService, DecodedCall } from '../abis/abis.service';
+import { toChecksumAddress } from '../chain/address';
+import { transferCall } from '../chain/erc20';
+import { FeeData } from '../chain/chain-provider.interface';
+import {
+    bumpedFee,
+    FeeBid,
+    feeBid,
+    FeeFields,
+    effectiveGasPrice,
+    isEip1559,
+    networkFees,
+    outbids,
+    REPLACEMENT_BUMP_PERCENT,
+} from '../chain/fee-bid';
+
+const CANCEL_GAS_LIMIT = '21000';
+
+const OUTSTANDING_STATUSES = [TransactionStatus.PENDING, TransactionStatus.SUBMITTED];
+
+export type TransactionPage = {
+    items: TransactionDocument[];
+    nextCursor: string | null;
+    totalCount: number;
+};
+
+export type BulkRowResult =
+    | { index: number; status: 'created'; transaction: TransactionDocument }
+    | { index: number; status: 'invalid' | 'error'; errors: string[] }
+    // atomic batches only: a valid row that was not created because another row failed
+    | { index: number; status: 'skipped' };
+
+export type SimulatedFee = {
+    gasLimit: bigint;
+    // The fields the transaction would be signed with; the network's current fees when the request sets none
+    fees: FeeFields;
+    baseFeePerGas: bigint | null;
+    // gasLimit x fee cap, which the sender must be able to afford
+    maxFee: bigint;
+    // Estimated gas x the price paid at the current base fee
+    estimatedFee: bigint;
+};
+
+/**
+ * What creating a transaction would do, without saving it. `errors` are the
+ * reasons the request is malformed or names something unknown; `violations`
+ * are the rules it breaks that create would reject it for. `warnings` do not
+ * stop it from being created.
+ */
+export type SimulationResult = {
+    valid: boolean;
+    errors: string[];
+    violations: string[];
+    warnings: string[];
+    fromAddress: string | null;
+    chainId: number | null;
+    nonce: number | null;
+    // Null when the chain could not estimate the transaction
+    gasEstimate: bigint | null;
+    fee: SimulatedFee | null;
+    balances: BalanceProjection[];
+    duplicates: TransactionDocument[];
+};
+
+export type BulkCreateResult = {
+    mode: BulkMode;
+    createdCount: number;
+    failedCount: number;
+    results: BulkRowResult[];
+};
 
 @Injectable()
-export class TransactionsService {
+export class TransactionsService implements OnApplicationBootstrap {
+    private readonly logger = new Logger(TransactionsService.name);
+    private readonly duplicateWindowMs: number;
+
     constructor(
     @InjectModel(Transaction.name)
     private transactionModel: Model<TransactionDocument>,
-  ) {}
+    private readonly transactionsGateway: TransactionsGateway,
+    private readonly lifecycle: TransactionLifecycleService,
+    private readonly networks: NetworksService,
+    private readonly tokens: TokensService,
+    private readonly abis: AbisService,
+    private readonly nonces: NonceService,
+    private readonly accounts: AccountsService,
+    private readonly balances: BalanceService,
+    configService: ConfigService,
+  ) {
+    this.duplicateWindowMs = readNumber(configService, 'DUPLICATE_WINDOW_MINUTES', 60) * 60_000;
+  }
+
+  async onApplicationBootstrap() {
+    await this.migrateLegacyAmounts();
+    await this.migrateHashIndex();
+    await this.migrateChainIds();
+    await this.migrateAddressCase();
+  }
 
   async count(): Promise<number> {
     return this.transactionModel.countDocuments().exec();
@@ -22,41 +145,343 @@ export class TransactionsService {
     async create(
         createTransactionDto: CreateTransactionDto,
     ): Promise<TransactionDocument> {
-        // Generate a mock transaction hash (in real app, this would come from blockchain)
-        const hash = `0x${Math.random().toString(16).substr(2, 64)}`;
+        const sender = await this.accounts.resolveSender(createTransactionDto.fromAccountId);
+        const { chainId } = await this.networks.resolve(createTransactionDto.chainId);
+        const token = createTransactionDto.tokenAddress
+            ? await this.tokens.resolve(chainId, createTransactionDto.tokenAddress)
+            : null;
+        const amount = this.parseAmount(createTransactionDto.amount, token);
+        const data = await this.calldata(createTransactionDto, chainId);
+        const transaction = await this.buildTransaction(createTransactionDto, sender, chainId, token, amount, data);
+        // One create per sender at a time, so two cannot both spend the same balance
+        const saved = await this.nonces.withSenderLock(sender.address, chainId, async () => {
+            // Checked before a nonce is taken, so a rejected send leaves no gap behind
+            await this.balances.assertAffordable([transaction]);
+            transaction.nonce = await this.nonces.allocate(sender.address, chainId);
+            try {
+                return await transaction.save();
+            } catch (error) {
+                await this.nonces.release(sender.address, chainId, transaction.nonce);
+                throw error;
+            }
+        });
+        await this.publish(saved);
+        return saved;
+    }
 
-        // Mock from address (in real app, this would be the user's wallet address)
-        const fromAddress = `0x${Math.random().toString(16).substr(2, 40)}`;
+    /**
+     * Runs the checks create would on a request body and reports what it found
+     * instead of throwing. Nothing is saved and no nonce is reserved.
+     */
+    async simulate(body: unknown): Promise<SimulationResult> {
+        const result: SimulationResult = {
+            valid: false,
+            errors: [],
+            violations: [],
+            warnings: [],
+            fromAddress: null,
+            chainId: null,
+            nonce: null,
+            gasEstimate: null,
+            fee: null,
+            balances: [],
+            duplicates: [],
+        };
+        const { value: dto, errors } = await validateDto(CreateTransactionDto, body);
+        if (!dto) {
+            return { ...result, errors };
+        }
 
-        const transaction = new this.transactionModel({
-            ...createTransactionDto,
-            hash,
-            fromAddress,
-            status: TransactionStatus.PENDING,
-        });
+        let sender: AccountDocument;
+        let chainId: number;
+        let token: TokenDocument | null;
+        let amount: bigint;
+        let data: string | null;
+        try {
+            sender = await this.accounts.resolveSender(dto.fromAccountId);
+            ({ chainId } = await this.networks.resolve(dto.chainId));
+            token = dto.tokenAddress ? await this.tokens.resolve(chainId, dto.tokenAddress) : null;
+            amount = this.parseAmount(dto.amount, token);
+            data = await this.calldata(dto, chainId);
+        } catch (error) {
+            if (!(error instanceof HttpException)) throw error;
+            return { ...result, errors: [error.message] };
+        }
+        result.fromAddress = sender.address;
+        result.chainId = chainId;
+
+        const chain = await this.networks.provider(chainId);
+        const call = transferCall(dto.toAddress, amount, token?.address ?? null, data);
+        try {
+            result.gasEstimate = await chain.estimateGas({ from: sender.address, ...call });
+        } catch (error) {
+            // Create estimates the gas limit itself unless the request sets one
+            if (!dto.gasLimit) {
+                return { ...result, errors: [`Gas estimation failed: ${error.message}`] };
+            }
+            result.warnings.push(`The transaction is expected to fail: ${error.message}`);
+        }
+
+        const [{ nextNonce }, feeData, duplicates] = await Promise.all([
+            this.nonces.getState(sender.address, chainId),
+            chain.getFeeData(),
+            this.findDuplicates(sender.address, chainId, dto.toAddress, token?.address ?? null, amount, data),
+        ]);
+        result.nonce = nextNonce;
+
+        // The gas estimate stands in for the one create would make, so the chain is only asked once
+        const transaction = await this.buildTransaction(
+            { ...dto, gasLimit: dto.gasLimit ?? result.gasEstimate.toString() },
+            sender,
+            chainId,
+            token,
+            amount,
+            data,
+            nextNonce,
+        );
+        result.fee = this.simulatedFee(transaction, feeData, result.gasEstimate);
+        result.balances = await this.balances.project([transaction]);
+        result.violations = result.balances
+            .filter((projection) => projection.remaining < 0n)
+            .map((projection) => insufficientFunds(projection));
+
+        if (result.gasEstimate !== null && result.fee.gasLimit < result.gasEstimate) {
+            result.warnings.push(
+                `gasLimit ${result.fee.gasLimit} is below the estimated ${result.gasEstimate} gas; the transaction would run out of gas`,
+            );
+        }
+        const { baseFeePerGas } = feeData;
+        if (baseFeePerGas !== null && feeBid(result.fee.fees, 0n).feeCap < baseFeePerGas) {
+            result.warnings.push(
+                `The fee cap is below the current base fee of ${baseFeePerGas} wei; the transaction would wait until it drops`,
+            );
+        }
+        result.duplicates = duplicates;
+        if (duplicates.length > 0) {
+            result.warnings.push(
+                `${duplicates.length} transaction(s) with the same sender, recipient, asset and amount ` +
+                    'are outstanding or were confirmed recently',
+            );
+        }
 
-        const saved = await transaction.save();
+        result.valid = result.violations.length === 0;
+        return result;
+    }
 
-        // Simulate async confirmation (in real app, this would be a blockchain event)
-        setTimeout(async () => {
-            const tx = await this.transactionModel.findById(saved._id).exec();
-            if (tx) {
-                tx.status =
-                    Math.random() > 0.1
-                        ? TransactionStatus.CONFIRMED
-                        : TransactionStatus.FAILED;
-                await tx.save();
+    /**
+     * Validates every row on its own and reports a result per row. In atomic
+     * mode a single invalid row rejects the batch with 422 and nothing is
+     * written; in best-effort mode the valid rows are created regardless.
+     */
+    async createBulk(dto: BulkCreateTransactionsDto): Promise<BulkCreateResult> {
+        const mode = dto.mode ?? 'atomic';
+        const validated = await Promise.all(dto.transactions.map((row) => validateDto(CreateTransactionDto, row)));
+
+        // Each sender, network and token is looked up once; a row naming an unknown one is invalid
+        // and so is one whose contract call does not encode
+        const senders = new Map<string, AccountDocument | null>();
+        const chainIds = new Map<number | undefined, number | null>();
+        const tokens = new Map<string, TokenDocument | null>();
+        const rowTokens: (TokenDocument | null)[] = [];
+        const rowAmounts: bigint[] = [];
+        const rowData: (string | null)[] = [];
+        for (const [index, row] of validated.entries()) {
+            if (!row.value) continue;
+            const accountId = row.value.fromAccountId ?? '';
+            if (!senders.has(accountId)) {
+                senders.set(accountId, await this.accounts.findSender(row.value.fromAccountId));
+            }
+            if (!senders.get(accountId)) {
+                row.errors.push(accountId ? `Account ${accountId} not found` : 'No sender account exists');
+            }
+            if (!chainIds.has(row.value.chainId)) {
+                const network = await this.networks.resolve(row.value.chainId).catch(() => null);
+                chainIds.set(row.value.chainId, network?.chainId ?? null);
+            }
+            const chainId = chainIds.get(row.value.chainId);
+            if (!chainId) {
+                row.errors.push(`Network ${row.value.chainId} is not registered`);
+            }
+            const { tokenAddress } = row.value;
+            if (chainId && tokenAddress) {
+                const key = `${chainId}:${toChecksumAddress(tokenAddress)}`;
+                if (!tokens.has(key)) {
+                    tokens.set(key, await this.tokens.find(chainId, tokenAddress));
+                }
+                rowTokens[index] = tokens.get(key);
+                if (!rowTokens[index]) {
+                    row.errors.push(`Token ${tokenAddress} is not registered on network ${chainId}`);
+                }
+            }
+            try {
+                rowAmounts[index] = this.parseAmount(row.value.amount, rowTokens[index]);
+            } catch (error) {
+                row.errors.push(error.message);
+            }
+            if (chainId) {
+                try {
+                    rowData[index] = await this.calldata(row.value, chainId);
+                } catch (error) {
+                    row.errors.push(error.message);
+                }
+            }
+            if (row.errors.length > 0) {
+                row.value = undefined;
             }
-        }, 2000);
+        }
+        const invalidCount = validated.filter((row) => !row.value).length;
 
-        return saved;
+        if (mode === 'atomic') {
+            if (invalidCount > 0) {
+                throw new UnprocessableEntityException({
+                    message: `${invalidCount} of ${validated.length} transaction(s) are invalid; nothing was created`,
+                    results: validated.map((row, index) =>
+                        row.value ? { index, status: 'skipped' } : { index, status: 'invalid', errors: row.errors },
+                    ),
+                });
+            }
+
+            // Each sender's rows on a network are sent in order, one nonce after another
+            const rowSenders = validated.map((row) => senders.get(row.value.fromAccountId ?? ''));
+            const rowChainIds = validated.map((row) => chainIds.get(row.value.chainId));
+            const groups = new Map<string, number[]>();
+            rowSenders.forEach((sender, index) => {
+                const key = `${sender.address}:${rowChainIds[index]}`;
+                groups.set(key, [...(groups.get(key) ?? []), index]);
+            });
+            const documents = await Promise.all(
+                validated.map((row, index) =>
+                    this.buildTransaction(
+                        row.value,
+                        rowSenders[index],
+                        rowChainIds[index],
+                        rowTokens[index] ?? null,
+                        rowAmounts[index],
+                        rowData[index] ?? null,
+                    ),
+                ),
+            );
+
+            const insert = async () => {
+                // Rows from the same sender draw on the same balance; checked before any nonce is taken
+                await this.balances.assertAffordable(documents);
+                const reservations: { address: string; chainId: number; first: number; count: number }[] = [];
+                try {
+                    for (const rows of groups.values()) {
+                        const { address } = rowSenders[rows[0]];
+                        const chainId = rowChainIds[rows[0]];
+                        const first = await this.nonces.allocate(address, chainId, rows.length);
+                        reservations.push({ address, chainId, first, count: rows.length });
+                        rows.forEach((index, offset) => (documents[index].nonce = first + offset));
+                    }
+                    await this.transactionModel.insertMany(documents);
+                } catch (error) {
+                    // Without a replica set there is no multi-document transaction; undo any partial insert
+                    await this.transactionModel.deleteMany({ _id: { $in: documents.map((doc) => doc._id) } }).exec();
+                    for (const reservation of reservations) {
+                        await this.nonces.release(
+                            reservation.address,
+                            reservation.chainId,
+                            reservation.first,
+                            reservation.count,
+                        );
+                    }
+                    throw error;
+                }
+            };
+            // Every sender in the batch is locked, in a fixed order so two batches never wait on each other
+            const locked = [...groups.keys()].sort().reduceRight<() => Promise<void>>((inner, key) => {
+                const [index] = groups.get(key);
+                return () => this.nonces.withSenderLock(rowSenders[index].address, rowChainIds[index], inner);
+            }, insert);
+            await locked();
+            for (const doc of documents) {
+                await this.publish(doc);
+            }
+
+            return {
+                mode,
+                createdCount: documents.length,
+                failedCount: 0,
+                results: documents.map((transaction, index) => ({ index, status: 'created', transaction })),
+            };
+        }
+
+        const results: BulkRowResult[] = [];
+        for (const [index, row] of validated.entries()) {
+            if (!row.value) {
+                results.push({ index, status: 'invalid', errors: row.errors });
+                continue;
+            }
+            try {
+                results.push({ index, status: 'created', transaction: await this.create(row.value) });
+            } catch (error) {
+                this.logger.warn(`Bulk row ${index} failed: ${error.message}`);
+                results.push({ index, status: 'error', errors: [error.message] });
+            }
+        }
+
+        const createdCount = results.filter((row) => row.status === 'created').length;
+        return { mode, createdCount, failedCount: results.length - createdCount, results };
     }
 
-    async findAll(): Promise<TransactionDocument[]> {
-        return this.transactionModel
-            .find()
-            .sort({ createdAt: -1 })
-            .exec();
+    /**
+     * Replaces a pending transaction with a zero-value transfer back to the
+     * sender, so whichever is mined first leaves the original's transfer undone.
+     * Token transfers and contract calls are cancelled the same way, with a
+     * plain native transfer.
+     */
+    async cancel(id: string, dto: ReplaceTransactionDto): Promise<TransactionDocument> {
+        const original = await this.findReplaceable(id);
+        return this.replace(original, ReplacementType.CANCEL, dto, {
+            toAddress: original.fromAddress,
+            tokenAddress: null,
+            data: null,
+            amount: toDecimal128(0n),
+            gasLimit: CANCEL_GAS_LIMIT,
+        });
+    }
+
+    /**
+     * Resubmits a pending transaction unchanged apart from a higher gas price.
+     */
+    async speedUp(id: string, dto: ReplaceTransactionDto): Promise<TransactionDocument> {
+        const original = await this.findReplaceable(id);
+        return this.replace(original, ReplacementType.SPEED_UP, dto, {
+            toAddress: original.toAddress,
+            tokenAddress: original.tokenAddress,
+            data: original.data ?? null,
+            amount: original.amount,
+            gasLimit: original.gasLimit,
+        });
+    }
+
+    async findAll(query: ListTransactionsQueryDto): Promise<TransactionPage> {
+        const { sortBy = 'date', order = 'desc', limit = 20 } = query;
+
+        const filter = buildTransactionFilter(query, await this.filterDecimals(query));
+        const pageFilter = query.cursor
+            ? { $and: [filter, buildCursorFilter(sortBy, order, query.cursor)] }
+            : filter;
+
+        const [rows, totalCount] = await Promise.all([
+            // Fetch one extra row to find out whether another page exists
+            this.transactionModel
+                .find(pageFilter)
+                .sort(buildSort(sortBy, order))
+                .limit(limit + 1)
+                .exec(),
+            this.transactionModel.countDocuments(filter).exec(),
+        ]);
+
+        const hasMore = rows.length > limit;
+        const items = hasMore ? rows.slice(0, limit) : rows;
+
+        return {
+            items,
+            nextCursor: hasMore ? encodeCursor(sortBy, items[items.length - 1]) : null,
+            totalCount,
+        };
     }
 
     async findOne(id: string): Promise<TransactionDocument> {
@@ -70,5 +495,349 @@ export class TransactionsService {
 
         return transaction;
     }
-}
 
+    // The contract call a transaction makes, decoded with the uploaded ABIs; null if none has its function
+    async decodeCall(id: string): Promise<DecodedCall | null> {
+        const transaction = await this.findOne(id);
+        const call = transferCall(
+            transaction.toAddress,
+            fromDecimal128(transaction.amount),
+            transaction.tokenAddress,
+            transaction.data,
+        );
+        return call.data ? this.abis.decodeCall(transaction.chainId, call.to, call.data) : null;
+    }
+
+    /**
+     * Transactions that look like the same payment: outstanding ones, and
+     * ones confirmed within the duplicate window.
+     */
+    private async findDuplicates(
+        fromAddress: string,
+        chainId: number,
+        toAddress: string,
+        tokenAddress: string | null,
+        amount: bigint,
+        data: string | null,
+    ): Promise<TransactionDocument[]> {
+        const since = new Date(Date.now() - this.duplicateWindowMs);
+        const filter: FilterQuery<TransactionDocument> = {
+            fromAddress: fromAddress.toLowerCase(),
+            toAddress: toAddress.toLowerCase(),
+            chainId,
+            tokenAddress,
+            amount: toDecimal128(amount),
+            data,
+            $or: [
+                { status: { $in: OUTSTANDING_STATUSES } },
+                { status: TransactionStatus.CONFIRMED, createdAt: { $gte: since } },
+            ],
+        };
+        return this.transactionModel.find(filter).sort({ createdAt: -1 }).exec();
+    }
+
+    private simulatedFee(transaction: TransactionDocument, feeData: FeeData, gasEstimate: bigint | null): SimulatedFee {
+        const stored: FeeFields = {
+            gasPrice: transaction.gasPrice ? fromDecimal128(transaction.gasPrice) : undefined,
+            maxFeePerGas: transaction.maxFeePerGas ? fromDecimal128(transaction.maxFeePerGas) : undefined,
+            maxPriorityFeePerGas: transaction.maxPriorityFeePerGas
+                ? fromDecimal128(transaction.maxPriorityFeePerGas)
+                : undefined,
+        };
+        // Unpriced transactions are signed at the network's fees, as the lifecycle does
+        const fees = stored.gasPrice !== undefined || isEip1559(stored) ? stored : networkFees(feeData);
+        const bid = feeBid(fees, feeData.gasPrice);
+        const gasLimit = BigInt(transaction.gasLimit);
+        const gasUsed = gasEstimate !== null && gasEstimate < gasLimit ? gasEstimate : gasLimit;
+        return {
+            gasLimit,
+            fees,
+            baseFeePerGas: feeData.baseFeePerGas,
+            maxFee: gasLimit * bid.feeCap,
+            estimatedFee: gasUsed * effectiveGasPrice(bid, feeData.baseFeePerGas ?? 0n),
+        };
+    }
+
+    // Scales a whole-unit amount by the token's decimals, or the native currency's 18
+    private parseAmount(amount: string, token: TokenDocument | null): bigint {
+        const decimals = token?.decimals ?? ETH_DECIMALS;
+        try {
+            return parseUnits(amount, decimals);
+        } catch {
+            throw new BadRequestException(
+                `amount has more than ${decimals} decimal places, the most ${token?.symbol ?? 'ETH'} allows`,
+            );
+        }
+    }
+
+    // The amount range of a listing is in the units of the filtered asset
+    private async filterDecimals(query: ListTransactionsQueryDto): Promise<number> {
+        if (!query.minAmount && !query.maxAmount) return ETH_DECIMALS;
+        return this.tokens.assetDecimals(query.asset, query.chainId);
+    }
+
+    /**
+     * Calldata for a create request's contract call: encoded from the ABI it
+     * names, or passed raw and checked against the ABIs of the contract.
+     */
+    private async calldata(dto: CreateTransactionDto, chainId: number): Promise<string | null> {
+        if (dto.call) {
+            const abi = await this.abis.resolve(dto.call.abiId);
+            if (abi.address && (abi.chainId !== chainId || abi.address !== toChecksumAddress(dto.toAddress))) {
+                throw new BadRequestException(`ABI ${abi.name} belongs to ${abi.address} on network ${abi.chainId}`);
+            }
+            return this.abis.encodeCall(abi, dto.call.function, dto.call.args);
+        }
+        if (dto.data !== undefined) {
+            await this.abis.checkCalldata(chainId, dto.toAddress, dto.data);
+            return dto.data.toLowerCase();
+        }
+        return null;
+    }
+
+    /**
+     * Builds an unsaved transaction document for a validated create request.
+     * The hash is only known once the lifecycle has signed and broadcast it.
+     */
+    private async buildTransaction(
+        createTransactionDto: CreateTransactionDto,
+        sender: AccountDocument,
+        chainId: number,
+        token: TokenDocument | null,
+        amount: bigint,
+        data: string | null,
+        // Creates assign it once the transaction has passed its checks
+        nonce?: number,
+    ): Promise<TransactionDocument> {
+        // `call` is only the recipe for `data`, which is stored instead
+        const { gasPrice, maxFeePerGas, maxPriorityFeePerGas, gasLimit, call: _call, ...rest } = createTransactionDto;
+        const fromAddress = sender.address;
+        const chain = await this.networks.provider(chainId);
+        const call = transferCall(rest.toAddress, amount, token?.address ?? null, data);
+        return new this.transactionModel({
+            ...rest,
+            chainId,
+            tokenAddress: token?.address ?? null,
+            data,
+            amount: toDecimal128(amount),
+            gasPrice: gasPrice ? toDecimal128(parseUnits(gasPrice)) : undefined,
+            maxFeePerGas: maxFeePerGas ? toDecimal128(parseUnits(maxFeePerGas)) : undefined,
+            maxPriorityFeePerGas: maxPriorityFeePerGas ? toDecimal128(parseUnits(maxPriorityFeePerGas)) : undefined,
+            gasLimit: gasLimit ?? (await chain.estimateGas({ from: fromAddress, ...call })).toString(),
+            fromAddress,
+            fromAccountId: sender._id,
+            nonce,
+            status: TransactionStatus.PENDING,
+            statusHistory: [
+                {
+                    timestamp: new Date(),
+                    previousStatus: null,
+                    status: TransactionStatus.PENDING,
+                    actor: 'api',
+                    reason: 'Transaction created',
+                },
+            ],
+        });
+    }
+
+    // Hands a stored transaction to the lifecycle and announces it
+    private async publish(transaction: TransactionDocument) {
+        await this.lifecycle.enqueue(transaction._id);
+        this.transactionsGateway.emitCreated(transaction);
+    }
+
+    private async findReplaceable(id: string): Promise<TransactionDocument> {
+        const original = await this.findOne(id);
+        if (original.status !== TransactionStatus.PENDING && original.status !== TransactionStatus.SUBMITTED) {
+            throw new ConflictException(`Cannot replace a transaction that is ${original.status}`);
+        }
+        return original;
+    }
+
+    /**
+     * Creates a transaction with the original's sender and nonce. Only one
+     * transaction per nonce can be mined; the lifecycle resolves the others
+     * once it is.
+     */
+    private async replace(
+        original: TransactionDocument,
+        replacementType: ReplacementType,
+        dto: ReplaceTransactionDto,
+        fields: Pick<Transaction, 'toAddress' | 'tokenAddress' | 'data' | 'amount' | 'gasLimit'>,
+    ): Promise<TransactionDocument> {
+        const fees = await this.replacementFees(original, dto);
+        const reason = replacementType === ReplacementType.CANCEL ? 'Cancellation' : 'Speed-up';
+        const replacement = new this.transactionModel({
+            ...fields,
+            chainId: original.chainId,
+            fromAddress: original.fromAddress,
+            fromAccountId: original.fromAccountId,
+            nonce: original.nonce,
+            gasPrice: fees.gasPrice !== undefined ? toDecimal128(fees.gasPrice) : undefined,
+            maxFeePerGas: fees.maxFeePerGas !== undefined ? toDecimal128(fees.maxFeePerGas) : undefined,
+            maxPriorityFeePerGas:
+                fees.maxPriorityFeePerGas !== undefined ? toDecimal128(fees.maxPriorityFeePerGas) : undefined,
+            replacesId: original._id,
+            replacementType,
+            status: TransactionStatus.PENDING,
+            statusHistory: [
+                {
+                    timestamp: new Date(),
+                    previousStatus: null,
+                    status: TransactionStatus.PENDING,
+                    actor: 'api',
+                    reason: `${reason} of ${original._id}`,
+                },
+            ],
+        });
+
+        // Under the same lock and funds check as create, so a replacement cannot overspend either
+        const saved = await this.nonces.withSenderLock(original.fromAddress, original.chainId, async () => {
+            await this.balances.assertAffordable([replacement]);
+            return replacement.save();
+        });
+        await this.publish(saved);
+
+        return saved;
+    }
+
+    /**
+     * Fees for a replacement. Fees left out of the request default to the
+     * smallest accepted bump; pricing follows the request, or the original's
+     * when the request sets no fees.
+     */
+    private async replacementFees(original: TransactionDocument, dto: ReplaceTransactionDto): Promise<FeeFields> {
+        const current = await this.highestPendingBid(original);
+        const minimum: FeeBid = { feeCap: bumpedFee(current.feeCap), tip: bumpedFee(current.tip) };
+
+        const requested = {
+            gasPrice: dto.gasPrice ? parseUnits(dto.gasPrice) : undefined,
+            maxFeePerGas: dto.maxFeePerGas ? parseUnits(dto.maxFeePerGas) : undefined,
+            maxPriorityFeePerGas: dto.maxPriorityFeePerGas ? parseUnits(dto.maxPriorityFeePerGas) : undefined,
+        };
+        const eip1559 =
+            requested.maxFeePerGas !== undefined ||
+            requested.maxPriorityFeePerGas !== undefined ||
+            (requested.gasPrice === undefined && original.maxFeePerGas !== undefined);
+
+        const fees: FeeFields = eip1559
+            ? {
+                maxFeePerGas: requested.maxFeePerGas ?? minimum.feeCap,
+                maxPriorityFeePerGas: requested.maxPriorityFeePerGas ?? minimum.tip,
+            }
+            // A legacy price is both cap and tip, so it has to clear both bumps
+            : { gasPrice: requested.gasPrice ?? (minimum.feeCap > minimum.tip ? minimum.feeCap : minimum.tip) };
+
+        if (isEip1559(fees) && fees.maxPriorityFeePerGas > fees.maxFeePerGas) {
+            throw new BadRequestException('maxPriorityFeePerGas must not exceed maxFeePerGas');
+        }
+        if (!outbids(feeBid(fees, 0n), current)) {
+            throw new BadRequestException(
+                `Fees must be at least ${REPLACEMENT_BUMP_PERCENT}% above the pending transaction's`,
+            );
+        }
+        return fees;
+    }
+
+    // The bump is measured against the highest fee cap and tip already pending for the nonce
+    private async highestPendingBid(original: TransactionDocument): Promise<FeeBid> {
+        const chain = await this.networks.provider(original.chainId);
+        const [competing, feeData] = await Promise.all([
+            this.transactionModel
+                .find({
+                    fromAddress: original.fromAddress,
+                    chainId: original.chainId,
+                    nonce: original.nonce,
+                    status: { $in: [TransactionStatus.PENDING, TransactionStatus.SUBMITTED] },
+                })
+                .select({ gasPrice: 1, maxFeePerGas: 1, maxPriorityFeePerGas: 1 })
+                .exec(),
+            chain.getFeeData(),
+        ]);
+
+        return competing.reduce<FeeBid>(
+            (highest, tx) => {
+                // Unpriced transactions were sent at the network price
+                const bid = feeBid(
+                    {
+                        gasPrice: tx.gasPrice ? fromDecimal128(tx.gasPrice) : undefined,
+                        maxFeePerGas: tx.maxFeePerGas ? fromDecimal128(tx.maxFeePerGas) : undefined,
+                        maxPriorityFeePerGas: tx.maxPriorityFeePerGas ? fromDecimal128(tx.maxPriorityFeePerGas) : undefined,
+                    },
+                    feeData.gasPrice,
+                );
+                return {
+                    feeCap: bid.feeCap > highest.feeCap ? bid.feeCap : highest.feeCap,
+                    tip: bid.tip > highest.tip ? bid.tip : highest.tip,
+                };
+            },
+            { feeCap: 0n, tip: 0n },
+        );
+    }
+
+    /**
+     * Documents written before amounts were stored as wei hold decimal ETH
+     * strings. Convert them in place so filtering, sorting and stats see them.
+     */
+    private async migrateLegacyAmounts() {
+        const legacy = await this.transactionModel.collection
+            .find({ $or: [{ amount: { $type: 'string' } }, { gasPrice: { $type: 'string' } }] })
+            .project<{ _id: unknown; amount: unknown; gasPrice?: unknown }>({ amount: 1, gasPrice: 1 })
+            .toArray();
+
+        const updates = [];
+        for (const doc of legacy) {
+            try {
+                const $set: Record<string, unknown> = {};
+                if (typeof doc.amount === 'string') $set.amount = toDecimal128(parseUnits(doc.amount));
+                if (typeof doc.gasPrice === 'string') $set.gasPrice = toDecimal128(parseUnits(doc.gasPrice));
+                updates.push({ updateOne: { filter: { _id: doc._id }, update: { $set } } });
+            } catch (error) {
+                this.logger.warn(`Skipping transaction ${doc._id}: ${error.message}`);
+            }
+        }
+
+        if (updates.length > 0) {
+            await this.transactionModel.collection.bulkWrite(updates);
+            this.logger.log(`Converted ${updates.length} legacy transaction amount(s) to wei`);
+        }
+    }
+
+    // Transactions stored before networks were tracked all went to the default network
+    private async migrateChainIds() {
+        const legacy = await this.transactionModel.updateMany(
+            { chainId: { $exists: false } },
+            { $set: { chainId: await this.networks.defaultChainId() } },
+        );
+        if (legacy.modifiedCount > 0) {
+            this.logger.log(`Assigned ${legacy.modifiedCount} transaction(s) to the default network`);
+        }
+    }
+
+    // Addresses used to be stored as entered; they are lowercase now so lookups can be exact
+    private async migrateAddressCase() {
+        const mixedCase = /[A-F]/;
+        const legacy = await this.transactionModel.updateMany(
+            { $or: [{ fromAddress: mixedCase }, { toAddress: mixedCase }] },
+            [{ $set: { fromAddress: { $toLower: '$fromAddress' }, toAddress: { $toLower: '$toAddress' } } }],
+        );
+        if (legacy.modifiedCount > 0) {
+            this.logger.log(`Lowercased the addresses of ${legacy.modifiedCount} transaction(s)`);
+        }
+    }
+
+    /**
+     * Hashes used to be assigned at creation; now they are only known once a
+     * transaction is broadcast. Older databases have a non-sparse unique index
+     * on `hash`, which rejects a second unsent transaction, so replace it.
+     */
+    private async migrateHashIndex() {
+        const indexes = await this.transactionModel.collection.indexes();
+        const hashIndex = indexes.find((index) => index.name === 'hash_1');
+        if (hashIndex && !hashIndex.sparse) {
+            await this.transactionModel.collection.dropIndex('hash_1');
+            await this.transactionModel.createIndexes();
+            this.logger.log('Rebuilt the transaction hash index as sparse');
+        }
+    }
+}
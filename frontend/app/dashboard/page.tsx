@@ -1,33 +1,58 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { initAPI, statsAPI } from '@/lib/api';
+import { AddressRanking, AssetVolume, FeeStats, RankedAddress, Stats, TransactionFilterQuery } from '@/lib/types';
+import {
+  applyStatusChange,
+  feeStatsQuery,
+  STATS_RANGE_PRESETS,
+  statsRange,
+  StatsRangePreset,
+  topAddressesQuery,
+} from '@/lib/stats';
+import { transactionMatchesQuery } from '@/lib/query';
+import { formatUnitsRounded, formatWei } from '@/lib/units';
+import { formatTimestamp, truncateAddress } from '@/lib/format';
+import { findNetwork } from '@/lib/networks';
+import { useTransactionEvents } from '@/hooks/use-transaction-events';
+import { useNetworks } from '@/hooks/use-networks';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FeesChart } from '@/components/FeesChart';
 import { Loader2 } from 'lucide-react';
 import Link from 'next/link';
 
-interface Stats {
-  totalTransactions: number;
-  totalVolume: string;
-  averageAmount: string;
-  successRate: string;
-  pendingCount: number;
-  confirmedCount: number;
-  failedCount: number;
-}
-
 export default function DashboardPage() {
   const [stats, setStats] = useState<Stats | null>(null);
   const [loading, setLoading] = useState(true);
   const [initializing, setInitializing] = useState(false);
+  const [rangePreset, setRangePreset] = useState<StatsRangePreset>('all');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [topRecipients, setTopRecipients] = useState<RankedAddress[]>([]);
+  const [addressRanking, setAddressRanking] = useState<AddressRanking>('count');
+  const [feeStats, setFeeStats] = useState<FeeStats | null>(null);
+  const { networks, ready, selectedChainId, selectedNetwork } = useNetworks();
+
+  const statsQuery = useMemo<TransactionFilterQuery>(
+    () => ({
+      ...(selectedChainId !== null && { chainId: selectedChainId }),
+      ...statsRange(rangePreset, { dateFrom: customFrom, dateTo: customTo }),
+    }),
+    [selectedChainId, rangePreset, customFrom, customTo],
+  );
 
-  const loadStats = async () => {
+  const loadStats = async (query: TransactionFilterQuery) => {
+    // An empty network or date range is not an empty database, so only seed when nothing is filtered
+    const unfiltered = Object.keys(query).length === 0;
     try {
-      const response = await statsAPI.getStats();
+      const response = await statsAPI.getStats(query);
       const statsData = response.data.data;
       
-      if (statsData.totalTransactions === 0) {
+      if (statsData.totalTransactions === 0 && unfiltered) {
         // No data, initialize
         setInitializing(true);
         await initAPI.seed();
@@ -41,6 +66,7 @@ export default function DashboardPage() {
       setStats(statsData);
     } catch (error) {
       console.error('Error loading stats:', error);
+      if (!unfiltered) return;
       // If stats endpoint fails, try to initialize
       try {
         setInitializing(true);
@@ -57,8 +83,91 @@ export default function DashboardPage() {
   };
 
   useEffect(() => {
-    loadStats();
-  }, []);
+    if (ready) loadStats(statsQuery);
+  }, [ready, statsQuery]);
+
+  const refreshStats = useCallback(async () => {
+    try {
+      const response = await statsAPI.getStats(statsQuery);
+      setStats(response.data.data);
+    } catch (error) {
+      console.error('Error refreshing stats:', error);
+    }
+  }, [statsQuery]);
+
+  // Volume is ranked within one network's native currency, so it needs a network
+  const ranking: AddressRanking = selectedChainId === null ? 'count' : addressRanking;
+
+  const refreshTopRecipients = useCallback(async () => {
+    try {
+      const response = await statsAPI.getTopAddresses(topAddressesQuery(statsQuery, ranking));
+      setTopRecipients(response.data.data.recipients);
+    } catch (error) {
+      console.error('Error loading top recipients:', error);
+    }
+  }, [statsQuery, ranking]);
+
+  useEffect(() => {
+    if (ready) refreshTopRecipients();
+  }, [ready, refreshTopRecipients]);
+
+  const refreshFees = useCallback(async () => {
+    try {
+      const response = await statsAPI.getFees(feeStatsQuery(rangePreset, statsQuery));
+      setFeeStats(response.data.data);
+    } catch (error) {
+      console.error('Error loading fees:', error);
+    }
+  }, [rangePreset, statsQuery]);
+
+  useEffect(() => {
+    if (ready) refreshFees();
+  }, [ready, refreshFees]);
+
+  const { connected } = useTransactionEvents({
+    // Volume and averages are computed server-side, so reload rather than patch
+    onCreated: ({ transaction }) => {
+      if (!transactionMatchesQuery(transaction, statsQuery)) return;
+      refreshStats();
+      refreshTopRecipients();
+    },
+    onStatusChanged: ({ transaction, previousStatus }) => {
+      if (!transactionMatchesQuery(transaction, statsQuery)) return;
+      setStats(prev => (prev ? applyStatusChange(prev, previousStatus, transaction.status) : prev));
+      refreshTopRecipients();
+      // Fees are only paid once a transaction is mined
+      if (transaction.status === 'confirmed' || transaction.status === 'failed') refreshFees();
+    },
+  });
+
+  useEffect(() => {
+    if (connected) return;
+    const interval = setInterval(() => {
+      refreshStats();
+      refreshTopRecipients();
+      refreshFees();
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [connected, refreshStats, refreshTopRecipients, refreshFees]);
+
+  // Amounts of different assets cannot be added up, so volume is listed per asset
+  const renderVolumes = (volumes: AssetVolume[], field: 'totalVolume' | 'averageAmount') => {
+    if (volumes.length === 0) return <p className="text-2xl font-bold">0</p>;
+    const showNetwork = selectedChainId === null && new Set(volumes.map((volume) => volume.chainId)).size > 1;
+    return volumes.map((volume) => (
+      <p
+        key={`${volume.chainId}:${volume.tokenAddress ?? 'native'}`}
+        className={volumes.length === 1 ? 'text-2xl font-bold' : 'text-lg font-semibold'}
+      >
+        {formatUnitsRounded(volume[field], volume.decimals)} {volume.symbol}
+        {showNetwork && (
+          <span className="text-sm font-normal text-muted-foreground">
+            {' '}on {findNetwork(networks, volume.chainId)?.name ?? `chain ${volume.chainId}`}
+          </span>
+        )}
+      </p>
+    ));
+  };
 
   if (initializing) {
     return (
@@ -87,7 +196,7 @@ export default function DashboardPage() {
         <div>
           <h1 className="text-3xl font-bold">Dashboard</h1>
           <p className="text-muted-foreground">
-            Overview of your blockchain transactions
+            Overview of your blockchain transactions{selectedNetwork && ` on ${selectedNetwork.name}`}
           </p>
         </div>
         <Link href="/transactions">
@@ -95,6 +204,37 @@ export default function DashboardPage() {
         </Link>
       </div>
 
+      <div className="flex flex-wrap items-center gap-2">
+        {STATS_RANGE_PRESETS.map(({ value, label }) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={rangePreset === value ? 'default' : 'outline'}
+            onClick={() => setRangePreset(value)}
+          >
+            {label}
+          </Button>
+        ))}
+        {rangePreset === 'custom' && (
+          <>
+            <Input
+              type="date"
+              value={customFrom}
+              onChange={(e) => setCustomFrom(e.target.value)}
+              placeholder="From date"
+              className="w-full sm:w-[180px]"
+            />
+            <Input
+              type="date"
+              value={customTo}
+              onChange={(e) => setCustomTo(e.target.value)}
+              placeholder="To date"
+              className="w-full sm:w-[180px]"
+            />
+          </>
+        )}
+      </div>
+
       {stats && (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
           <Card>
@@ -115,7 +255,7 @@ export default function DashboardPage() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <p className="text-2xl font-bold">{stats.totalVolume} ETH</p>
+              {renderVolumes(stats.volumes, 'totalVolume')}
             </CardContent>
           </Card>
 
@@ -137,14 +277,14 @@ export default function DashboardPage() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <p className="text-2xl font-bold">{stats.averageAmount} ETH</p>
+              {renderVolumes(stats.volumes, 'averageAmount')}
             </CardContent>
           </Card>
         </div>
       )}
 
       {stats && (
-        <div className="grid gap-4 md:grid-cols-3">
+        <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
           <Card>
             <CardHeader>
               <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -156,6 +296,17 @@ export default function DashboardPage() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                Submitted
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold text-blue-600">{stats.submittedCount}</p>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -177,8 +328,163 @@ export default function DashboardPage() {
               <p className="text-2xl font-bold text-red-600">{stats.failedCount}</p>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                Dropped
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold text-gray-500">{stats.droppedCount}</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                Replaced
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold text-purple-600">{stats.replacedCount}</p>
+            </CardContent>
+          </Card>
         </div>
       )}
+
+      {feeStats && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Gas &amp; Fees</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Paid by mined transactions per {feeStats.interval} since{' '}
+              {new Date(feeStats.from).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {feeStats.totals.length === 0 && (
+              <p className="text-sm text-muted-foreground">No mined transactions in this range</p>
+            )}
+            {feeStats.totals.map((fees) => (
+              <div key={fees.chainId} className="space-y-4">
+                {feeStats.totals.length > 1 && (
+                  <h3 className="font-semibold">
+                    {findNetwork(networks, fees.chainId)?.name ?? `Chain ${fees.chainId}`}
+                  </h3>
+                )}
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Total Fees</p>
+                    <p className="text-lg font-semibold">
+                      {formatUnitsRounded(fees.totalFees)} {fees.symbol}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">On Failed Transactions</p>
+                    <p className="text-lg font-semibold text-red-600">
+                      {formatUnitsRounded(fees.failedFees)} {fees.symbol}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{fees.failedCount} of {fees.minedCount} mined</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Average Gas Price</p>
+                    <p className="text-lg font-semibold">
+                      {fees.averageGasPrice ? formatWei(fees.averageGasPrice, 'gwei') : 'N/A'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Median Gas Price</p>
+                    <p className="text-lg font-semibold">
+                      {fees.medianGasPrice ? formatWei(fees.medianGasPrice, 'gwei') : 'N/A'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Fees / {fees.symbol} Volume</p>
+                    <p className="text-lg font-semibold">
+                      {fees.feePercentOfVolume !== null ? `${fees.feePercentOfVolume}%` : 'N/A'}
+                    </p>
+                  </div>
+                </div>
+                <FeesChart
+                  buckets={feeStats.buckets}
+                  interval={feeStats.interval}
+                  chainId={fees.chainId}
+                  symbol={fees.symbol}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Top recipients</CardTitle>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant={ranking === 'count' ? 'default' : 'outline'}
+              onClick={() => setAddressRanking('count')}
+            >
+              By count
+            </Button>
+            <Button
+              size="sm"
+              variant={ranking === 'volume' ? 'default' : 'outline'}
+              onClick={() => setAddressRanking('volume')}
+              disabled={selectedChainId === null}
+              title={selectedChainId === null ? 'Select a network to rank by volume' : undefined}
+            >
+              By volume
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {topRecipients.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No transactions in this range</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Address</TableHead>
+                  <TableHead className="text-right">Transactions</TableHead>
+                  <TableHead className="text-right">Success Rate</TableHead>
+                  <TableHead className="text-right">Volume</TableHead>
+                  <TableHead className="text-right">Last Activity</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {topRecipients.map((recipient) => (
+                  <TableRow key={recipient.address}>
+                    <TableCell>
+                      <Link
+                        href={`/transactions?${new URLSearchParams({ address: recipient.address })}`}
+                        className="font-mono text-sm underline-offset-4 hover:underline"
+                        title={recipient.address}
+                      >
+                        {truncateAddress(recipient.address)}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right">{recipient.transactionCount}</TableCell>
+                    <TableCell className="text-right">{recipient.successRate}%</TableCell>
+                    <TableCell className="text-right">
+                      {recipient.volumes.map((volume) => (
+                        <div key={`${volume.chainId}:${volume.tokenAddress ?? 'native'}`}>
+                          {formatUnitsRounded(volume.totalVolume, volume.decimals)} {volume.symbol}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right text-sm text-muted-foreground">
+                      {recipient.lastActivity && formatTimestamp(recipient.lastActivity)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
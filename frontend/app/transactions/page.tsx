@@ -2,7 +2,8 @@
 
 import { useEffect, useState, useMemo, useCallback } from 'react';
 import { transactionsAPI } from '@/lib/api';
-import { Transaction } from '@/lib/types';
+import { PaginatedResponse, SortOrder, Transaction, TransactionSortField } from '@/lib/types';
+import { buildTransactionQuery, fetchAllTransactions, transactionMatchesQuery } from '@/lib/query';
 import { formatAmount, formatTimestamp, truncateAddress, copyToClipboard } from '@/lib/format';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,145 +13,230 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Skeleton } from '@/components/ui/skeleton';
 import { TransactionDetails } from '@/components/TransactionDetails';
 import { CreateTransactionForm } from '@/components/CreateTransactionForm';
+import { ImportTransactionsDialog } from '@/components/ImportTransactionsDialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Copy, ChevronUp, ChevronDown, Search, X, ArrowUpDown, Download } from 'lucide-react';
+import { Copy, ChevronUp, ChevronDown, Search, X, ArrowUpDown, Download, Upload } from 'lucide-react';
 import { transactionsToCsv, downloadCsv } from '@/lib/csv';
 import { useToast } from '@/hooks/use-toast';
-
-type SortField = 'date' | 'amount' | 'status';
-type SortOrder = 'asc' | 'desc';
+import { useTransactionEvents } from '@/hooks/use-transaction-events';
+import { useNetworks } from '@/hooks/use-networks';
+import { useTokens } from '@/hooks/use-tokens';
+import { findNetwork, nativeSymbol } from '@/lib/networks';
+import { transactionAsset } from '@/lib/tokens';
 
 export default function TransactionsPage() {
   const { toast } = useToast();
+  const { networks, ready, selectedChainId, selectedNetwork } = useNetworks();
+  const tokens = useTokens();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [assetFilter, setAssetFilter] = useState<string>('all');
   const [dateFrom, setDateFrom] = useState<string>('');
   const [dateTo, setDateTo] = useState<string>('');
   const [searchQuery, setSearchQuery] = useState<string>('');
-  const [debouncedSearch, setDebouncedSearch] = useState<string>('');
+  const [minAmount, setMinAmount] = useState<string>('');
+  const [maxAmount, setMaxAmount] = useState<string>('');
+  const [debouncedText, setDebouncedText] = useState({ address: '', minAmount: '', maxAmount: '' });
   
-  const [sortField, setSortField] = useState<SortField>('date');
+  const [detailsOpen, setDetailsOpen] = useState(false);
+  const [selected, setSelected] = useState<Transaction | null>(null);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+
+  const [sortField, setSortField] = useState<TransactionSortField>('date');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
   
-  const [currentPage, setCurrentPage] = useState(1);
+  // Cursor of every page visited so far; the last entry is the current page
+  const [pageCursors, setPageCursors] = useState<(string | undefined)[]>([undefined]);
+  const currentPage = pageCursors.length;
   const itemsPerPage = 15;
-  const [pollingEnabled, setPollingEnabled] = useState(true);
+
+  const resetPaging = () => setPageCursors(prev => (prev.length === 1 ? prev : [undefined]));
+
+  // The dashboard links an address here as ?address=
+  useEffect(() => {
+    const address = new URLSearchParams(window.location.search).get('address');
+    if (!address) return;
+    setSearchQuery(address);
+    setDebouncedText(prev => ({ ...prev, address }));
+  }, []);
 
   useEffect(() => {
     const timer = setTimeout(() => {
-      setDebouncedSearch(searchQuery);
-      setCurrentPage(1);
+      setDebouncedText(prev =>
+        prev.address === searchQuery && prev.minAmount === minAmount && prev.maxAmount === maxAmount
+          ? prev
+          : { address: searchQuery, minAmount, maxAmount },
+      );
+      resetPaging();
     }, 300);
     return () => clearTimeout(timer);
-  }, [searchQuery]);
+  }, [searchQuery, minAmount, maxAmount]);
+
+  // Tokens on the selected network; every network's when all are shown
+  const assetTokens = useMemo(
+    () => tokens.filter(token => selectedChainId === null || token.chainId === selectedChainId),
+    [tokens, selectedChainId],
+  );
+  const filteredToken =
+    assetFilter === 'all' || assetFilter === 'native'
+      ? undefined
+      : assetTokens.find(token => token.address === assetFilter);
+  const assetDecimals = filteredToken?.decimals;
+  const amountUnit =
+    assetFilter === 'native' ? nativeSymbol(selectedNetwork) : filteredToken?.symbol ?? nativeSymbol(undefined);
+
+  useEffect(() => {
+    // A token filter from another network would match nothing
+    setAssetFilter(prev => (prev === 'all' || prev === 'native' ? prev : 'all'));
+    resetPaging();
+  }, [selectedChainId]);
+
+  const query = useMemo(
+    () =>
+      buildTransactionQuery(
+        {
+          chainId: selectedChainId,
+          asset: assetFilter,
+          assetDecimals,
+          status: statusFilter,
+          dateFrom,
+          dateTo,
+          ...debouncedText,
+          sortField,
+          sortOrder,
+        },
+        itemsPerPage,
+        pageCursors[pageCursors.length - 1],
+      ),
+    [
+      selectedChainId,
+      assetFilter,
+      assetDecimals,
+      statusFilter,
+      dateFrom,
+      dateTo,
+      debouncedText,
+      sortField,
+      sortOrder,
+      pageCursors,
+    ],
+  );
+
+  const applyPage = (page: PaginatedResponse<Transaction>) => {
+    setTransactions(page.data);
+    setNextCursor(page.nextCursor);
+    setTotalCount(page.totalCount);
+  };
 
   const fetchTransactions = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await transactionsAPI.getAll();
-      setTransactions(response.data.data);
+      const response = await transactionsAPI.getAll(query);
+      applyPage(response.data);
     } catch (err) {
       setError('Failed to load transactions. Please try again.');
       console.error('Error fetching transactions:', err);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [query]);
 
+  // Wait for the stored network selection so the first request is already filtered
   useEffect(() => {
-    fetchTransactions();
-  }, [fetchTransactions]);
+    if (ready) fetchTransactions();
+  }, [ready, fetchTransactions]);
+
+  const replaceTransaction = (transaction: Transaction) => {
+    setTransactions(prev => prev.map(tx => (tx.id === transaction.id ? transaction : tx)));
+    setSelected(prev => (prev?.id === transaction.id ? transaction : prev));
+  };
+
+  const { connected } = useTransactionEvents({
+    onCreated: ({ transaction }) => {
+      if (!transactionMatchesQuery(transaction, query, assetDecimals)) return;
+      setTotalCount(count => count + 1);
+      // Only the first page of a newest-first listing can show the new row in place
+      if (currentPage === 1 && sortField === 'date' && sortOrder === 'desc') {
+        setTransactions(prev =>
+          prev.some(tx => tx.id === transaction.id)
+            ? prev
+            : [transaction, ...prev].slice(0, itemsPerPage),
+        );
+      }
+    },
+    onStatusChanged: ({ transaction }) => replaceTransaction(transaction),
+    onUpdated: ({ transaction }) => replaceTransaction(transaction),
+    onNonceGap: ({ fromAddress, nonce }) => {
+      toast({
+        title: `Nonce gap at ${nonce}`,
+        description: `Later transactions from ${truncateAddress(fromAddress)} cannot be mined until nonce ${nonce} is used`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Live updates make polling redundant; poll only while the socket is down
+  const pollingEnabled = !connected;
 
   useEffect(() => {
-    if (!pollingEnabled) return;
+    if (!pollingEnabled || !ready) return;
     const interval = setInterval(() => {
-      transactionsAPI.getAll().then(res => {
-        setTransactions(res.data.data);
+      transactionsAPI.getAll(query).then(res => {
+        applyPage(res.data);
       }).catch(err => {
         console.error('Polling error:', err);
       });
     }, 5000);
     return () => clearInterval(interval);
-  }, [pollingEnabled]);
-
-  const filteredAndSortedTransactions = useMemo(() => {
-    let result = [...transactions];
-
-    if (statusFilter !== 'all') {
-      result = result.filter(tx => tx.status === statusFilter);
-    }
+  }, [pollingEnabled, ready, query]);
 
-    if (dateFrom) {
-      const fromDate = new Date(dateFrom);
-      result = result.filter(tx => new Date(tx.timestamp) >= fromDate);
-    }
-
-    if (dateTo) {
-      const toDate = new Date(dateTo);
-      toDate.setHours(23, 59, 59, 999);
-      result = result.filter(tx => new Date(tx.timestamp) <= toDate);
-    }
-
-    if (debouncedSearch) {
-      const query = debouncedSearch.toLowerCase();
-      result = result.filter(tx =>
-        tx.hash.toLowerCase().includes(query) ||
-        tx.fromAddress.toLowerCase().includes(query) ||
-        tx.toAddress.toLowerCase().includes(query)
-      );
-    }
-
-    result.sort((a, b) => {
-      let comparison = 0;
-      
-      if (sortField === 'date') {
-        comparison = new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
-      } else if (sortField === 'amount') {
-        comparison = parseFloat(a.amount) - parseFloat(b.amount);
-      } else if (sortField === 'status') {
-        comparison = a.status.localeCompare(b.status);
-      }
-      
-      return sortOrder === 'asc' ? comparison : -comparison;
-    });
-
-    return result;
-  }, [transactions, statusFilter, dateFrom, dateTo, debouncedSearch, sortField, sortOrder]);
+  const assets = useMemo(
+    () => new Map(transactions.map(tx => [tx.id, transactionAsset(tx, networks, tokens)])),
+    [transactions, networks, tokens],
+  );
 
-  const paginatedTransactions = useMemo(() => {
-    const start = (currentPage - 1) * itemsPerPage;
-    const end = start + itemsPerPage;
-    return filteredAndSortedTransactions.slice(start, end);
-  }, [filteredAndSortedTransactions, currentPage]);
+  const totalPages = Math.max(1, Math.ceil(totalCount / itemsPerPage));
+  const hasActiveFilters =
+    statusFilter !== 'all' || assetFilter !== 'all' || !!dateFrom || !!dateTo || !!searchQuery || !!minAmount || !!maxAmount;
 
-  const totalPages = Math.ceil(filteredAndSortedTransactions.length / itemsPerPage);
-
-  const [detailsOpen, setDetailsOpen] = useState(false);
-  const [selected, setSelected] = useState<Transaction | null>(null);
-  const [createOpen, setCreateOpen] = useState(false);
-  const showingFrom = filteredAndSortedTransactions.length === 0 ? 0 : (currentPage - 1) * itemsPerPage + 1;
-  const showingTo = Math.min(currentPage * itemsPerPage, filteredAndSortedTransactions.length);
+  const showingFrom = transactions.length === 0 ? 0 : (currentPage - 1) * itemsPerPage + 1;
+  const showingTo = showingFrom === 0 ? 0 : showingFrom + transactions.length - 1;
 
   const clearFilters = () => {
     setStatusFilter('all');
+    setAssetFilter('all');
     setDateFrom('');
     setDateTo('');
     setSearchQuery('');
-    setCurrentPage(1);
+    setMinAmount('');
+    setMaxAmount('');
+    resetPaging();
   };
 
-  const handleSort = (field: SortField) => {
+  const handleSort = (field: TransactionSortField) => {
     if (sortField === field) {
       setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
     } else {
       setSortField(field);
       setSortOrder('desc');
     }
-    setCurrentPage(1);
+    resetPaging();
+  };
+
+  const goToNextPage = () => {
+    if (nextCursor) setPageCursors(prev => [...prev, nextCursor]);
+  };
+
+  const goToPreviousPage = () => {
+    setPageCursors(prev => (prev.length > 1 ? prev.slice(0, -1) : prev));
   };
 
   const handleCopy = async (text: string, label: string) => {
@@ -175,14 +261,20 @@ export default function TransactionsPage() {
         return 'bg-green-500/10 text-green-700 hover:bg-green-500/20';
       case 'pending':
         return 'bg-yellow-500/10 text-yellow-700 hover:bg-yellow-500/20';
+      case 'submitted':
+        return 'bg-blue-500/10 text-blue-700 hover:bg-blue-500/20';
       case 'failed':
         return 'bg-red-500/10 text-red-700 hover:bg-red-500/20';
+      case 'dropped':
+        return 'bg-gray-500/10 text-gray-500 hover:bg-gray-500/20 line-through';
+      case 'replaced':
+        return 'bg-purple-500/10 text-purple-700 hover:bg-purple-500/20 line-through';
       default:
         return 'bg-gray-500/10 text-gray-700 hover:bg-gray-500/20';
     }
   };
 
-  const SortIcon = ({ field }: { field: SortField }) => {
+  const SortIcon = ({ field }: { field: TransactionSortField }) => {
     if (sortField !== field) {
       return <ArrowUpDown className="ml-2 h-4 w-4 text-muted-foreground" />;
     }
@@ -191,14 +283,28 @@ export default function TransactionsPage() {
       <ChevronDown className="ml-2 h-4 w-4" />;
   };
 
-  const handleExportCsv = () => {
-    const csv = transactionsToCsv(filteredAndSortedTransactions);
-    const now = new Date().toISOString().slice(0, 10);
-    downloadCsv(`transactions-${now}.csv`, csv);
-    toast({
-      title: 'Exported!',
-      description: `${filteredAndSortedTransactions.length} transactions exported to CSV`,
-    });
+  // Exports every transaction matching the filters, not just the page on screen
+  const handleExportCsv = async () => {
+    try {
+      setExporting(true);
+      const all = await fetchAllTransactions(query, async page => (await transactionsAPI.getAll(page)).data);
+      const csv = transactionsToCsv(all, tokens);
+      const now = new Date().toISOString().slice(0, 10);
+      downloadCsv(`transactions-${now}.csv`, csv);
+      toast({
+        title: 'Exported!',
+        description: `${all.length} transactions exported to CSV`,
+      });
+    } catch (err) {
+      console.error('Error exporting transactions:', err);
+      toast({
+        title: 'Export failed',
+        description: 'Could not load the transactions to export. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
   };
 
   return (
@@ -211,10 +317,16 @@ export default function TransactionsPage() {
       </div>
 
       <div className="flex items-center justify-between">
-        <Button variant="outline" onClick={handleExportCsv} disabled={filteredAndSortedTransactions.length === 0}>
-          <Download className="h-4 w-4 mr-2" />
-          Export CSV
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExportCsv} disabled={exporting || transactions.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import CSV
+          </Button>
+        </div>
         <Button onClick={() => setCreateOpen(true)}>New Transaction</Button>
       </div>
 
@@ -222,7 +334,7 @@ export default function TransactionsPage() {
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Search by hash or address..."
+            placeholder="Search by address..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-9 pr-9"
@@ -237,22 +349,56 @@ export default function TransactionsPage() {
           )}
         </div>
 
-        <Select value={statusFilter} onValueChange={setStatusFilter}>
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => {
+            setStatusFilter(value);
+            resetPaging();
+          }}
+        >
           <SelectTrigger className="w-full sm:w-[180px]">
             <SelectValue placeholder="Filter by status" />
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Status</SelectItem>
             <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="submitted">Submitted</SelectItem>
             <SelectItem value="confirmed">Confirmed</SelectItem>
             <SelectItem value="failed">Failed</SelectItem>
+            <SelectItem value="dropped">Dropped</SelectItem>
+            <SelectItem value="replaced">Replaced</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={assetFilter}
+          onValueChange={(value) => {
+            setAssetFilter(value);
+            resetPaging();
+          }}
+        >
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <SelectValue placeholder="Filter by asset" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Assets</SelectItem>
+            <SelectItem value="native">{selectedNetwork ? selectedNetwork.nativeSymbol : 'Native currency'}</SelectItem>
+            {assetTokens.map((token) => (
+              <SelectItem key={`${token.chainId}:${token.address}`} value={token.address}>
+                {token.symbol}
+                {selectedChainId === null && ` (${findNetwork(networks, token.chainId)?.name ?? token.chainId})`}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
 
         <Input
           type="date"
           value={dateFrom}
-          onChange={(e) => setDateFrom(e.target.value)}
+          onChange={(e) => {
+            setDateFrom(e.target.value);
+            resetPaging();
+          }}
           placeholder="From date"
           className="w-full sm:w-[180px]"
         />
@@ -260,11 +406,30 @@ export default function TransactionsPage() {
         <Input
           type="date"
           value={dateTo}
-          onChange={(e) => setDateTo(e.target.value)}
+          onChange={(e) => {
+            setDateTo(e.target.value);
+            resetPaging();
+          }}
           placeholder="To date"
           className="w-full sm:w-[180px]"
         />
 
+        <Input
+          inputMode="decimal"
+          value={minAmount}
+          onChange={(e) => setMinAmount(e.target.value)}
+          placeholder={`Min ${amountUnit}`}
+          className="w-full sm:w-[110px]"
+        />
+
+        <Input
+          inputMode="decimal"
+          value={maxAmount}
+          onChange={(e) => setMaxAmount(e.target.value)}
+          placeholder={`Max ${amountUnit}`}
+          className="w-full sm:w-[110px]"
+        />
+
         <Button
           variant="outline"
           onClick={clearFilters}
@@ -295,17 +460,17 @@ export default function TransactionsPage() {
         </Alert>
       )}
 
-      {!loading && !error && filteredAndSortedTransactions.length === 0 && (
+      {!loading && !error && transactions.length === 0 && (
         <div className="rounded-lg border bg-card p-8 text-center">
           <p className="text-muted-foreground">
-            {transactions.length === 0
+            {!hasActiveFilters
               ? 'No transactions found. Create your first transaction to get started.'
               : 'No transactions match your filters. Try adjusting your search criteria.'}
           </p>
         </div>
       )}
 
-      {!loading && !error && filteredAndSortedTransactions.length > 0 && (
+      {!loading && !error && transactions.length > 0 && (
         <>
           <div className="rounded-md border">
             <Table>
@@ -320,6 +485,7 @@ export default function TransactionsPage() {
                       <SortIcon field="date" />
                     </button>
                   </TableHead>
+                  {selectedChainId === null && <TableHead>Network</TableHead>}
                   <TableHead>Hash</TableHead>
                   <TableHead>From</TableHead>
                   <TableHead>To</TableHead>
@@ -332,6 +498,7 @@ export default function TransactionsPage() {
                       <SortIcon field="amount" />
                     </button>
                   </TableHead>
+                  <TableHead>Asset</TableHead>
                   <TableHead>
                     <button
                       onClick={() => handleSort('status')}
@@ -344,7 +511,7 @@ export default function TransactionsPage() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {paginatedTransactions.map((tx) => (
+                {transactions.map((tx) => (
                   <TableRow
                     key={tx.id}
                     className="cursor-pointer hover:bg-muted/50"
@@ -356,21 +523,30 @@ export default function TransactionsPage() {
                     <TableCell className="text-sm text-muted-foreground">
                       {formatTimestamp(tx.timestamp)}
                     </TableCell>
+                    {selectedChainId === null && (
+                      <TableCell className="text-sm">
+                        {findNetwork(networks, tx.chainId)?.name ?? tx.chainId ?? '—'}
+                      </TableCell>
+                    )}
                     <TableCell>
-                      <div className="flex items-center gap-2">
-                        <code className="text-sm">{truncateAddress(tx.hash)}</code>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-6 w-6 p-0"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleCopy(tx.hash, 'Transaction hash');
-                          }}
-                        >
-                          <Copy className="h-3 w-3" />
-                        </Button>
-                      </div>
+                      {tx.hash ? (
+                        <div className="flex items-center gap-2">
+                          <code className="text-sm">{truncateAddress(tx.hash)}</code>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleCopy(tx.hash ?? '', 'Transaction hash');
+                            }}
+                          >
+                            <Copy className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Not broadcast</span>
+                      )}
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
@@ -405,7 +581,12 @@ export default function TransactionsPage() {
                       </div>
                     </TableCell>
                     <TableCell className="font-medium">
-                      {formatAmount(tx.amount)} ETH
+                      {formatAmount(tx.amount, assets.get(tx.id)?.decimals)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" title={tx.tokenAddress ?? undefined}>
+                        {assets.get(tx.id)?.symbol}
+                      </Badge>
                     </TableCell>
                     <TableCell>
                       <Badge className={getStatusColor(tx.status)} variant="outline">
@@ -420,51 +601,28 @@ export default function TransactionsPage() {
 
           <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
             <p className="text-sm text-muted-foreground">
-              Showing {showingFrom}–{showingTo} of {filteredAndSortedTransactions.length} transactions
+              Showing {showingFrom}–{showingTo} of {totalCount} transactions
             </p>
 
             <div className="flex items-center gap-2">
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setCurrentPage(currentPage - 1)}
+                onClick={goToPreviousPage}
                 disabled={currentPage === 1}
               >
                 Previous
               </Button>
 
-              <div className="flex gap-1">
-                {[...Array(Math.min(totalPages, 5))].map((_, i) => {
-                  let pageNum;
-                  if (totalPages <= 5) {
-                    pageNum = i + 1;
-                  } else if (currentPage <= 3) {
-                    pageNum = i + 1;
-                  } else if (currentPage >= totalPages - 2) {
-                    pageNum = totalPages - 4 + i;
-                  } else {
-                    pageNum = currentPage - 2 + i;
-                  }
-
-                  return (
-                    <Button
-                      key={pageNum}
-                      variant={currentPage === pageNum ? 'default' : 'outline'}
-                      size="sm"
-                      onClick={() => setCurrentPage(pageNum)}
-                      className="w-9"
-                    >
-                      {pageNum}
-                    </Button>
-                  );
-                })}
-              </div>
+              <span className="text-sm text-muted-foreground">
+                Page {currentPage} of {totalPages}
+              </span>
 
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setCurrentPage(currentPage + 1)}
-                disabled={currentPage === totalPages}
+                onClick={goToNextPage}
+                disabled={!nextCursor}
               >
                 Next
               </Button>
@@ -477,6 +635,13 @@ export default function TransactionsPage() {
         transaction={selected}
         open={detailsOpen}
         onClose={() => setDetailsOpen(false)}
+        onReplaced={setSelected}
+      />
+
+      <ImportTransactionsDialog
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        onSuccess={fetchTransactions}
       />
 
       <CreateTransactionForm
@@ -484,7 +649,7 @@ export default function TransactionsPage() {
         onClose={() => setCreateOpen(false)}
         onSuccess={fetchTransactions}
         onOptimisticAdd={(tempTx) => {
-          setTransactions(prev => [tempTx, ...prev]);
+          setTransactions(prev => [tempTx, ...prev].slice(0, itemsPerPage));
         }}
       />
     </div>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, ChangeEvent } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -8,14 +8,58 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Loader2 } from 'lucide-react';
-import { transactionsAPI } from '@/lib/api';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Loader2, Upload } from 'lucide-react';
+import { abisAPI, accountsAPI, CreateTransactionBody, gasAPI, transactionsAPI } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
+import { useNetworks } from '@/hooks/use-networks';
+import { useTokens } from '@/hooks/use-tokens';
+import { findNetwork, nativeSymbol } from '@/lib/networks';
+import { findToken } from '@/lib/tokens';
+import { formatUnitsRounded, formatWei, isValidUnits, parseUnits } from '@/lib/units';
+import { formatTimestamp, truncateAddress } from '@/lib/format';
+import { expectedFeePerGas, FeeInput, findTier, formatWait, maxFeePerGas, tierFormValues } from '@/lib/fees';
+import { argumentPlaceholder, parseAbiJson, parseArgument, writableFunctions } from '@/lib/abi';
+import { describeProjection, simulationIssues } from '@/lib/simulation';
+import { Abi, AbiArgument, Account, AccountBalance, GasEstimate, GasTier, Simulation } from '@/lib/types';
 
 const DRAFT_KEY = 'transaction_form_draft';
 
+// Gas limits the form starts from: a plain transfer, and a typical ERC-20 transfer call with headroom.
+// Other contract calls vary too much, so they start empty and the node estimates them
+const NATIVE_GAS_LIMIT = '21000';
+const TOKEN_GAS_LIMIT = '65000';
+
+const CALL_MODES = [
+  { value: 'transfer', label: 'Transfer' },
+  { value: 'abi', label: 'Contract call (ABI)' },
+  { value: 'data', label: 'Contract call (raw data)' },
+] as const;
+
+const TIERS: { value: GasTier; label: string }[] = [
+  { value: 'slow', label: 'Slow' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'fast', label: 'Fast' },
+];
+
+const feeField = (label: string) =>
+  z
+    .string()
+    .refine((val) => val === '' || isValidUnits(val), `${label} must be a number with at most 18 decimal places`)
+    .optional();
+
 const createTransactionSchema = z.object({
+  chainId: z.string(),
+  callMode: z.enum(['transfer', 'abi', 'data']),
+  tokenAddress: z.string(), // '' for the native currency
+  abiId: z.string(),
+  functionSignature: z.string(),
+  args: z.array(z.string()), // one per input of the function, as typed
+  data: z.string(),
+  fromAccountId: z.string(),
   toAddress: z
     .string()
     .min(1, 'To address is required')
@@ -23,13 +67,81 @@ const createTransactionSchema = z.object({
   amount: z
     .string()
     .min(1, 'Amount is required')
-    .refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, 'Amount must be a positive number'),
-  gasLimit: z.string().optional(),
-  gasPrice: z.string().optional(),
+    .refine((val) => isValidUnits(val), 'Amount must be a number with at most 18 decimal places'),
+  gasLimit: z
+    .string()
+    .regex(/^\d*$/, 'Gas limit must be a whole number')
+    .optional(),
+  tier: z.enum(['slow', 'standard', 'fast', 'custom']),
+  pricing: z.enum(['legacy', 'eip1559']),
+  gasPrice: feeField('Gas price'),
+  maxFeePerGas: feeField('Max fee'),
+  maxPriorityFeePerGas: feeField('Priority fee'),
+}).superRefine((data, ctx) => {
+  // Contract calls may send no value
+  if (data.callMode === 'transfer' && isValidUnits(data.amount) && parseUnits(data.amount) === BigInt(0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['amount'], message: 'Amount must be greater than zero' });
+  }
+  if (data.callMode === 'abi' && !data.abiId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['abiId'], message: 'Pick or upload an ABI' });
+  }
+  if (data.callMode === 'abi' && data.abiId && !data.functionSignature) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['functionSignature'], message: 'Pick a function' });
+  }
+  if (data.callMode === 'data' && !/^0x([a-fA-F0-9]{2})*$/.test(data.data)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['data'], message: 'Data must be 0x-prefixed hex bytes' });
+  }
+
+  if (data.pricing !== 'eip1559' || (!data.maxFeePerGas && !data.maxPriorityFeePerGas)) return;
+  if (!data.maxFeePerGas || !data.maxPriorityFeePerGas) {
+    const path = data.maxFeePerGas ? 'maxPriorityFeePerGas' : 'maxFeePerGas';
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message: 'Set both the max fee and the priority fee' });
+    return;
+  }
+  if (
+    isValidUnits(data.maxFeePerGas) &&
+    isValidUnits(data.maxPriorityFeePerGas) &&
+    parseUnits(data.maxPriorityFeePerGas) > parseUnits(data.maxFeePerGas)
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['maxPriorityFeePerGas'],
+      message: 'Priority fee cannot exceed the max fee',
+    });
+  }
 });
 
 type CreateTransactionFormData = z.infer<typeof createTransactionSchema>;
 
+// Fees start empty and are filled from the standard tier once the estimate loads
+const DEFAULT_VALUES: CreateTransactionFormData = {
+  chainId: '',
+  callMode: 'transfer',
+  tokenAddress: '',
+  abiId: '',
+  functionSignature: '',
+  args: [],
+  data: '',
+  fromAccountId: '',
+  toAddress: '',
+  amount: '',
+  gasLimit: NATIVE_GAS_LIMIT,
+  tier: 'standard',
+  pricing: 'eip1559',
+  gasPrice: '',
+  maxFeePerGas: '',
+  maxPriorityFeePerGas: '',
+};
+
+const toWei = (value?: string) => (value && isValidUnits(value) ? parseUnits(value) : undefined);
+
+// The checked request, kept as sent so the create matches what was reviewed
+type Review = {
+  values: CreateTransactionFormData;
+  body: CreateTransactionBody;
+  simulation: Simulation;
+};
+
 type CreateTransactionFormProps = {
   open: boolean;
   onClose: () => void;
@@ -40,19 +152,50 @@ type CreateTransactionFormProps = {
 export function CreateTransactionForm({ open, onClose, onSuccess, onOptimisticAdd }: CreateTransactionFormProps) {
   const { toast } = useToast();
   const [submitting, setSubmitting] = useState(false);
+  const [estimate, setEstimate] = useState<GasEstimate | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [abis, setAbis] = useState<Abi[]>([]);
+  const [balance, setBalance] = useState<AccountBalance | null>(null);
+  const [uploadingAbi, setUploadingAbi] = useState(false);
+  const [review, setReview] = useState<Review | null>(null);
+  const abiFileRef = useRef<HTMLInputElement>(null);
+  const { networks, selectedChainId, defaultNetwork } = useNetworks();
+  const tokens = useTokens();
 
   const form = useForm<CreateTransactionFormData>({
     resolver: zodResolver(createTransactionSchema),
-    defaultValues: {
-      toAddress: '',
-      amount: '',
-      gasLimit: '21000',
-      gasPrice: '0.00000002',
-    },
+    defaultValues: DEFAULT_VALUES,
   });
 
-  const { watch, reset } = form;
+  const { watch, reset, setValue } = form;
   const watchedValues = watch();
+  const { tier, pricing, fromAccountId, chainId, tokenAddress, callMode, abiId, functionSignature } = watchedValues;
+  const network = findNetwork(networks, Number(chainId));
+  const networkTokens = tokens.filter((token) => token.chainId === Number(chainId));
+  const token = tokenAddress ? findToken(tokens, Number(chainId), tokenAddress) : undefined;
+  const assetSymbol = token?.symbol ?? nativeSymbol(network);
+  const senderAddress = accounts.find((account) => account.id === fromAccountId)?.address;
+  const abi = abis.find((candidate) => candidate.id === abiId);
+  const abiFunctions = abi ? writableFunctions(abi.abi) : [];
+  const abiFunction = abiFunctions.find((fn) => fn.signature === functionSignature);
+  // Networks without a base fee only take legacy transactions
+  const supportsEip1559 = !estimate || estimate.baseFeePerGas !== null;
+
+  // One key per submission attempt: a retry of the same values (e.g. after a
+  // timeout) reuses it so the server can deduplicate, while any edit starts a new attempt
+  const idempotencyKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const subscription = watch(() => {
+      idempotencyKeyRef.current = null;
+    });
+    return () => subscription.unsubscribe();
+  }, [watch]);
+
+  // Every opening starts from the form, not an earlier review
+  useEffect(() => {
+    if (!open) setReview(null);
+  }, [open]);
 
   useEffect(() => {
     if (open) {
@@ -60,7 +203,8 @@ export function CreateTransactionForm({ open, onClose, onSuccess, onOptimisticAd
         const draft = localStorage.getItem(DRAFT_KEY);
         if (draft) {
           const parsed = JSON.parse(draft);
-          reset(parsed);
+          // Drafts saved before fee tiers existed lack the newer fields
+          reset({ ...DEFAULT_VALUES, ...parsed });
         }
       } catch (error) {
         console.error('Failed to load draft:', error);
@@ -68,6 +212,117 @@ export function CreateTransactionForm({ open, onClose, onSuccess, onOptimisticAd
     }
   }, [open, reset]);
 
+  useEffect(() => {
+    if (!open) return;
+    gasAPI
+      .estimate({ chainId: Number(chainId) || undefined })
+      .then((response) => setEstimate(response.data.data))
+      .catch((error) => {
+        console.error('Failed to load gas estimate:', error);
+        setEstimate(null);
+      });
+  }, [open, chainId]);
+
+  useEffect(() => {
+    if (!open) return;
+    accountsAPI
+      .getAll()
+      .then((response) => setAccounts(response.data.data))
+      .catch((error) => {
+        console.error('Failed to load accounts:', error);
+      });
+  }, [open]);
+
+  // What the sender can still spend of the asset sent
+  useEffect(() => {
+    if (!open || !senderAddress || !chainId) {
+      setBalance(null);
+      return;
+    }
+
+    let cancelled = false;
+    accountsAPI
+      .getBalance(senderAddress, { chainId: Number(chainId), tokenAddress: tokenAddress || undefined })
+      .then((response) => {
+        if (!cancelled) setBalance(response.data.data);
+      })
+      .catch((error) => {
+        console.error('Failed to load balance:', error);
+        if (!cancelled) setBalance(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, senderAddress, chainId, tokenAddress]);
+
+  // ABIs bound to a contract on another network cannot be used here
+  useEffect(() => {
+    if (!open) return;
+    abisAPI
+      .getAll({ chainId: Number(chainId) || undefined })
+      .then((response) => setAbis(response.data.data))
+      .catch((error) => {
+        console.error('Failed to load ABIs:', error);
+      });
+  }, [open, chainId]);
+
+  // Start on the network picked in the nav, or the default one, unless the draft names another
+  useEffect(() => {
+    if (networks.length === 0 || findNetwork(networks, Number(chainId))) return;
+    const fallback = selectedChainId ?? defaultNetwork?.chainId;
+    if (fallback) setValue('chainId', fallback.toString());
+  }, [networks, chainId, selectedChainId, defaultNetwork, setValue]);
+
+  // Tokens belong to one network, so switching networks goes back to its native currency
+  useEffect(() => {
+    if (tokenAddress && tokens.length > 0 && !token) setValue('tokenAddress', '');
+  }, [tokenAddress, tokens, token, setValue]);
+
+  // Contract calls send the native currency along, if anything
+  useEffect(() => {
+    if (callMode !== 'transfer' && tokenAddress) setValue('tokenAddress', '');
+  }, [callMode, tokenAddress, setValue]);
+
+  // Swap the gas limit for the default of the asset or call, unless it was edited
+  const defaultGasLimit = callMode !== 'transfer' ? '' : tokenAddress ? TOKEN_GAS_LIMIT : NATIVE_GAS_LIMIT;
+  useEffect(() => {
+    const gasLimit = form.getValues('gasLimit') ?? '';
+    if ([NATIVE_GAS_LIMIT, TOKEN_GAS_LIMIT, ''].includes(gasLimit)) setValue('gasLimit', defaultGasLimit);
+  }, [defaultGasLimit, form, setValue]);
+
+  // A drafted ABI or function that no longer exists is cleared
+  useEffect(() => {
+    if (abiId && abis.length > 0 && !abi) setValue('abiId', '');
+  }, [abiId, abis, abi, setValue]);
+
+  useEffect(() => {
+    if (functionSignature && abi && !abiFunction) setValue('functionSignature', '');
+  }, [functionSignature, abi, abiFunction, setValue]);
+
+  // Fall back to the first account when none is picked or the drafted one is gone
+  useEffect(() => {
+    if (accounts.length > 0 && !accounts.some((account) => account.id === fromAccountId)) {
+      setValue('fromAccountId', accounts[0].id);
+    }
+  }, [accounts, fromAccountId, setValue]);
+
+  useEffect(() => {
+    if (!supportsEip1559 && pricing === 'eip1559') {
+      setValue('pricing', 'legacy');
+    }
+  }, [supportsEip1559, pricing, setValue]);
+
+  // Keep the fee fields in step with the picked tier; edits switch to custom
+  useEffect(() => {
+    const selected = tier === 'custom' ? null : findTier(estimate, tier);
+    if (!selected) return;
+    const values = tierFormValues(selected, pricing);
+    setValue('gasPrice', values.gasPrice);
+    setValue('maxFeePerGas', values.maxFeePerGas);
+    setValue('maxPriorityFeePerGas', values.maxPriorityFeePerGas);
+  }, [estimate, tier, pricing, setValue]);
+
   useEffect(() => {
     if (open) {
       try {
@@ -78,54 +333,195 @@ export function CreateTransactionForm({ open, onClose, onSuccess, onOptimisticAd
     }
   }, [watchedValues, open]);
 
-  const calculateFee = () => {
-    const gasLimit = parseFloat(watchedValues.gasLimit || '0');
-    const gasPrice = parseFloat(watchedValues.gasPrice || '0');
-    if (isNaN(gasLimit) || isNaN(gasPrice)) return '0.00000000';
-    const fee = gasLimit * gasPrice;
-    return fee.toFixed(8);
+  const fees: FeeInput = {
+    pricing,
+    gasPrice: toWei(watchedValues.gasPrice),
+    maxFeePerGas: toWei(watchedValues.maxFeePerGas),
+    maxPriorityFeePerGas: toWei(watchedValues.maxPriorityFeePerGas),
+  };
+
+  const feeWei = (feePerGas: bigint | null) => {
+    const gasLimit = watchedValues.gasLimit || '0';
+    if (!/^\d+$/.test(gasLimit) || feePerGas === null) return null;
+    return BigInt(gasLimit) * feePerGas;
+  };
+
+  const calculateFee = (feePerGas: bigint | null) => {
+    const fee = feeWei(feePerGas);
+    return fee === null ? null : formatWei(fee, 'ETH');
+  };
+
+  const baseFee = estimate?.baseFeePerGas ? BigInt(estimate.baseFeePerGas) : null;
+  const estimatedFee = calculateFee(expectedFeePerGas(fees, baseFee));
+  const maxFee = calculateFee(maxFeePerGas(fees));
+  const selectedTier = tier === 'custom' ? null : findTier(estimate, tier);
+
+  // Typing a fee overrides the tier
+  const asCustomFee = (onChange: (event: ChangeEvent<HTMLInputElement>) => void) =>
+    (event: ChangeEvent<HTMLInputElement>) => {
+      setValue('tier', 'custom');
+      onChange(event);
+    };
+
+  // Only the fields of the chosen pricing are sent; empty ones let the node pick
+  const feeFields = (data: CreateTransactionFormData) =>
+    data.pricing === 'eip1559'
+      ? {
+        maxFeePerGas: data.maxFeePerGas || undefined,
+        maxPriorityFeePerGas: data.maxPriorityFeePerGas || undefined,
+      }
+      : { gasPrice: data.gasPrice || undefined };
+
+  const selectFunction = (signature: string) => {
+    const fn = abiFunctions.find((candidate) => candidate.signature === signature);
+    setValue('functionSignature', signature);
+    setValue('args', fn ? fn.inputs.map(() => '') : []);
+  };
+
+  // Uploads an ABI file for use on any contract, then picks it
+  const handleAbiFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploadingAbi(true);
+    try {
+      const entries = parseAbiJson(await file.text());
+      const response = await abisAPI.create({ name: file.name.replace(/\.json$/i, ''), abi: entries });
+      const uploaded: Abi = response.data.data;
+      setAbis((current) => [...current, uploaded]);
+      setValue('abiId', uploaded.id);
+      setValue('functionSignature', '');
+      setValue('args', []);
+      toast({ title: 'ABI uploaded', description: `${uploaded.name} can now be used for contract calls` });
+    } catch (error: any) {
+      toast({
+        title: 'Failed to upload ABI',
+        description: error.response?.data?.message || error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setUploadingAbi(false);
+    }
+  };
+
+  // The arguments as the backend encodes them, or null after flagging the ones that do not parse
+  const parseArguments = (data: CreateTransactionFormData): AbiArgument[] | null => {
+    let valid = true;
+    const args = (abiFunction?.inputs ?? []).map((input, index) => {
+      try {
+        return parseArgument(input.type, data.args[index] ?? '');
+      } catch (error: any) {
+        form.setError(`args.${index}`, { message: error.message });
+        valid = false;
+        return '';
+      }
+    });
+    return valid ? args : null;
   };
 
   const onSubmit = async (data: CreateTransactionFormData) => {
+    // The schema checks 18 decimal places; tokens may allow fewer
+    if (token && !isValidUnits(data.amount, token.decimals)) {
+      form.setError('amount', { message: `${token.symbol} amounts have at most ${token.decimals} decimal places` });
+      return;
+    }
+
+    // The backend rejects it too; checking here saves a round trip. Fees are paid in the native currency
+    if (balance && balance.tokenAddress === (token?.address ?? null)) {
+      const fee = token ? BigInt(0) : feeWei(maxFeePerGas(fees)) ?? BigInt(0);
+      if (parseUnits(data.amount, balance.decimals) + fee > BigInt(balance.available)) {
+        form.setError('amount', {
+          message: `Exceeds the available ${formatUnitsRounded(balance.available, balance.decimals)} ${balance.symbol}${
+            token ? '' : ' once the maximum fee is added'
+          }`,
+        });
+        return;
+      }
+    }
+
+    const args = data.callMode === 'abi' ? parseArguments(data) : [];
+    if (!args) return;
+    if (data.callMode === 'abi' && abiFunction && !abiFunction.payable && parseUnits(data.amount) > BigInt(0)) {
+      form.setError('amount', { message: `${abiFunction.name} is not payable; send 0` });
+      return;
+    }
+
+    const body: CreateTransactionBody = {
+      chainId: Number(data.chainId) || undefined,
+      fromAccountId: data.fromAccountId || undefined,
+      toAddress: data.toAddress,
+      tokenAddress: data.tokenAddress || undefined,
+      data: data.callMode === 'data' ? data.data : undefined,
+      call:
+        data.callMode === 'abi'
+          ? { abiId: data.abiId, function: data.functionSignature, args }
+          : undefined,
+      amount: data.amount,
+      gasLimit: data.gasLimit || undefined,
+      ...feeFields(data),
+    };
+
+    // The server checks the request without creating it, so problems show before anything is sent
+    try {
+      setSubmitting(true);
+      const response = await transactionsAPI.simulate(body);
+      setReview({ values: data, body, simulation: response.data.data });
+    } catch (error: any) {
+      toast({
+        title: 'Could not check the transaction',
+        description: error.response?.data?.message || error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const confirmCreate = async () => {
+    if (!review) return;
+    const { values: data, body } = review;
+
+    if (!idempotencyKeyRef.current) {
+      idempotencyKeyRef.current = crypto.randomUUID();
+    }
+
     try {
       setSubmitting(true);
 
       if (onOptimisticAdd) {
         const tempTx = {
           id: `temp-${Date.now()}`,
-          hash: '0x...',
-          fromAddress: '0x...',
+          chainId: network?.chainId,
+          hash: null,
+          fromAddress: accounts.find((account) => account.id === data.fromAccountId)?.address ?? '0x...',
+          fromAccountId: data.fromAccountId || null,
           toAddress: data.toAddress,
-          amount: data.amount,
+          tokenAddress: data.tokenAddress || null,
+          data: data.callMode === 'data' ? data.data : null,
+          amount: parseUnits(data.amount, token?.decimals).toString(),
           status: 'pending' as const,
-          gasLimit: data.gasLimit || '21000',
-          gasPrice: data.gasPrice || '0.00000002',
+          gasLimit: data.gasLimit || NATIVE_GAS_LIMIT,
+          type: data.pricing,
+          gasPrice: fees.pricing === 'legacy' ? fees.gasPrice?.toString() : undefined,
+          maxFeePerGas: fees.pricing === 'eip1559' ? fees.maxFeePerGas?.toString() : undefined,
+          maxPriorityFeePerGas: fees.pricing === 'eip1559' ? fees.maxPriorityFeePerGas?.toString() : undefined,
           timestamp: new Date().toISOString(),
         };
         onOptimisticAdd(tempTx);
       }
 
-      const response = await transactionsAPI.create({
-        toAddress: data.toAddress,
-        amount: data.amount,
-        gasLimit: data.gasLimit || '21000',
-        gasPrice: data.gasPrice || '0.00000002',
-      });
-
-      const transaction = response.data.data;
+      await transactionsAPI.create(body, { idempotencyKey: idempotencyKeyRef.current });
+      idempotencyKeyRef.current = null;
       
       toast({
         title: 'Transaction created successfully!',
-        description: `Transaction hash: ${transaction.hash}`,
+        description: 'It will get a hash once it is broadcast to the network',
       });
 
       localStorage.removeItem(DRAFT_KEY);
-      reset({
-        toAddress: '',
-        amount: '',
-        gasLimit: '21000',
-        gasPrice: '0.00000002',
-      });
+      reset(DEFAULT_VALUES);
+      setReview(null);
       
       onSuccess();
       onClose();
@@ -143,12 +539,7 @@ export function CreateTransactionForm({ open, onClose, onSuccess, onOptimisticAd
 
   const handleClearDraft = () => {
     localStorage.removeItem(DRAFT_KEY);
-    reset({
-      toAddress: '',
-      amount: '',
-      gasLimit: '21000',
-      gasPrice: '0.00000002',
-    });
+    reset(DEFAULT_VALUES);
     toast({
       title: 'Draft cleared',
       description: 'Form has been reset to defaults',
@@ -159,116 +550,576 @@ export function CreateTransactionForm({ open, onClose, onSuccess, onOptimisticAd
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Create New Transaction</DialogTitle>
+          <DialogTitle>{review ? 'Review Transaction' : 'Create New Transaction'}</DialogTitle>
           <DialogDescription>
-            Fill in the details to create a new blockchain transaction
+            {review
+              ? 'Check what the transaction will do before it is created'
+              : 'Fill in the details to create a new blockchain transaction'}
           </DialogDescription>
         </DialogHeader>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="toAddress"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>To Address *</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="0x..."
-                      {...field}
-                      disabled={submitting}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
+        {review ? (
+          <ReviewStep
+            review={review}
+            submitting={submitting}
+            onBack={() => setReview(null)}
+            onConfirm={confirmCreate}
+          />
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="chainId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Network</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      disabled={submitting || networks.length === 0}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Default network" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {networks.map((option) => (
+                          <SelectItem key={option.chainId} value={option.chainId.toString()}>
+                            {option.name} (chain {option.chainId})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="callMode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Transaction Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={submitting}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CALL_MODES.map(({ value, label }) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {callMode === 'transfer' && (
+                <FormField
+                  control={form.control}
+                  name="tokenAddress"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Asset</FormLabel>
+                      <Select
+                        value={field.value || 'native'}
+                        onValueChange={(value) => field.onChange(value === 'native' ? '' : value)}
+                        disabled={submitting}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="native">{nativeSymbol(network)}</SelectItem>
+                          {networkTokens.map((option) => (
+                            <SelectItem key={option.address} value={option.address}>
+                              {option.symbol} ({truncateAddress(option.address)})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               )}
-            />
-
-            <FormField
-              control={form.control}
-              name="amount"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Amount (ETH) *</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="text"
-                      placeholder="0.0"
-                      {...field}
-                      disabled={submitting}
+
+              <FormField
+                control={form.control}
+                name="fromAccountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>From Account</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      disabled={submitting || accounts.length === 0}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Default account" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.label ?? `Account ${account.index}`} ({truncateAddress(account.address)})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {balance && (
+                      <FormDescription>
+                        Available: {formatUnitsRounded(balance.available, balance.decimals)} {balance.symbol}
+                        {BigInt(balance.pendingOutflow) > BigInt(0) &&
+                          ` (${formatUnitsRounded(balance.pendingOutflow, balance.decimals)} held by pending transactions)`}
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="toAddress"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{callMode === 'transfer' ? 'To Address *' : 'Contract Address *'}</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="0x..."
+                        {...field}
+                        disabled={submitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{callMode === 'transfer' ? 'Amount' : 'Value'} ({assetSymbol}) *</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="text"
+                        placeholder="0.0"
+                        {...field}
+                        disabled={submitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {callMode === 'abi' && (
+                <div className="space-y-4 rounded-md border p-4">
+                  <FormField
+                    control={form.control}
+                    name="abiId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>ABI</FormLabel>
+                        <div className="flex gap-2">
+                          <Select
+                            value={field.value}
+                            onValueChange={(value) => {
+                              field.onChange(value);
+                              selectFunction('');
+                              // An ABI bound to a contract can only call that contract
+                              const picked = abis.find((candidate) => candidate.id === value);
+                              if (picked?.address) setValue('toAddress', picked.address);
+                            }}
+                            disabled={submitting || abis.length === 0}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder={abis.length > 0 ? 'Pick an ABI' : 'No ABIs uploaded'} />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {abis.map((option) => (
+                                <SelectItem key={option.id} value={option.id}>
+                                  {option.name}
+                                  {option.address && ` (${truncateAddress(option.address)})`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            title="Upload an ABI JSON file"
+                            onClick={() => abiFileRef.current?.click()}
+                            disabled={submitting || uploadingAbi}
+                          >
+                            {uploadingAbi ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                          </Button>
+                          <input
+                            ref={abiFileRef}
+                            type="file"
+                            accept=".json,application/json"
+                            className="hidden"
+                            onChange={handleAbiFile}
+                          />
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {abi && (
+                    <FormField
+                      control={form.control}
+                      name="functionSignature"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Function</FormLabel>
+                          <Select
+                            value={field.value}
+                            onValueChange={selectFunction}
+                            disabled={submitting || abiFunctions.length === 0}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue
+                                  placeholder={abiFunctions.length > 0 ? 'Pick a function' : 'No state-changing functions'}
+                                />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {abiFunctions.map((fn) => (
+                                <SelectItem key={fn.signature} value={fn.signature}>
+                                  {fn.signature}
+                                  {fn.payable && ' (payable)'}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
                     />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="gasLimit"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Gas Limit (optional)</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="text"
-                      placeholder="21000"
-                      {...field}
-                      disabled={submitting}
+                  )}
+
+                  {abiFunction?.inputs.map((input, index) => (
+                    <FormField
+                      key={`${abiFunction.signature}-${index}`}
+                      control={form.control}
+                      name={`args.${index}`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            {input.name || `Argument ${index + 1}`}{' '}
+                            <span className="text-muted-foreground">({input.type})</span>
+                          </FormLabel>
+                          <FormControl>
+                            <Input
+                              type="text"
+                              placeholder={argumentPlaceholder(input.type)}
+                              {...field}
+                              value={field.value ?? ''}
+                              disabled={submitting}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
                     />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
+                  ))}
+                </div>
               )}
-            />
-
-            <FormField
-              control={form.control}
-              name="gasPrice"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Gas Price (optional)</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="text"
-                      placeholder="0.00000002"
-                      {...field}
-                      disabled={submitting}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
+
+              {callMode === 'data' && (
+                <FormField
+                  control={form.control}
+                  name="data"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Calldata *</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="0x..."
+                          className="font-mono"
+                          {...field}
+                          disabled={submitting}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               )}
-            />
 
-            <div className="bg-muted p-4 rounded-md">
-              <Label className="text-sm font-medium text-muted-foreground">Transaction Fee Preview</Label>
-              <p className="text-lg font-semibold mt-1">{calculateFee()} ETH</p>
-            </div>
+              <FormField
+                control={form.control}
+                name="gasLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Gas Limit (optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="text"
+                        placeholder={callMode === 'transfer' ? NATIVE_GAS_LIMIT : 'Estimated by the node'}
+                        {...field}
+                        disabled={submitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-            <div className="flex gap-2 pt-4">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={handleClearDraft}
-                disabled={submitting}
-                className="flex-1"
-              >
-                Clear Draft
-              </Button>
-              <Button
-                type="submit"
-                disabled={submitting}
-                className="flex-1"
-              >
-                {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                {submitting ? 'Creating...' : 'Create Transaction'}
-              </Button>
-            </div>
-          </form>
-        </Form>
+              <div className="space-y-2">
+                <Label>Network Fee</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  {TIERS.map(({ value, label }) => (
+                    <Button
+                      key={value}
+                      type="button"
+                      size="sm"
+                      variant={tier === value ? 'default' : 'outline'}
+                      onClick={() => setValue('tier', value)}
+                      disabled={submitting || !findTier(estimate, value)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={tier === 'custom' ? 'default' : 'outline'}
+                    onClick={() => setValue('tier', 'custom')}
+                    disabled={submitting}
+                  >
+                    Custom
+                  </Button>
+                </div>
+                {!estimate && (
+                  <p className="text-xs text-muted-foreground">
+                    Fee estimate unavailable. Set fees yourself or leave them empty to pay the network price
+                  </p>
+                )}
+              </div>
+
+              <FormField
+                control={form.control}
+                name="pricing"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fee Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={submitting}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="eip1559" disabled={!supportsEip1559}>
+                          EIP-1559 (max fee + priority fee)
+                        </SelectItem>
+                        <SelectItem value="legacy">Legacy (gas price)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {pricing === 'legacy' ? (
+                <FormField
+                  control={form.control}
+                  name="gasPrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Gas Price in ETH (optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="Network price"
+                          {...field}
+                          onChange={asCustomFee(field.onChange)}
+                          disabled={submitting}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  <FormField
+                    control={form.control}
+                    name="maxFeePerGas"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max Fee in ETH</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="text"
+                            placeholder="Network price"
+                            {...field}
+                            onChange={asCustomFee(field.onChange)}
+                            disabled={submitting}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="maxPriorityFeePerGas"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Priority Fee in ETH</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="text"
+                            placeholder="Network price"
+                            {...field}
+                            onChange={asCustomFee(field.onChange)}
+                            disabled={submitting}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
+              <div className="bg-muted p-4 rounded-md space-y-1">
+                <Label className="text-sm font-medium text-muted-foreground">Estimated Transaction Fee</Label>
+                <p className="text-lg font-semibold">{estimatedFee ?? 'Set by the network'}</p>
+                {pricing === 'eip1559' && maxFee && maxFee !== estimatedFee && (
+                  <p className="text-xs text-muted-foreground">Up to {maxFee}</p>
+                )}
+                {selectedTier && (
+                  <p className="text-xs text-muted-foreground">
+                    Estimated confirmation: {formatWait(selectedTier.estimatedSeconds)}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex gap-2 pt-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleClearDraft}
+                  disabled={submitting}
+                  className="flex-1"
+                >
+                  Clear Draft
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={submitting}
+                  className="flex-1"
+                >
+                  {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {submitting ? 'Checking...' : 'Review'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
       </DialogContent>
     </Dialog>
   );
 }
+
+type ReviewStepProps = {
+  review: Review;
+  submitting: boolean;
+  onBack: () => void;
+  onConfirm: () => void;
+};
+
+// What the server found when it simulated the request; problems keep the create disabled
+function ReviewStep({ review, submitting, onBack, onConfirm }: ReviewStepProps) {
+  const { simulation } = review;
+  const issues = simulationIssues(simulation);
+  const { fee } = simulation;
+
+  return (
+    <div className="space-y-4">
+      {issues.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No problems found.</p>
+      ) : (
+        issues.map((issue, index) => (
+          <Alert key={index} variant={issue.severity === 'error' ? 'destructive' : 'default'}>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{issue.message}</AlertDescription>
+          </Alert>
+        ))
+      )}
+
+      {fee && (
+        <div className="bg-muted p-4 rounded-md space-y-1">
+          <Label className="text-sm font-medium text-muted-foreground">Estimated Transaction Fee</Label>
+          <p className="text-lg font-semibold">{formatWei(fee.estimatedFee, 'ETH')}</p>
+          <p className="text-xs text-muted-foreground">
+            Up to {formatWei(fee.maxFee, 'ETH')} for a gas limit of {fee.gasLimit}
+            {simulation.gasEstimate && ` (estimated use ${simulation.gasEstimate})`}
+          </p>
+          {simulation.nonce !== null && <p className="text-xs text-muted-foreground">Nonce {simulation.nonce}</p>}
+        </div>
+      )}
+
+      {simulation.balances.length > 0 && (
+        <div className="space-y-1">
+          <Label>Available After Sending</Label>
+          {simulation.balances.map((projection) => (
+            <p
+              key={projection.tokenAddress ?? 'native'}
+              className={BigInt(projection.remaining) < BigInt(0) ? 'text-sm text-destructive' : 'text-sm'}
+            >
+              {describeProjection(projection)}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {simulation.duplicates.length > 0 && (
+        <div className="space-y-1">
+          <Label>Possible Duplicates</Label>
+          {simulation.duplicates.map((duplicate) => (
+            <div key={duplicate.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="font-mono">{duplicate.hash ? truncateAddress(duplicate.hash) : duplicate.id}</span>
+              <span className="text-muted-foreground">{formatTimestamp(duplicate.timestamp)}</span>
+              <Badge variant="outline">{duplicate.status}</Badge>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2 pt-4">
+        <Button type="button" variant="outline" onClick={onBack} disabled={submitting} className="flex-1">
+          Back
+        </Button>
+        <Button type="button" onClick={onConfirm} disabled={submitting || !simulation.valid} className="flex-1">
+          {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitting ? 'Creating...' : 'Create Transaction'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { FeeBucket, StatsInterval } from '@/lib/types';
+import { feeBars } from '@/lib/stats';
+import { formatUnitsRounded } from '@/lib/units';
+
+type FeesChartProps = {
+  buckets: FeeBucket[];
+  interval: StatsInterval;
+  chainId: number;
+  symbol: string;
+};
+
+function bucketLabel(start: string, interval: StatsInterval): string {
+  const date = new Date(start);
+  if (interval === 'hour') return date.toLocaleString('en-US', { hour: 'numeric' });
+  return date.toLocaleString('en-US', { month: 'short', day: 'numeric' });
+}
+
+// Bars of the fees one network paid per bucket, with the part failed transactions paid in red
+export function FeesChart({ buckets, interval, chainId, symbol }: FeesChartProps) {
+  const bars = feeBars(buckets, chainId);
+  if (bars.length === 0) return null;
+  // Label about six buckets so the axis stays readable
+  const labelEvery = Math.max(1, Math.ceil(bars.length / 6));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex h-40 items-end gap-px border-b">
+        {bars.map((bar) => (
+          <div
+            key={bar.start}
+            className="flex h-full flex-1 flex-col justify-end"
+            title={
+              `${bucketLabel(bar.start, interval)}: ${formatUnitsRounded(bar.totalFees)} ${symbol}` +
+              (bar.failedFees > BigInt(0) ? `, ${formatUnitsRounded(bar.failedFees)} ${symbol} on failed transactions` : '')
+            }
+          >
+            <div className="flex flex-col justify-end bg-primary/70" style={{ height: `${bar.height}%` }}>
+              <div className="bg-red-500" style={{ height: bar.height > 0 ? `${(bar.failedHeight / bar.height) * 100}%` : 0 }} />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-px text-xs text-muted-foreground">
+        {bars.map((bar, index) => (
+          <div key={bar.start} className="flex-1 truncate">
+            {index % labelEvery === 0 ? bucketLabel(bar.start, interval) : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+import { transactionsAPI } from '@/lib/api';
+import { csvToImportRows, ImportRow } from '@/lib/csv';
+import { BulkCreateResult, BulkMode, BulkRowResult } from '@/lib/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { truncateAddress } from '@/lib/format';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTokens } from '@/hooks/use-tokens';
+import { findToken } from '@/lib/tokens';
+
+type ImportTransactionsDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+};
+
+export function ImportTransactionsDialog({ open, onClose, onSuccess }: ImportTransactionsDialogProps) {
+  const { toast } = useToast();
+  const tokens = useTokens();
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mode, setMode] = useState<BulkMode>('atomic');
+  const [submitting, setSubmitting] = useState(false);
+  // Server results by row index, once the batch has been sent
+  const [results, setResults] = useState<Record<number, BulkRowResult> | null>(null);
+
+  const invalidCount = rows.filter(row => row.errors.length > 0).length;
+  const validCount = rows.length - invalidCount;
+  const canSubmit =
+    !submitting && results === null && rows.length > 0 && (mode === 'best-effort' ? validCount > 0 : invalidCount === 0);
+
+  const reset = () => {
+    setRows([]);
+    setParseError(null);
+    setResults(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    try {
+      setRows(csvToImportRows(await file.text()));
+    } catch (error: any) {
+      setParseError(error.message || 'Could not read the file');
+    }
+  };
+
+  const showResults = (rowResults: BulkRowResult[]) => {
+    setResults(Object.fromEntries(rowResults.map(result => [result.index, result])));
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      // Invalid rows are sent too in best-effort mode so the server reports on every line
+      const response = await transactionsAPI.createBulk({
+        mode,
+        transactions: rows.map(row => row.transaction),
+      });
+      const result: BulkCreateResult = response.data.data;
+      showResults(result.results);
+      toast({
+        title: 'Import finished',
+        description: `${result.createdCount} created, ${result.failedCount} failed`,
+      });
+      if (result.createdCount > 0) onSuccess();
+    } catch (error: any) {
+      const data = error.response?.data;
+      if (Array.isArray(data?.results)) showResults(data.results);
+      toast({
+        title: 'Import failed',
+        description: data?.message || 'Failed to import transactions. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderRowStatus = (row: ImportRow, index: number) => {
+    const result = results?.[index];
+    if (result?.status === 'created') {
+      return <Badge className="bg-green-500/10 text-green-700" variant="outline">created</Badge>;
+    }
+    if (result?.status === 'skipped') {
+      return <Badge variant="outline">skipped</Badge>;
+    }
+
+    const errors = result && 'errors' in result ? result.errors : row.errors;
+    if (errors.length === 0) {
+      return <Badge variant="outline">ready</Badge>;
+    }
+    return (
+      <ul className="text-xs text-destructive space-y-0.5">
+        {errors.map(message => (
+          <li key={message}>{message}</li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with toAddress and amount columns (gasLimit and gasPrice are optional). Exported files can be
+            imported as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">CSV File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,text/csv"
+                disabled={submitting}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Mode</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as BulkMode)} disabled={submitting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="atomic">All or nothing</SelectItem>
+                  <SelectItem value="best-effort">Best effort (skip invalid rows)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {parseError && (
+            <Alert variant="destructive">
+              <AlertDescription>{parseError}</AlertDescription>
+            </Alert>
+          )}
+
+          {rows.length > 0 && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {rows.length} row(s): {validCount} valid, {invalidCount} with errors
+                {mode === 'atomic' && invalidCount > 0 && ' - fix them or switch to best effort to import'}
+              </p>
+
+              <div className="rounded-md border max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>To</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Gas Limit</TableHead>
+                      <TableHead>Gas Price (ETH)</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row, index) => (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell className="font-mono text-sm">{truncateAddress(row.transaction.toAddress)}</TableCell>
+                        <TableCell>
+                          {row.transaction.amount}{' '}
+                          {row.transaction.tokenAddress
+                            ? findToken(tokens, row.transaction.chainId, row.transaction.tokenAddress)?.symbol ??
+                              truncateAddress(row.transaction.tokenAddress)
+                            : 'ETH'}
+                        </TableCell>
+                        <TableCell>{row.transaction.gasLimit ?? '-'}</TableCell>
+                        <TableCell>{row.transaction.gasPrice ?? '-'}</TableCell>
+                        <TableCell>{renderRowStatus(row, index)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+
+          <div className="flex gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={handleClose} disabled={submitting} className="flex-1">
+              {results ? 'Close' : 'Cancel'}
+            </Button>
+            <Button type="button" onClick={handleSubmit} disabled={!canSubmit} className="flex-1">
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitting ? 'Importing...' : `Import ${mode === 'atomic' ? rows.length : validCount} Transaction(s)`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
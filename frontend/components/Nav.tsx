@@ -3,13 +3,16 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Wallet, Moon, Sun } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { applyTheme, getStoredTheme, initTheme, Theme } from '@/lib/theme';
+import { useNetworks } from '@/hooks/use-networks';
 
 export function Nav() {
   const pathname = usePathname();
   const [theme, setTheme] = useState<Theme>('light');
+  const { networks, selectedChainId, selectChainId } = useNetworks();
 
   useEffect(() => {
     initTheme();
@@ -32,6 +35,22 @@ export function Nav() {
         </Link>
 
         <div className="flex items-center space-x-4">
+          <Select
+            value={selectedChainId?.toString() ?? 'all'}
+            onValueChange={(value) => selectChainId(value === 'all' ? null : Number(value))}
+          >
+            <SelectTrigger className="w-[180px]" aria-label="Network">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All networks</SelectItem>
+              {networks.map((network) => (
+                <SelectItem key={network.chainId} value={network.chainId.toString()}>
+                  {network.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Link href="/dashboard">
             <Button variant={pathname === '/dashboard' ? 'default' : 'ghost'}>
               Dashboard
@@ -1,24 +1,127 @@
 'use client';
 
-import { Transaction } from '@/lib/types';
-import { formatAmount, formatTimestamp, copyToClipboard } from '@/lib/format';
+import { useEffect, useState } from 'react';
+import { AccountNonce, DecodedCall, StatusChange, Transaction } from '@/lib/types';
+import { accountsAPI, transactionsAPI } from '@/lib/api';
+import { formatTimestamp, copyToClipboard } from '@/lib/format';
+import { formatUnits, formatWei } from '@/lib/units';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Copy, ExternalLink } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, Ban, Copy, ExternalLink, Loader2, Zap } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useNetworks } from '@/hooks/use-networks';
+import { useTokens } from '@/hooks/use-tokens';
+import { explorerAddressUrl, explorerTxUrl, findNetwork } from '@/lib/networks';
+import { transactionAsset } from '@/lib/tokens';
+import { formatArgument } from '@/lib/abi';
 
 type TransactionDetailsProps = {
   transaction: Transaction | null;
   open: boolean;
   onClose: () => void;
+  onReplaced?: (replacement: Transaction) => void;
 };
 
-export function TransactionDetails({ transaction, open, onClose }: TransactionDetailsProps) {
+type ReplaceAction = 'cancel' | 'speed-up';
+
+export function TransactionDetails({ transaction, open, onClose, onReplaced }: TransactionDetailsProps) {
   const { toast } = useToast();
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [replacing, setReplacing] = useState<ReplaceAction | null>(null);
+  const [accountNonce, setAccountNonce] = useState<AccountNonce | null>(null);
+  const [decodedCall, setDecodedCall] = useState<DecodedCall | null>(null);
+  const { networks } = useNetworks();
+  const tokens = useTokens();
+
+  const transactionId = transaction?.id;
+  const transactionStatus = transaction?.status;
+  const fromAddress = transaction?.fromAddress;
+  const chainId = transaction?.chainId;
+  // Token transfers call the token contract, so they decode too when an ERC-20 ABI is uploaded
+  const makesCall = Boolean(transaction?.data || transaction?.tokenAddress);
+  const awaitingMining = transactionStatus === 'pending' || transactionStatus === 'submitted';
+
+  // Reload whenever the status changes so live updates show up in the timeline
+  useEffect(() => {
+    if (!open || !transactionId || transactionId.startsWith('temp-')) {
+      setHistory([]);
+      return;
+    }
+
+    let cancelled = false;
+    setHistoryLoading(true);
+    transactionsAPI
+      .getHistory(transactionId)
+      .then((res) => {
+        if (!cancelled) setHistory(res.data.data);
+      })
+      .catch((error) => {
+        console.error('Error loading status history:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setHistoryLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, transactionId, transactionStatus]);
+
+  useEffect(() => {
+    if (!open || !transactionId || transactionId.startsWith('temp-') || !makesCall) {
+      setDecodedCall(null);
+      return;
+    }
+
+    let cancelled = false;
+    transactionsAPI
+      .getCall(transactionId)
+      .then((res) => {
+        if (!cancelled) setDecodedCall(res.data.data);
+      })
+      .catch((error) => {
+        console.error('Error decoding contract call:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, transactionId, makesCall]);
+
+  // Only unmined transactions can be held up by a gap in the sender's nonces
+  useEffect(() => {
+    if (!open || !awaitingMining || !fromAddress || !/^0x[a-fA-F0-9]{40}$/.test(fromAddress)) {
+      setAccountNonce(null);
+      return;
+    }
+
+    let cancelled = false;
+    accountsAPI
+      .getNonce(fromAddress, { chainId })
+      .then((res) => {
+        if (!cancelled) setAccountNonce(res.data.data);
+      })
+      .catch((error) => {
+        console.error('Error loading account nonce:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, awaitingMining, fromAddress, chainId, transactionStatus]);
 
   if (!transaction) return null;
 
+  const network = findNetwork(networks, transaction.chainId);
+  const explorerUrl = transaction.hash ? explorerTxUrl(network, transaction.hash) : null;
+  const asset = transactionAsset(transaction, networks, tokens);
+  const tokenExplorerUrl = transaction.tokenAddress ? explorerAddressUrl(network, transaction.tokenAddress) : null;
+
+  const blockingGaps = accountNonce?.gaps.filter((gap) => transaction.nonce !== undefined && gap < transaction.nonce) ?? [];
+
   const handleCopy = async (text: string, label: string) => {
     try {
       await copyToClipboard(text);
@@ -35,23 +138,63 @@ export function TransactionDetails({ transaction, open, onClose }: TransactionDe
     }
   };
 
+  // Submitted transactions are still in the mempool, so they can be replaced too
+  const canReplace =
+    (transaction.status === 'pending' || transaction.status === 'submitted') && !transaction.id.startsWith('temp-');
+
+  const handleReplace = async (action: ReplaceAction) => {
+    setReplacing(action);
+    try {
+      const response =
+        action === 'cancel'
+          ? await transactionsAPI.cancel(transaction.id)
+          : await transactionsAPI.speedUp(transaction.id);
+      const replacement: Transaction = response.data.data;
+      toast({
+        title: action === 'cancel' ? 'Cancellation sent' : 'Speed-up sent',
+        description: 'The replacement will be broadcast with the same nonce',
+      });
+      onReplaced?.(replacement);
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Failed to replace transaction. Please try again.';
+      toast({
+        title: 'Error',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+    } finally {
+      setReplacing(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed':
         return 'bg-green-500/10 text-green-700 hover:bg-green-500/20';
       case 'pending':
         return 'bg-yellow-500/10 text-yellow-700 hover:bg-yellow-500/20';
+      case 'submitted':
+        return 'bg-blue-500/10 text-blue-700 hover:bg-blue-500/20';
       case 'failed':
         return 'bg-red-500/10 text-red-700 hover:bg-red-500/20';
+      case 'dropped':
+        return 'bg-gray-500/10 text-gray-500 hover:bg-gray-500/20 line-through';
+      case 'replaced':
+        return 'bg-purple-500/10 text-purple-700 hover:bg-purple-500/20 line-through';
       default:
         return 'bg-gray-500/10 text-gray-700 hover:bg-gray-500/20';
     }
   };
 
-  const calculateFee = () => {
-    if (!transaction.gasLimit || !transaction.gasPrice) return 'N/A';
-    const fee = parseFloat(transaction.gasLimit) * parseFloat(transaction.gasPrice);
-    return isNaN(fee) ? 'N/A' : fee.toFixed(8);
+  // Until a receipt exists only the maximum fee (gasLimit x gas price or fee cap) is known
+  const calculateMaxFee = () => {
+    const feePerGas = transaction.maxFeePerGas ?? transaction.gasPrice;
+    if (!transaction.gasLimit || !feePerGas) return 'N/A';
+    try {
+      return formatWei(BigInt(transaction.gasLimit) * BigInt(feePerGas), 'ETH');
+    } catch {
+      return 'N/A';
+    }
   };
 
   return (
@@ -64,20 +207,42 @@ export function TransactionDetails({ transaction, open, onClose }: TransactionDe
         <div className="space-y-4">
           <div>
             <label className="text-sm font-medium text-muted-foreground">Transaction Hash</label>
-            <div className="flex items-center gap-2 mt-1">
-              <code className="text-sm bg-muted px-3 py-2 rounded flex-1 break-all">
-                {transaction.hash}
-              </code>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handleCopy(transaction.hash, 'Transaction hash')}
-              >
-                <Copy className="h-4 w-4" />
-              </Button>
-            </div>
+            {transaction.hash ? (
+              <div className="flex items-center gap-2 mt-1">
+                <code className="text-sm bg-muted px-3 py-2 rounded flex-1 break-all">
+                  {transaction.hash}
+                </code>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCopy(transaction.hash ?? '', 'Transaction hash')}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm mt-1 text-muted-foreground">Not broadcast yet</p>
+            )}
           </div>
 
+          {transaction.rawTransaction && (
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Signed Transaction</label>
+              <div className="flex items-center gap-2 mt-1">
+                <code className="text-xs bg-muted px-3 py-2 rounded flex-1 break-all max-h-24 overflow-y-auto">
+                  {transaction.rawTransaction}
+                </code>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCopy(transaction.rawTransaction ?? '', 'Signed transaction')}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label className="text-sm font-medium text-muted-foreground">From Address</label>
@@ -112,11 +277,85 @@ export function TransactionDetails({ transaction, open, onClose }: TransactionDe
             </div>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {transaction.tokenAddress && (
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Token Contract</label>
+              <div className="flex items-center gap-2 mt-1">
+                <code className="text-sm bg-muted px-3 py-2 rounded flex-1 break-all">
+                  {transaction.tokenAddress}
+                </code>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCopy(transaction.tokenAddress ?? '', 'Token address')}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                {tokenExplorerUrl && (
+                  <Button variant="outline" size="sm" onClick={() => window.open(tokenExplorerUrl, '_blank')}>
+                    <ExternalLink className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {decodedCall && (
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Contract Call</label>
+              <div className="mt-1 rounded-md border p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <code className="text-sm font-semibold break-all">{decodedCall.signature}</code>
+                  <Badge variant="outline">{decodedCall.abiName}</Badge>
+                </div>
+                {decodedCall.args.length > 0 && (
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                    {decodedCall.args.map((arg, i) => (
+                      <div key={i} className="contents">
+                        <dt className="text-muted-foreground">
+                          {arg.name || `arg${i}`} <span className="text-xs">({arg.type})</span>
+                        </dt>
+                        <dd className="break-all font-mono">{formatArgument(arg.value)}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </div>
+            </div>
+          )}
+
+          {transaction.data && (
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Calldata</label>
+              <div className="flex items-center gap-2 mt-1">
+                <code className="text-xs bg-muted px-3 py-2 rounded flex-1 break-all max-h-24 overflow-y-auto">
+                  {transaction.data}
+                </code>
+                <Button variant="outline" size="sm" onClick={() => handleCopy(transaction.data ?? '', 'Calldata')}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              {!decodedCall && (
+                <p className="text-xs text-muted-foreground mt-1">No uploaded ABI has this function</p>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <label className="text-sm font-medium text-muted-foreground">Amount</label>
               <p className="text-lg font-semibold mt-1">
-                {formatAmount(transaction.amount)} ETH
+                {formatUnits(transaction.amount, asset.decimals)} {asset.symbol}
+              </p>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Network</label>
+              <p className="text-sm mt-1">
+                {network?.name ?? 'Unknown'}
+                {transaction.chainId !== undefined && (
+                  <span className="text-muted-foreground"> (chain {transaction.chainId})</span>
+                )}
               </p>
             </div>
 
@@ -136,15 +375,90 @@ export function TransactionDetails({ transaction, open, onClose }: TransactionDe
               <p className="text-sm mt-1">{transaction.gasLimit || 'N/A'}</p>
             </div>
 
+            {transaction.type === 'eip1559' ? (
+              <div>
+                <label className="text-sm font-medium text-muted-foreground">Max Fee / Priority Fee</label>
+                <p className="text-sm mt-1">
+                  {transaction.maxFeePerGas ? formatWei(transaction.maxFeePerGas) : 'N/A'} /{' '}
+                  {transaction.maxPriorityFeePerGas ? formatWei(transaction.maxPriorityFeePerGas) : 'N/A'}
+                </p>
+              </div>
+            ) : (
+              <div>
+                <label className="text-sm font-medium text-muted-foreground">Gas Price</label>
+                <p className="text-sm mt-1">{transaction.gasPrice ? formatWei(transaction.gasPrice) : 'N/A'}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">
+                {transaction.fee ? 'Transaction Fee' : 'Max Transaction Fee'}
+              </label>
+              <p className="text-sm mt-1">{transaction.fee ? formatWei(transaction.fee, 'ETH') : calculateMaxFee()}</p>
+            </div>
+
             <div>
-              <label className="text-sm font-medium text-muted-foreground">Gas Price</label>
-              <p className="text-sm mt-1">{transaction.gasPrice || 'N/A'}</p>
+              <label className="text-sm font-medium text-muted-foreground">Gas Used</label>
+              <p className="text-sm mt-1">
+                {transaction.gasUsed ?? 'N/A'}
+                {transaction.effectiveGasPrice && ` at ${formatWei(transaction.effectiveGasPrice)}`}
+              </p>
             </div>
           </div>
 
-          <div>
-            <label className="text-sm font-medium text-muted-foreground">Transaction Fee</label>
-            <p className="text-sm mt-1">{calculateFee()} ETH</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Block</label>
+              <p className="text-sm mt-1">{transaction.blockNumber ?? 'Not mined yet'}</p>
+              {transaction.blockHash && (
+                <code className="block text-xs text-muted-foreground break-all">{transaction.blockHash}</code>
+              )}
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Confirmations</label>
+              <p className="text-sm mt-1">{transaction.confirmations ?? 0}</p>
+            </div>
+          </div>
+
+          {transaction.failureReason && (
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Failure Reason</label>
+              <p className="text-sm mt-1 text-destructive">{transaction.failureReason}</p>
+            </div>
+          )}
+
+          {blockingGaps.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Waiting on nonce {blockingGaps.join(', ')}, which was dropped. Nodes mine a sender&apos;s nonces in
+                order, so this transaction cannot be mined until that nonce is used.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Nonce</label>
+              <p className="text-sm mt-1">
+                {transaction.nonce ?? 'N/A'}
+                {accountNonce && (
+                  <span className="text-muted-foreground"> (sender&apos;s next: {accountNonce.nextNonce})</span>
+                )}
+              </p>
+            </div>
+
+            {transaction.replacesId && (
+              <div>
+                <label className="text-sm font-medium text-muted-foreground">
+                  {transaction.replacementType === 'cancel' ? 'Cancels' : 'Speeds Up'}
+                </label>
+                <code className="block text-sm mt-1 break-all">{transaction.replacesId}</code>
+              </div>
+            )}
           </div>
 
           <div>
@@ -152,16 +466,83 @@ export function TransactionDetails({ transaction, open, onClose }: TransactionDe
             <p className="text-sm mt-1">{formatTimestamp(transaction.timestamp)}</p>
           </div>
 
-          <div className="pt-4">
-            <Button
-              variant="outline"
-              className="w-full"
-              onClick={() => window.open(`https://etherscan.io/tx/${transaction.hash}`, '_blank')}
-            >
-              <ExternalLink className="h-4 w-4 mr-2" />
-              View on Explorer
-            </Button>
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Status History</label>
+            {historyLoading && history.length === 0 ? (
+              <div className="flex items-center gap-2 mt-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading history...
+              </div>
+            ) : history.length === 0 ? (
+              <p className="text-sm mt-1 text-muted-foreground">No status changes recorded</p>
+            ) : (
+              <ol className="mt-2 space-y-3 border-l pl-4">
+                {history.map((change, i) => (
+                  <li key={`${change.timestamp}-${i}`} className="relative">
+                    <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-muted-foreground" />
+                    <div className="flex flex-wrap items-center gap-2">
+                      {change.previousStatus && (
+                        <>
+                          <Badge className={getStatusColor(change.previousStatus)} variant="outline">
+                            {change.previousStatus}
+                          </Badge>
+                          <span className="text-muted-foreground">→</span>
+                        </>
+                      )}
+                      <Badge className={getStatusColor(change.status)} variant="outline">
+                        {change.status}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(change.timestamp).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-sm mt-1">
+                      {change.reason || 'No reason given'}
+                      <span className="text-muted-foreground"> · by {change.actor}</span>
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            )}
           </div>
+
+          {canReplace && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4">
+              <Button
+                variant="outline"
+                disabled={replacing !== null}
+                onClick={() => handleReplace('speed-up')}
+              >
+                {replacing === 'speed-up' ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Zap className="h-4 w-4 mr-2" />
+                )}
+                Speed Up
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={replacing !== null}
+                onClick={() => handleReplace('cancel')}
+              >
+                {replacing === 'cancel' ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Ban className="h-4 w-4 mr-2" />
+                )}
+                Cancel Transaction
+              </Button>
+            </div>
+          )}
+
+          {explorerUrl && (
+            <div className="pt-4">
+              <Button variant="outline" className="w-full" onClick={() => window.open(explorerUrl, '_blank')}>
+                <ExternalLink className="h-4 w-4 mr-2" />
+                View on Explorer
+              </Button>
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,68 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { networksAPI } from '@/lib/api';
+import { findNetwork, getStoredChainId, storeChainId } from '@/lib/networks';
+import { Network } from '@/lib/types';
+
+// Fired on window when the selected network changes, so every component using the hook follows
+const SELECTION_EVENT = 'network-selection';
+
+// The registry rarely changes, so it is fetched once per page load and shared
+let networksRequest: Promise<Network[]> | null = null;
+
+function loadNetworks(): Promise<Network[]> {
+  if (!networksRequest) {
+    networksRequest = networksAPI
+      .getAll()
+      .then((res) => res.data.data as Network[])
+      .catch((error) => {
+        networksRequest = null;
+        throw error;
+      });
+  }
+  return networksRequest;
+}
+
+/**
+ * The backend's networks and the one selected in the nav, kept in
+ * localStorage. `ready` turns true once the stored selection has been read,
+ * so pages can wait for it instead of fetching every network first.
+ */
+export function useNetworks() {
+  const [networks, setNetworks] = useState<Network[]>([]);
+  const [selectedChainId, setSelectedChainId] = useState<number | null>(null);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadNetworks()
+      .then((loaded) => {
+        if (!cancelled) setNetworks(loaded);
+      })
+      .catch((error) => console.error('Error loading networks:', error));
+
+    const syncSelection = () => setSelectedChainId(getStoredChainId());
+    syncSelection();
+    setReady(true);
+    window.addEventListener(SELECTION_EVENT, syncSelection);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(SELECTION_EVENT, syncSelection);
+    };
+  }, []);
+
+  const selectChainId = useCallback((chainId: number | null) => {
+    storeChainId(chainId);
+    window.dispatchEvent(new Event(SELECTION_EVENT));
+  }, []);
+
+  return {
+    networks,
+    ready,
+    selectedChainId,
+    selectChainId,
+    selectedNetwork: findNetwork(networks, selectedChainId),
+    defaultNetwork: networks.find((network) => network.isDefault),
+  };
+}
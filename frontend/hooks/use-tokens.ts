@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { tokensAPI } from '@/lib/api';
+import { Token } from '@/lib/types';
+
+// Fetched once per page load and shared, like the network registry
+let tokensRequest: Promise<Token[]> | null = null;
+
+function loadTokens(): Promise<Token[]> {
+  if (!tokensRequest) {
+    tokensRequest = tokensAPI
+      .getAll()
+      .then((res) => res.data.data as Token[])
+      .catch((error) => {
+        tokensRequest = null;
+        throw error;
+      });
+  }
+  return tokensRequest;
+}
+
+// Every registered ERC-20 token, across all networks
+export function useTokens() {
+  const [tokens, setTokens] = useState<Token[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTokens()
+      .then((loaded) => {
+        if (!cancelled) setTokens(loaded);
+      })
+      .catch((error) => console.error('Error loading tokens:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return tokens;
+}
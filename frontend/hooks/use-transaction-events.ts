@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { getSocket } from '@/lib/socket';
+import {
+  TransactionCreatedEvent,
+  TransactionNonceGapEvent,
+  TransactionStatusChangedEvent,
+  TransactionUpdatedEvent,
+} from '@/lib/types';
+
+type TransactionEventHandlers = {
+  onCreated?: (event: TransactionCreatedEvent) => void;
+  onStatusChanged?: (event: TransactionStatusChangedEvent) => void;
+  onUpdated?: (event: TransactionUpdatedEvent) => void;
+  onNonceGap?: (event: TransactionNonceGapEvent) => void;
+};
+
+/**
+ * Subscribes to live transaction events from the backend gateway.
+ * Returns whether the socket is currently connected so callers can fall back to polling.
+ */
+export function useTransactionEvents(handlers: TransactionEventHandlers) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    const socket = getSocket();
+
+    const handleConnect = () => setConnected(true);
+    const handleDisconnect = () => setConnected(false);
+    const handleCreated = (event: TransactionCreatedEvent) => handlersRef.current.onCreated?.(event);
+    const handleStatusChanged = (event: TransactionStatusChangedEvent) =>
+      handlersRef.current.onStatusChanged?.(event);
+    const handleUpdated = (event: TransactionUpdatedEvent) => handlersRef.current.onUpdated?.(event);
+    const handleNonceGap = (event: TransactionNonceGapEvent) => handlersRef.current.onNonceGap?.(event);
+
+    setConnected(socket.connected);
+    socket.on('connect', handleConnect);
+    socket.on('disconnect', handleDisconnect);
+    socket.on('transaction.created', handleCreated);
+    socket.on('transaction.statusChanged', handleStatusChanged);
+    socket.on('transaction.updated', handleUpdated);
+    socket.on('transaction.nonceGap', handleNonceGap);
+
+    return () => {
+      socket.off('connect', handleConnect);
+      socket.off('disconnect', handleDisconnect);
+      socket.off('transaction.created', handleCreated);
+      socket.off('transaction.statusChanged', handleStatusChanged);
+      socket.off('transaction.updated', handleUpdated);
+      socket.off('transaction.nonceGap', handleNonceGap);
+    };
+  }, []);
+
+  return { connected };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { argumentPlaceholder, formatArgument, parseAbiJson, parseArgument, writableFunctions } from '../abi';
+import { AbiEntry } from '../types';
+
+const ABI: AbiEntry[] = [
+  { type: 'function', name: 'balanceOf', inputs: [{ name: 'owner', type: 'address' }], stateMutability: 'view' },
+  {
+    type: 'function',
+    name: 'transfer',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  { type: 'function', name: 'deposit', inputs: [], stateMutability: 'payable' },
+  { type: 'event', name: 'Transfer', inputs: [] },
+  { name: 'legacy', inputs: [{ name: 'ids', type: 'uint[]' }], constant: false },
+];
+
+describe('parseAbiJson', () => {
+  it('reads a bare ABI array or an artifact', () => {
+    expect(parseAbiJson(JSON.stringify(ABI))).toEqual(ABI);
+    expect(parseAbiJson(JSON.stringify({ contractName: 'Token', abi: ABI }))).toEqual(ABI);
+  });
+
+  it('rejects files without an ABI', () => {
+    expect(() => parseAbiJson('{')).toThrow('not valid JSON');
+    expect(() => parseAbiJson('{"bytecode": "0x"}')).toThrow('Expected a JSON ABI array');
+  });
+});
+
+describe('writableFunctions', () => {
+  it('lists state-changing functions with canonical signatures', () => {
+    expect(writableFunctions(ABI).map((fn) => [fn.signature, fn.payable])).toEqual([
+      ['transfer(address,uint256)', false],
+      ['deposit()', true],
+      ['legacy(uint256[])', false],
+    ]);
+  });
+});
+
+describe('parseArgument', () => {
+  it('parses arrays as JSON and booleans as true or false', () => {
+    expect(parseArgument('uint256[]', ' ["1", "2"] ')).toEqual(['1', '2']);
+    expect(parseArgument('bool', 'true')).toBe(true);
+    expect(parseArgument('uint256', ' 42 ')).toBe('42');
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => parseArgument('address[]', '0xabc')).toThrow('JSON array');
+    expect(() => parseArgument('bool', 'yes')).toThrow('true or false');
+    expect(() => parseArgument('address', ' ')).toThrow('Required');
+  });
+});
+
+describe('argumentPlaceholder', () => {
+  it('hints at the expected format', () => {
+    expect(argumentPlaceholder('uint8[2]')).toBe('["...", "..."]');
+    expect(argumentPlaceholder('bytes32')).toBe('0x...');
+  });
+});
+
+describe('formatArgument', () => {
+  it('shows arrays as JSON', () => {
+    expect(formatArgument(['1', ['2']])).toBe('["1",["2"]]');
+    expect(formatArgument(false)).toBe('false');
+  });
+});
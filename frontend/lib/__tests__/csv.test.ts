@@ -1,4 +1,4 @@
-import { transactionsToCsv } from '../csv';
+import { csvToImportRows, parseCsv, transactionsToCsv } from '../csv';
 import { Transaction } from '../types';
 
 import { describe, it, expect } from 'vitest';
@@ -12,10 +12,10 @@ describe('CSV utilities', () => {
           hash: '0xabc123',
           fromAddress: '0xfrom1',
           toAddress: '0xto1',
-          amount: '1.5',
+          amount: '1500000000000000000',
           status: 'confirmed',
           gasLimit: '21000',
-          gasPrice: '0.00000002',
+          gasPrice: '20000000000',
           timestamp: '2024-01-15T10:00:00Z',
         },
       ];
@@ -23,15 +23,58 @@ describe('CSV utilities', () => {
       const csv = transactionsToCsv(txs);
       const lines = csv.split('\n');
 
-      expect(lines[0]).toBe('id,hash,fromAddress,toAddress,amount,status,gasLimit,gasPrice,timestamp');
-      expect(lines[1]).toBe('1,0xabc123,0xfrom1,0xto1,1.5,confirmed,21000,0.00000002,2024-01-15T10:00:00Z');
+      expect(lines[0]).toBe(
+        'id,hash,fromAddress,toAddress,amount,status,gasLimit,gasPrice,fee,timestamp,chainId,tokenAddress',
+      );
+      expect(lines[1]).toBe('1,0xabc123,0xfrom1,0xto1,1.5,confirmed,21000,0.00000002,,2024-01-15T10:00:00Z,,');
+    });
+
+    it('exports small amounts without rounding', () => {
+      const txs: Transaction[] = [
+        {
+          id: '1',
+          hash: '0xabc',
+          fromAddress: '0xfrom',
+          toAddress: '0xto',
+          amount: '21000000000000',
+          status: 'pending',
+          timestamp: '2024-01-15T10:00:00Z',
+        },
+      ];
+
+      const vals = transactionsToCsv(txs).split('\n')[1].split(',');
+      expect(vals[4]).toBe('0.000021');
+    });
+
+    it('exports the actual fee rather than the maximum', () => {
+      const txs: Transaction[] = [
+        {
+          id: '1',
+          hash: '0xabc',
+          fromAddress: '0xfrom',
+          toAddress: '0xto',
+          amount: '1000000000000000000',
+          status: 'confirmed',
+          gasLimit: '50000',
+          gasPrice: '20000000000',
+          gasUsed: '21000',
+          effectiveGasPrice: '15000000000',
+          fee: '315000000000000',
+          timestamp: '2024-01-15T10:00:00Z',
+        },
+      ];
+
+      const vals = transactionsToCsv(txs).split('\n')[1].split(',');
+      expect(vals[8]).toBe('0.000315');
     });
 
     it('handles empty array', () => {
       const csv = transactionsToCsv([]);
       const lines = csv.split('\n');
       expect(lines.length).toBe(1);
-      expect(lines[0]).toBe('id,hash,fromAddress,toAddress,amount,status,gasLimit,gasPrice,timestamp');
+      expect(lines[0]).toBe(
+        'id,hash,fromAddress,toAddress,amount,status,gasLimit,gasPrice,fee,timestamp,chainId,tokenAddress',
+      );
     });
 
     it('escapes values with commas', () => {
@@ -41,7 +84,7 @@ describe('CSV utilities', () => {
           hash: '0x,test',
           fromAddress: '0xfrom',
           toAddress: '0xto',
-          amount: '1.0',
+          amount: '1000000000000000000',
           status: 'pending',
           timestamp: '2024-01-15T10:00:00Z',
         },
@@ -58,7 +101,7 @@ describe('CSV utilities', () => {
           hash: '0x"quoted"',
           fromAddress: '0xfrom',
           toAddress: '0xto',
-          amount: '1.0',
+          amount: '1000000000000000000',
           status: 'pending',
           timestamp: '2024-01-15T10:00:00Z',
         },
@@ -75,7 +118,7 @@ describe('CSV utilities', () => {
           hash: '0xabc',
           fromAddress: '0xfrom',
           toAddress: '0xto',
-          amount: '1.0',
+          amount: '1000000000000000000',
           status: 'pending',
           timestamp: '2024-01-15T10:00:00Z',
         },
@@ -89,3 +132,95 @@ describe('CSV utilities', () => {
     });
   });
 });
+
+describe('CSV import', () => {
+  const address = '0x742d35cc6634c0532925a3b844bc9e7595f0beb0';
+
+  describe('parseCsv', () => {
+    it('splits records and fields', () => {
+      expect(parseCsv('a,b\n1,2\r\n3,4')).toEqual([
+        { line: 1, fields: ['a', 'b'] },
+        { line: 2, fields: ['1', '2'] },
+        { line: 3, fields: ['3', '4'] },
+      ]);
+    });
+
+    it('unescapes quoted fields with commas, quotes and line breaks', () => {
+      expect(parseCsv('"a,b","say ""hi""","two\nlines"\nnext')).toEqual([
+        { line: 1, fields: ['a,b', 'say "hi"', 'two\nlines'] },
+        { line: 3, fields: ['next'] },
+      ]);
+    });
+
+    it('skips blank lines', () => {
+      expect(parseCsv('a\n\n b \n')).toEqual([
+        { line: 1, fields: ['a'] },
+        { line: 3, fields: [' b '] },
+      ]);
+    });
+  });
+
+  describe('csvToImportRows', () => {
+    it('round-trips an export', () => {
+      const tx: Transaction = {
+        id: '1',
+        hash: '0xabc',
+        fromAddress: '0xfrom',
+        toAddress: address,
+        amount: '1500000000000000000',
+        status: 'confirmed',
+        gasLimit: '21000',
+        gasPrice: '20000000000',
+        timestamp: '2024-01-15T10:00:00Z',
+      };
+
+      expect(csvToImportRows(transactionsToCsv([tx]))).toEqual([
+        {
+          line: 2,
+          transaction: { toAddress: address, amount: '1.5', gasLimit: '21000', gasPrice: '0.00000002' },
+          errors: [],
+        },
+      ]);
+    });
+
+    it('round-trips a token transfer in whole tokens', () => {
+      const token = { chainId: 1, address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', decimals: 6 };
+      const tx: Transaction = {
+        id: '1',
+        hash: null,
+        chainId: 1,
+        fromAddress: '0xfrom',
+        toAddress: address,
+        tokenAddress: token.address,
+        amount: '2500000',
+        status: 'pending',
+        timestamp: '2024-01-15T10:00:00Z',
+      };
+
+      const [row] = csvToImportRows(transactionsToCsv([tx], [token]));
+      expect(row.transaction).toEqual({ chainId: 1, toAddress: address, tokenAddress: token.address, amount: '2.5' });
+      expect(row.errors).toEqual([]);
+    });
+
+    it('accepts columns in any order and omits empty optional cells', () => {
+      const [row] = csvToImportRows(`amount,toAddress,gasLimit\n0.1,${address},`);
+      expect(row.transaction).toEqual({ toAddress: address, amount: '0.1' });
+      expect(row.errors).toEqual([]);
+    });
+
+    it('reports row-level validation errors', () => {
+      const [row] = csvToImportRows('toAddress,amount,gasLimit,gasPrice\n0x123,0,21.5,abc');
+      expect(row.errors).toEqual([
+        'toAddress must be a valid Ethereum address',
+        'amount must be a positive amount with at most 18 decimal places',
+        'gasLimit must be a whole number',
+        'gasPrice must be a positive ETH amount with at most 18 decimal places',
+      ]);
+    });
+
+    it('rejects files without the required columns', () => {
+      expect(() => csvToImportRows('toAddress,value\n')).toThrow('Missing column(s): amount');
+      expect(() => csvToImportRows('')).toThrow('The file is empty');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { expectedFeePerGas, findTier, formatWait, maxFeePerGas, tierFormValues } from '../fees';
+import { GasEstimate } from '../types';
+
+const gwei = (value: number) => BigInt(value) * BigInt(1000000000);
+
+const estimate: GasEstimate = {
+  chainId: 31337,
+  baseFeePerGas: gwei(10).toString(),
+  sampleSize: 3,
+  tiers: [
+    {
+      tier: 'slow',
+      gasPrice: '11200000000',
+      maxFeePerGas: '21200000000',
+      maxPriorityFeePerGas: '1200000000',
+      estimatedSeconds: 30,
+    },
+    {
+      tier: 'fast',
+      gasPrice: '12250000000',
+      maxFeePerGas: '22250000000',
+      maxPriorityFeePerGas: '2250000000',
+      estimatedSeconds: 4,
+    },
+  ],
+};
+
+describe('maxFeePerGas', () => {
+  it('uses the gas price for legacy pricing and the cap for EIP-1559', () => {
+    expect(maxFeePerGas({ pricing: 'legacy', gasPrice: gwei(20), maxFeePerGas: gwei(30) })).toBe(gwei(20));
+    expect(maxFeePerGas({ pricing: 'eip1559', gasPrice: gwei(20), maxFeePerGas: gwei(30) })).toBe(gwei(30));
+    expect(maxFeePerGas({ pricing: 'eip1559' })).toBeNull();
+  });
+});
+
+describe('expectedFeePerGas', () => {
+  it('adds the tip to the base fee', () => {
+    const fees = { pricing: 'eip1559' as const, maxFeePerGas: gwei(30), maxPriorityFeePerGas: gwei(2) };
+    expect(expectedFeePerGas(fees, gwei(10))).toBe(gwei(12));
+  });
+
+  it('never exceeds the fee cap', () => {
+    const fees = { pricing: 'eip1559' as const, maxFeePerGas: gwei(11), maxPriorityFeePerGas: gwei(2) };
+    expect(expectedFeePerGas(fees, gwei(10))).toBe(gwei(11));
+  });
+
+  it('falls back to the cap without a base fee, and ignores it for legacy pricing', () => {
+    expect(expectedFeePerGas({ pricing: 'eip1559', maxFeePerGas: gwei(30) }, null)).toBe(gwei(30));
+    expect(expectedFeePerGas({ pricing: 'legacy', gasPrice: gwei(20) }, gwei(10))).toBe(gwei(20));
+  });
+});
+
+describe('tierFormValues', () => {
+  const slow = findTier(estimate, 'slow')!;
+
+  it('fills the EIP-1559 fields in ETH', () => {
+    expect(tierFormValues(slow, 'eip1559')).toEqual({
+      gasPrice: '',
+      maxFeePerGas: '0.0000000212',
+      maxPriorityFeePerGas: '0.0000000012',
+    });
+  });
+
+  it('fills the gas price for legacy pricing or when the network has no base fee', () => {
+    const legacy = { gasPrice: '0.0000000112', maxFeePerGas: '', maxPriorityFeePerGas: '' };
+    expect(tierFormValues(slow, 'legacy')).toEqual(legacy);
+    expect(tierFormValues({ ...slow, maxFeePerGas: null, maxPriorityFeePerGas: null }, 'eip1559')).toEqual(legacy);
+  });
+});
+
+describe('findTier', () => {
+  it('returns null for a missing tier or estimate', () => {
+    expect(findTier(estimate, 'fast')?.estimatedSeconds).toBe(4);
+    expect(findTier(estimate, 'standard')).toBeNull();
+    expect(findTier(null, 'fast')).toBeNull();
+  });
+});
+
+describe('formatWait', () => {
+  it('picks a readable unit', () => {
+    expect(formatWait(null)).toBe('Unknown');
+    expect(formatWait(0)).toBe('~1 sec');
+    expect(formatWait(12.4)).toBe('~12 sec');
+    expect(formatWait(150)).toBe('~3 min');
+    expect(formatWait(7200)).toBe('~2 h');
+  });
+});
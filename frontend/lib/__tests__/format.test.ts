@@ -18,19 +18,25 @@ describe('format utilities', () => {
   });
 
   describe('formatAmount', () => {
-    it('formats valid amounts with 2 decimals', () => {
-      expect(formatAmount('1.5')).toBe('1.50');
-      expect(formatAmount('0.123456')).toBe('0.12');
-      expect(formatAmount('100')).toBe('100.00');
+    it('formats wei amounts as ETH', () => {
+      expect(formatAmount('1500000000000000000')).toBe('1.5');
+      expect(formatAmount('123456789000000000')).toBe('0.123457');
+      expect(formatAmount('100000000000000000000')).toBe('100');
+    });
+
+    it('keeps small amounts visible', () => {
+      expect(formatAmount('21000000000000')).toBe('0.000021');
+      expect(formatAmount('1')).toBe('0.000000000000000001');
     });
 
     it('handles invalid amounts', () => {
-      expect(formatAmount('invalid')).toBe('0.00');
-      expect(formatAmount('')).toBe('0.00');
+      expect(formatAmount('invalid')).toBe('0');
+      expect(formatAmount('1.5')).toBe('0');
     });
 
     it('handles zero', () => {
-      expect(formatAmount('0')).toBe('0.00');
+      expect(formatAmount('0')).toBe('0');
+      expect(formatAmount('')).toBe('0');
     });
   });
 
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { explorerAddressUrl, explorerTxUrl, findNetwork, getStoredChainId, storeChainId } from '../networks';
+import { Network } from '../types';
+
+const sepolia: Network = {
+  chainId: 11155111,
+  name: 'Sepolia',
+  nativeSymbol: 'ETH',
+  simulated: false,
+  explorerTxUrl: 'https://sepolia.etherscan.io/tx/{hash}',
+  explorerAddressUrl: 'https://sepolia.etherscan.io/address/{address}',
+  isDefault: false,
+};
+
+const local: Network = {
+  chainId: 31337,
+  name: 'Simulated',
+  nativeSymbol: 'ETH',
+  simulated: true,
+  explorerTxUrl: null,
+  explorerAddressUrl: null,
+  isDefault: true,
+};
+
+describe('explorer links', () => {
+  it('fills the network templates', () => {
+    expect(explorerTxUrl(sepolia, '0xabc')).toBe('https://sepolia.etherscan.io/tx/0xabc');
+    expect(explorerAddressUrl(sepolia, '0xdef')).toBe('https://sepolia.etherscan.io/address/0xdef');
+  });
+
+  it('returns null without an explorer or a network', () => {
+    expect(explorerTxUrl(local, '0xabc')).toBeNull();
+    expect(explorerAddressUrl(undefined, '0xdef')).toBeNull();
+  });
+});
+
+describe('findNetwork', () => {
+  it('looks a network up by chain ID', () => {
+    expect(findNetwork([local, sepolia], 11155111)).toBe(sepolia);
+    expect(findNetwork([local, sepolia], 1)).toBeUndefined();
+    expect(findNetwork([local, sepolia], null)).toBeUndefined();
+  });
+});
+
+describe('stored network selection', () => {
+  const store = new Map<string, string>();
+
+  beforeEach(() => {
+    store.clear();
+    vi.stubGlobal('window', globalThis);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('round-trips a chain ID and clears it for all networks', () => {
+    expect(getStoredChainId()).toBeNull();
+    storeChainId(31337);
+    expect(getStoredChainId()).toBe(31337);
+    storeChainId(null);
+    expect(getStoredChainId()).toBeNull();
+  });
+
+  it('ignores a malformed value', () => {
+    store.set('network', 'mainnet');
+    expect(getStoredChainId()).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTransactionQuery,
+  fetchAllTransactions,
+  MAX_PAGE_SIZE,
+  transactionMatchesQuery,
+  TransactionFilters,
+} from '../query';
+import { PaginatedResponse, Transaction, TransactionQuery } from '../types';
+
+const defaults: TransactionFilters = {
+  status: 'all',
+  dateFrom: '',
+  dateTo: '',
+  address: '',
+  minAmount: '',
+  maxAmount: '',
+  sortField: 'date',
+  sortOrder: 'desc',
+};
+
+describe('buildTransactionQuery', () => {
+  it('only sends sort and limit when no filters are set', () => {
+    expect(buildTransactionQuery(defaults, 15)).toEqual({
+      sortBy: 'date',
+      order: 'desc',
+      limit: 15,
+    });
+  });
+
+  it('omits the status when filtering by all', () => {
+    expect(buildTransactionQuery({ ...defaults, status: 'pending' }, 15).status).toBe('pending');
+    expect(buildTransactionQuery(defaults, 15)).not.toHaveProperty('status');
+  });
+
+  it('expands the date range to cover whole local days', () => {
+    const query = buildTransactionQuery({ ...defaults, dateFrom: '2024-01-15', dateTo: '2024-01-16' }, 15);
+    expect(query.from).toBe(new Date(2024, 0, 15).toISOString());
+    expect(query.to).toBe(new Date(2024, 0, 16, 23, 59, 59, 999).toISOString());
+  });
+
+  it('ignores malformed dates', () => {
+    const query = buildTransactionQuery({ ...defaults, dateFrom: 'yesterday' }, 15);
+    expect(query).not.toHaveProperty('from');
+  });
+
+  it('trims the address and amount range', () => {
+    const query = buildTransactionQuery(
+      { ...defaults, address: ' 0xabc ', minAmount: ' 0.5', maxAmount: '2 ' },
+      15,
+    );
+    expect(query.address).toBe('0xabc');
+    expect(query.minAmount).toBe('0.5');
+    expect(query.maxAmount).toBe('2');
+  });
+
+  it('ignores amounts that are not valid ETH values', () => {
+    const query = buildTransactionQuery({ ...defaults, minAmount: '1.', maxAmount: 'abc' }, 15);
+    expect(query).not.toHaveProperty('minAmount');
+    expect(query).not.toHaveProperty('maxAmount');
+  });
+
+  it('narrows to the selected network', () => {
+    expect(buildTransactionQuery({ ...defaults, chainId: 1 }, 15).chainId).toBe(1);
+    expect(buildTransactionQuery({ ...defaults, chainId: null }, 15)).not.toHaveProperty('chainId');
+  });
+
+  it('filters by asset unless all assets are shown', () => {
+    expect(buildTransactionQuery({ ...defaults, asset: 'native' }, 15).asset).toBe('native');
+    expect(buildTransactionQuery({ ...defaults, asset: 'all' }, 15)).not.toHaveProperty('asset');
+  });
+
+  it('validates the amount range against the asset decimals', () => {
+    const query = buildTransactionQuery({ ...defaults, minAmount: '1.5', maxAmount: '1.25', assetDecimals: 1 }, 15);
+    expect(query.minAmount).toBe('1.5');
+    expect(query).not.toHaveProperty('maxAmount');
+  });
+
+  it('passes the cursor through', () => {
+    expect(buildTransactionQuery(defaults, 15, 'abc').cursor).toBe('abc');
+  });
+});
+
+describe('transactionMatchesQuery', () => {
+  const tx: Transaction = {
+    id: '1',
+    hash: '0xabc',
+    fromAddress: '0xAAAA000000000000000000000000000000000001',
+    toAddress: '0xbbbb000000000000000000000000000000000002',
+    amount: '1500000000000000000',
+    status: 'pending',
+    timestamp: '2024-01-15T10:00:00.000Z',
+    chainId: 1,
+  };
+
+  it('matches when no filters are set', () => {
+    expect(transactionMatchesQuery(tx, {})).toBe(true);
+  });
+
+  it('filters by network', () => {
+    expect(transactionMatchesQuery(tx, { chainId: 1 })).toBe(true);
+    expect(transactionMatchesQuery(tx, { chainId: 137 })).toBe(false);
+  });
+
+  it('filters by asset', () => {
+    const token = { ...tx, tokenAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' };
+    expect(transactionMatchesQuery(tx, { asset: 'native' })).toBe(true);
+    expect(transactionMatchesQuery(token, { asset: 'native' })).toBe(false);
+    expect(transactionMatchesQuery(token, { asset: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48' })).toBe(true);
+    expect(transactionMatchesQuery(tx, { asset: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48' })).toBe(false);
+  });
+
+  it('filters by status', () => {
+    expect(transactionMatchesQuery(tx, { status: 'pending' })).toBe(true);
+    expect(transactionMatchesQuery(tx, { status: 'failed' })).toBe(false);
+  });
+
+  it('filters by date range', () => {
+    expect(transactionMatchesQuery(tx, { from: '2024-01-15T00:00:00.000Z', to: '2024-01-16T00:00:00.000Z' })).toBe(true);
+    expect(transactionMatchesQuery(tx, { from: '2024-01-16T00:00:00.000Z' })).toBe(false);
+    expect(transactionMatchesQuery(tx, { to: '2024-01-14T00:00:00.000Z' })).toBe(false);
+  });
+
+  it('matches either address case-insensitively', () => {
+    expect(transactionMatchesQuery(tx, { address: '0xaaaa' })).toBe(true);
+    expect(transactionMatchesQuery(tx, { address: 'BBBB' })).toBe(true);
+    expect(transactionMatchesQuery(tx, { address: '0xcccc' })).toBe(false);
+  });
+
+  it('matches the sender or recipient alone', () => {
+    expect(transactionMatchesQuery(tx, { fromAddress: '0xaaaa' })).toBe(true);
+    expect(transactionMatchesQuery(tx, { fromAddress: '0xbbbb' })).toBe(false);
+    expect(transactionMatchesQuery(tx, { toAddress: 'BBBB' })).toBe(true);
+    expect(transactionMatchesQuery(tx, { toAddress: '0xaaaa' })).toBe(false);
+  });
+
+  it('filters by amount range', () => {
+    expect(transactionMatchesQuery(tx, { minAmount: '1', maxAmount: '2' })).toBe(true);
+    expect(transactionMatchesQuery(tx, { minAmount: '2' })).toBe(false);
+    expect(transactionMatchesQuery(tx, { maxAmount: '1' })).toBe(false);
+  });
+
+  it('scales the amount range by the asset decimals', () => {
+    const token = { ...tx, amount: '1500000' };
+    expect(transactionMatchesQuery(token, { minAmount: '1', maxAmount: '2' }, 6)).toBe(true);
+    expect(transactionMatchesQuery(token, { minAmount: '1' })).toBe(false);
+  });
+});
+
+describe('fetchAllTransactions', () => {
+  it('follows the cursor until the last page, keeping the filters', async () => {
+    const pages: Record<string, PaginatedResponse<Transaction>> = {
+      first: { success: true, data: [{ id: 'a' }, { id: 'b' }] as Transaction[], nextCursor: 'c1', totalCount: 3 },
+      c1: { success: true, data: [{ id: 'c' }] as Transaction[], nextCursor: null, totalCount: 3 },
+    };
+    const requests: TransactionQuery[] = [];
+    const all = await fetchAllTransactions({ status: 'pending', limit: 15, cursor: 'on-screen' }, async (query) => {
+      requests.push(query);
+      return pages[query.cursor ?? 'first'];
+    });
+
+    expect(all.map((tx) => tx.id)).toEqual(['a', 'b', 'c']);
+    expect(requests).toEqual([
+      { status: 'pending', limit: MAX_PAGE_SIZE },
+      { status: 'pending', limit: MAX_PAGE_SIZE, cursor: 'c1' },
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { describeProjection, simulationIssues } from '../simulation';
+import { BalanceProjection, Simulation } from '../types';
+
+const simulation: Simulation = {
+  valid: false,
+  errors: [],
+  violations: ['Insufficient funds'],
+  warnings: ['1 transaction(s) with the same sender, recipient, asset and amount are outstanding'],
+  fromAddress: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  chainId: 31337,
+  nonce: 4,
+  gasEstimate: '21000',
+  fee: null,
+  balances: [],
+  duplicates: [],
+};
+
+const projection: BalanceProjection = {
+  address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  chainId: 31337,
+  tokenAddress: null,
+  symbol: 'ETH',
+  decimals: 18,
+  openingBalance: '100000000000000000000',
+  balance: '100000000000000000000',
+  pendingOutflow: '0',
+  available: '100000000000000000000',
+  spend: '1500000000000000000',
+  remaining: '98500000000000000000',
+};
+
+describe('simulationIssues', () => {
+  it('lists errors and violations before warnings', () => {
+    expect(simulationIssues({ ...simulation, errors: ['amount must be a positive number'] })).toEqual([
+      { severity: 'error', message: 'amount must be a positive number' },
+      { severity: 'error', message: 'Insufficient funds' },
+      { severity: 'warning', message: simulation.warnings[0] },
+    ]);
+  });
+
+  it('is empty for a clean simulation', () => {
+    expect(simulationIssues({ ...simulation, violations: [], warnings: [] })).toEqual([]);
+  });
+});
+
+describe('describeProjection', () => {
+  it('shows the available balance before and after', () => {
+    expect(describeProjection(projection)).toBe('100 ETH → 98.5 ETH');
+  });
+
+  it('shows a shortfall as a negative balance', () => {
+    expect(describeProjection({ ...projection, decimals: 6, symbol: 'USDC', available: '1000000', remaining: '-500000' })).toBe(
+      '1 USDC → -0.5 USDC',
+    );
+  });
+});
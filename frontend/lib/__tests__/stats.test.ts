@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { applyStatusChange, feeBars, feeStatsQuery, statsRange, topAddressesQuery } from '../stats';
+import { FeeBucket, NetworkFees, Stats } from '../types';
+
+const stats: Stats = {
+  totalTransactions: 4,
+  volumes: [],
+  successRate: '25.00',
+  pendingCount: 1,
+  submittedCount: 1,
+  confirmedCount: 1,
+  failedCount: 1,
+  droppedCount: 0,
+  replacedCount: 0,
+};
+
+describe('applyStatusChange', () => {
+  it('moves a transaction between status counters', () => {
+    const next = applyStatusChange(stats, 'submitted', 'confirmed');
+    expect(next.submittedCount).toBe(0);
+    expect(next.confirmedCount).toBe(2);
+    expect(next.failedCount).toBe(1);
+    expect(next.totalTransactions).toBe(4);
+  });
+
+  it('recalculates the success rate', () => {
+    expect(applyStatusChange(stats, 'submitted', 'confirmed').successRate).toBe('50.00');
+    expect(applyStatusChange(stats, 'submitted', 'dropped').successRate).toBe('25.00');
+  });
+
+  it('returns the same stats when the status did not change', () => {
+    expect(applyStatusChange(stats, 'pending', 'pending')).toBe(stats);
+  });
+
+  it('never lets a counter go negative', () => {
+    const next = applyStatusChange({ ...stats, submittedCount: 0 }, 'submitted', 'failed');
+    expect(next.submittedCount).toBe(0);
+  });
+});
+
+describe('statsRange', () => {
+  const now = new Date('2024-03-14T12:00:00.000Z');
+  const noDates = { dateFrom: '', dateTo: '' };
+
+  it('leaves lifetime stats unfiltered', () => {
+    expect(statsRange('all', { dateFrom: '2024-01-01', dateTo: '' }, now)).toEqual({});
+  });
+
+  it('reaches back from now without an end for presets', () => {
+    expect(statsRange('24h', noDates, now)).toEqual({ from: '2024-03-13T12:00:00.000Z' });
+    expect(statsRange('7d', noDates, now)).toEqual({ from: '2024-03-07T12:00:00.000Z' });
+    expect(statsRange('30d', noDates, now)).toEqual({ from: '2024-02-13T12:00:00.000Z' });
+  });
+
+  it('covers whole local days for a custom range', () => {
+    expect(statsRange('custom', { dateFrom: '2024-01-15', dateTo: '2024-01-16' }, now)).toEqual({
+      from: new Date(2024, 0, 15).toISOString(),
+      to: new Date(2024, 0, 16, 23, 59, 59, 999).toISOString(),
+    });
+  });
+
+  it('ignores empty or malformed custom dates', () => {
+    expect(statsRange('custom', { dateFrom: '', dateTo: 'tomorrow' }, now)).toEqual({});
+    expect(statsRange('custom', { dateFrom: '2024-01-15', dateTo: '' }, now)).toEqual({
+      from: new Date(2024, 0, 15).toISOString(),
+    });
+  });
+});
+
+describe('topAddressesQuery', () => {
+  it('keeps the stats filters when ranking by count', () => {
+    expect(topAddressesQuery({ chainId: 1, from: '2024-01-01T00:00:00.000Z' }, 'count')).toEqual({
+      chainId: 1,
+      from: '2024-01-01T00:00:00.000Z',
+      sortBy: 'count',
+      limit: 10,
+    });
+  });
+
+  it('ranks volume in the native currency unless an asset is filtered', () => {
+    expect(topAddressesQuery({ chainId: 1 }, 'volume', 5)).toEqual({
+      chainId: 1,
+      asset: 'native',
+      sortBy: 'volume',
+      limit: 5,
+    });
+    expect(topAddressesQuery({ chainId: 1, asset: '0xtoken' }, 'volume').asset).toBe('0xtoken');
+  });
+});
+
+describe('feeStatsQuery', () => {
+  it('buckets by hour, day or week to suit the range', () => {
+    expect(feeStatsQuery('24h', { chainId: 1, from: '2024-01-01T00:00:00.000Z' })).toEqual({
+      chainId: 1,
+      from: '2024-01-01T00:00:00.000Z',
+      interval: 'hour',
+    });
+    expect(feeStatsQuery('30d', {}).interval).toBe('day');
+    expect(feeStatsQuery('all', {}).interval).toBe('week');
+  });
+});
+
+describe('feeBars', () => {
+  const fees = (chainId: number, totalFees: string, failedFees = '0'): NetworkFees => ({
+    chainId,
+    symbol: 'ETH',
+    minedCount: 1,
+    failedCount: failedFees === '0' ? 0 : 1,
+    totalFees,
+    failedFees,
+    averageGasPrice: null,
+    medianGasPrice: null,
+    feePercentOfVolume: null,
+  });
+  const bucket = (start: string, entries: NetworkFees[]): FeeBucket => ({ start, end: start, fees: entries });
+
+  it('scales each bucket against the costliest one', () => {
+    const bars = feeBars(
+      [
+        bucket('a', [fees(1, '4000000000000000', '1000000000000000'), fees(5, '99000000000000000000')]),
+        bucket('b', [fees(1, '8000000000000000')]),
+        bucket('c', []),
+      ],
+      1,
+    );
+    expect(bars.map((bar) => [bar.height, bar.failedHeight])).toEqual([
+      [50, 12.5],
+      [100, 0],
+      [0, 0],
+    ]);
+    expect(bars[0].totalFees).toBe(BigInt('4000000000000000'));
+  });
+
+  it('is flat without fees', () => {
+    expect(feeBars([bucket('a', [])], 1)).toEqual([
+      { start: 'a', end: 'a', totalFees: BigInt(0), failedFees: BigInt(0), height: 0, failedHeight: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { findToken, transactionAsset } from '../tokens';
+import { Network, Token, Transaction } from '../types';
+
+const polygon: Network = {
+  chainId: 137,
+  name: 'Polygon',
+  nativeSymbol: 'POL',
+  simulated: false,
+  explorerTxUrl: null,
+  explorerAddressUrl: null,
+  isDefault: false,
+};
+
+const usdc: Token = {
+  chainId: 137,
+  address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+  symbol: 'USDC',
+  decimals: 6,
+};
+
+const tx: Transaction = {
+  id: '1',
+  hash: null,
+  chainId: 137,
+  fromAddress: '0xaaaa000000000000000000000000000000000001',
+  toAddress: '0xbbbb000000000000000000000000000000000002',
+  amount: '1000000',
+  status: 'pending',
+  timestamp: '2024-01-15T10:00:00.000Z',
+};
+
+describe('findToken', () => {
+  it('matches the address case-insensitively on the same network', () => {
+    expect(findToken([usdc], 137, usdc.address.toLowerCase())).toBe(usdc);
+    expect(findToken([usdc], 1, usdc.address)).toBeUndefined();
+  });
+});
+
+describe('transactionAsset', () => {
+  it("uses the network's native currency for plain transfers", () => {
+    expect(transactionAsset(tx, [polygon], [usdc])).toEqual({ symbol: 'POL', decimals: 18 });
+  });
+
+  it('uses the token symbol and decimals for token transfers', () => {
+    expect(transactionAsset({ ...tx, tokenAddress: usdc.address }, [polygon], [usdc])).toEqual({
+      symbol: 'USDC',
+      decimals: 6,
+    });
+  });
+
+  it('leaves amounts of unregistered tokens in base units', () => {
+    expect(transactionAsset({ ...tx, tokenAddress: usdc.address }, [polygon], [])).toEqual({
+      symbol: '0x3c49...3359',
+      decimals: 0,
+    });
+  });
+});
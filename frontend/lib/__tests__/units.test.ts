@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { formatUnits, formatUnitsRounded, formatWei, isValidUnits, parseUnits, pickUnit } from '../units';
+
+describe('unit utilities', () => {
+  describe('parseUnits', () => {
+    it('converts ETH to wei exactly', () => {
+      expect(parseUnits('1.5')).toBe(BigInt('1500000000000000000'));
+      expect(parseUnits('0.000021')).toBe(BigInt('21000000000000'));
+      expect(parseUnits('0.000000000000000001')).toBe(BigInt(1));
+      expect(parseUnits('0.1') + parseUnits('0.2')).toBe(parseUnits('0.3'));
+    });
+
+    it('supports other decimal counts', () => {
+      expect(parseUnits('20', 9)).toBe(BigInt('20000000000'));
+      expect(parseUnits('1.25', 6)).toBe(BigInt(1250000));
+    });
+
+    it('rejects malformed amounts and excess precision', () => {
+      expect(() => parseUnits('abc')).toThrow();
+      expect(() => parseUnits('-1')).toThrow();
+      expect(() => parseUnits('1e-5')).toThrow();
+      expect(() => parseUnits('0.0000000000000000001')).toThrow();
+    });
+  });
+
+  describe('isValidUnits', () => {
+    it('accepts up to the allowed number of decimals', () => {
+      expect(isValidUnits('1')).toBe(true);
+      expect(isValidUnits('1.123456789012345678')).toBe(true);
+      expect(isValidUnits('1.1234567890123456789')).toBe(false);
+      expect(isValidUnits('1.5', 0)).toBe(false);
+      expect(isValidUnits('')).toBe(false);
+    });
+  });
+
+  describe('formatUnits', () => {
+    it('formats wei as exact ETH', () => {
+      expect(formatUnits('1500000000000000000')).toBe('1.5');
+      expect(formatUnits('21000000000000')).toBe('0.000021');
+      expect(formatUnits('1')).toBe('0.000000000000000001');
+      expect(formatUnits('0')).toBe('0');
+    });
+
+    it('round-trips with parseUnits', () => {
+      for (const value of ['0', '1', '0.1', '123.456', '0.000000000000000001']) {
+        expect(formatUnits(parseUnits(value))).toBe(value);
+      }
+    });
+  });
+
+  describe('formatUnitsRounded', () => {
+    it('rounds large values to the maximum decimals', () => {
+      expect(formatUnitsRounded('1234567890000000000')).toBe('1.234568');
+    });
+
+    it('keeps significant digits for small values', () => {
+      expect(formatUnitsRounded('123456789000000')).toBe('0.0001235');
+    });
+  });
+
+  describe('pickUnit and formatWei', () => {
+    it('chooses a readable unit', () => {
+      expect(pickUnit('1500000000000000000')).toBe('ETH');
+      expect(pickUnit('20000000000')).toBe('gwei');
+      expect(pickUnit('42')).toBe('wei');
+      expect(pickUnit('0')).toBe('ETH');
+    });
+
+    it('formats with the chosen unit', () => {
+      expect(formatWei('1500000000000000000')).toBe('1.5 ETH');
+      expect(formatWei('20000000000')).toBe('20 gwei');
+      expect(formatWei('42')).toBe('42 wei');
+      expect(formatWei('420000000000000', 'ETH')).toBe('0.00042 ETH');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { AbiArgument, AbiEntry, AbiParameter } from './types';
+
+// A function of an uploaded ABI that a transaction can call
+export type AbiFunctionOption = {
+  name: string;
+  signature: string; // canonical, e.g. transfer(address,uint256); names overloads unambiguously
+  inputs: AbiParameter[];
+  payable: boolean;
+};
+
+// uint and int are aliases of uint256 and int256 in signatures
+function canonicalType(type: string): string {
+  return type.replace(/^(u?int)(?=\[|$)/, '$1256');
+}
+
+/**
+ * Reads a JSON ABI, either the bare array or a compiler artifact holding it
+ * under `abi` (as Hardhat and Foundry write them).
+ */
+export function parseAbiJson(text: string): AbiEntry[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const abi = Array.isArray(parsed) ? parsed : (parsed as { abi?: unknown } | null)?.abi;
+  if (!Array.isArray(abi)) {
+    throw new Error('Expected a JSON ABI array, or an artifact with an "abi" array');
+  }
+  return abi;
+}
+
+// Functions that change state; view and pure ones cannot do anything in a transaction
+export function writableFunctions(abi: AbiEntry[]): AbiFunctionOption[] {
+  return abi
+    .filter((entry) => (entry.type ?? 'function') === 'function' && entry.name)
+    .filter((entry) => entry.stateMutability !== 'view' && entry.stateMutability !== 'pure' && !entry.constant)
+    .map((entry) => {
+      const inputs = entry.inputs ?? [];
+      return {
+        name: entry.name as string,
+        signature: `${entry.name}(${inputs.map((input) => canonicalType(input.type)).join(',')})`,
+        inputs,
+        payable: entry.stateMutability === 'payable',
+      };
+    });
+}
+
+/**
+ * Turns the text typed for an argument into the JSON value the backend
+ * encodes: arrays are typed as JSON, booleans as true or false, and
+ * everything else passes through as a string.
+ */
+export function parseArgument(type: string, text: string): AbiArgument {
+  const value = text.trim();
+  if (type.endsWith(']')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      parsed = null;
+    }
+    if (!Array.isArray(parsed)) throw new Error(`Enter a JSON array, e.g. ["1", "2"]`);
+    return parsed;
+  }
+  if (type === 'bool') {
+    if (value !== 'true' && value !== 'false') throw new Error('Enter true or false');
+    return value === 'true';
+  }
+  if (value === '') throw new Error('Required');
+  return value;
+}
+
+export function argumentPlaceholder(type: string): string {
+  if (type.endsWith(']')) return '["...", "..."]';
+  if (type === 'bool') return 'true or false';
+  if (type === 'address' || type.startsWith('bytes')) return '0x...';
+  if (type === 'string') return 'Text';
+  return 'Decimal or 0x number';
+}
+
+// Decoded values for display; arrays as JSON
+export function formatArgument(value: AbiArgument): string {
+  return Array.isArray(value) ? JSON.stringify(value) : String(value);
+}
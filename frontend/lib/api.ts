@@ -1,4 +1,44 @@
 import axios from 'axios';
+import {
+  AbiArgument,
+  AbiEntry,
+  BulkMode,
+  FeeStatsQuery,
+  TopAddressesQuery,
+  TransactionFilterQuery,
+  TransactionQuery,
+} from './types';
+
+// Narrows a read to one network; the backend's default network when left out
+type ChainScope = {
+  chainId?: number;
+};
+
+// A contract call to encode with an uploaded ABI; `function` is a name or full signature
+type ContractCall = {
+  abiId: string;
+  function: string;
+  args: AbiArgument[];
+};
+
+// Fees in ETH per unit of gas: either gasPrice or the EIP-1559 pair
+type FeeFields = {
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+};
+
+// Body of POST /transactions, also accepted by POST /transactions/simulate
+export type CreateTransactionBody = FeeFields & {
+  chainId?: number;
+  fromAccountId?: string;
+  toAddress: string;
+  tokenAddress?: string;
+  data?: string;
+  call?: ContractCall;
+  amount: string;
+  gasLimit?: string;
+};
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000/api';
 
@@ -13,14 +53,58 @@ const api = axios.create({
 
 // Transactions API
 export const transactionsAPI = {
-  getAll: () => api.get('/transactions'),
+  getAll: (query: TransactionQuery = {}) => api.get('/transactions', { params: query }),
   getById: (id: string) => api.get(`/transactions/${id}`),
-  create: (data: {
-    toAddress: string;
-    amount: string;
-    gasLimit?: string;
-    gasPrice?: string;
-  }) => api.post('/transactions', data),
+  getHistory: (id: string) => api.get(`/transactions/${id}/history`),
+  // The decoded contract call, or null when no uploaded ABI has the function
+  getCall: (id: string) => api.get(`/transactions/${id}/call`),
+  create: (data: CreateTransactionBody, options: { idempotencyKey?: string } = {}) =>
+    api.post('/transactions', data, {
+      headers: options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined,
+    }),
+  // Reports what creating the transaction would do; nothing is saved
+  simulate: (data: CreateTransactionBody) => api.post('/transactions/simulate', data),
+  createBulk: (data: {
+    mode: BulkMode;
+    transactions: (FeeFields & {
+      chainId?: number;
+      toAddress: string;
+      tokenAddress?: string;
+      amount: string;
+      gasLimit?: string;
+    })[];
+  }) => api.post('/transactions/bulk', data),
+  // Both create a replacement with the same nonce; fees left out default to the minimum bump
+  cancel: (id: string, data: FeeFields = {}) => api.post(`/transactions/${id}/cancel`, data),
+  speedUp: (id: string, data: FeeFields = {}) => api.post(`/transactions/${id}/speed-up`, data),
+};
+
+// Accounts API
+export const accountsAPI = {
+  getAll: () => api.get('/accounts'),
+  create: (data: { label?: string } = {}) => api.post('/accounts', data),
+  getNonce: (address: string, params: ChainScope = {}) => api.get(`/accounts/${address}/nonce`, { params }),
+  // The native currency's balance unless tokenAddress is given
+  getBalance: (address: string, params: ChainScope & { tokenAddress?: string } = {}) =>
+    api.get(`/accounts/${address}/balance`, { params }),
+};
+
+// Networks API
+export const networksAPI = {
+  getAll: () => api.get('/networks'),
+};
+
+// Tokens API
+export const tokensAPI = {
+  // Every network's tokens unless chainId is given
+  getAll: (params: ChainScope = {}) => api.get('/tokens', { params }),
+};
+
+// ABIs API
+export const abisAPI = {
+  // ABIs usable on chainId (bound to one of its contracts or unbound), or every ABI
+  getAll: (params: ChainScope = {}) => api.get('/abis', { params }),
+  create: (data: { name: string; abi: AbiEntry[]; chainId?: number; address?: string }) => api.post('/abis', data),
 };
 
 // Init API
@@ -30,7 +114,17 @@ export const initAPI = {
 
 // Stats API
 export const statsAPI = {
-  getStats: () => api.get('/stats'),
+  // Every transaction on every network unless filtered, as the transaction list is
+  getStats: (params: TransactionFilterQuery = {}) => api.get('/stats', { params }),
+  getFees: (params: FeeStatsQuery = {}) => api.get('/stats/fees', { params }),
+  getTopAddresses: (params: TopAddressesQuery = {}) => api.get('/stats/addresses', { params }),
+  getAddressStats: (address: string, params: TransactionFilterQuery = {}) =>
+    api.get(`/stats/addresses/${address}`, { params }),
+};
+
+// Gas API
+export const gasAPI = {
+  estimate: (params: ChainScope = {}) => api.get('/gas/estimate', { params }),
 };
 
 export default api;
@@ -1,4 +1,6 @@
-import { Transaction } from './types';
+import { Token, Transaction } from './types';
+import { formatUnits, isValidUnits, parseUnits } from './units';
+import { transactionAsset } from './tokens';
 
 function escapeCsv(value: string): string {
   if (value == null) return '';
@@ -7,28 +9,165 @@ function escapeCsv(value: string): string {
   return needsQuotes ? `"${escaped}"` : escaped;
 }
 
-export function transactionsToCsv(rows: Transaction[]): string {
+// Amounts are exported as exact decimals in whole units of their asset, and gas prices and fees as exact
+// ETH decimals, matching what the create form accepts. `tokens` supplies the decimals of token amounts.
+// `fee` is the actual fee from the receipt and is empty until the transaction is mined.
+export function transactionsToCsv(rows: Transaction[], tokens: Token[] = []): string {
   const headers = [
-    'id', 'hash', 'fromAddress', 'toAddress', 'amount', 'status', 'gasLimit', 'gasPrice', 'timestamp'
+    'id', 'hash', 'fromAddress', 'toAddress', 'amount', 'status', 'gasLimit', 'gasPrice', 'fee', 'timestamp',
+    'chainId', 'tokenAddress'
   ];
   const lines = [headers.join(',')];
   for (const r of rows) {
     const vals = [
       r.id,
-      r.hash,
+      r.hash ?? '',
       r.fromAddress,
       r.toAddress,
-      r.amount,
+      formatUnits(r.amount, transactionAsset(r, [], tokens).decimals),
       r.status,
       r.gasLimit ?? '',
-      r.gasPrice ?? '',
+      r.gasPrice ? formatUnits(r.gasPrice) : '',
+      r.fee ? formatUnits(r.fee) : '',
       r.timestamp,
+      r.chainId ?? '',
+      r.tokenAddress ?? '',
     ].map(v => escapeCsv(String(v)));
     lines.push(vals.join(','));
   }
   return lines.join('\n');
 }
 
+/**
+ * Splits CSV text into records of fields. Handles quoted fields containing
+ * commas, quotes ("") and line breaks, and both LF and CRLF line endings.
+ * Each record carries the 1-based line it starts on.
+ */
+export function parseCsv(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    // Skip blank lines
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || fields.length > 0) endRecord();
+
+  return records;
+}
+
+export type ImportedTransaction = {
+  chainId?: number;
+  toAddress: string;
+  tokenAddress?: string;
+  amount: string;
+  gasLimit?: string;
+  gasPrice?: string;
+};
+
+export type ImportRow = {
+  line: number;
+  transaction: ImportedTransaction;
+  errors: string[];
+};
+
+const REQUIRED_IMPORT_COLUMNS = ['toAddress', 'amount'];
+
+function validateImportedTransaction(tx: ImportedTransaction): string[] {
+  const errors: string[] = [];
+  if (!/^0x[a-fA-F0-9]{40}$/.test(tx.toAddress)) {
+    errors.push('toAddress must be a valid Ethereum address');
+  }
+  if (tx.chainId !== undefined && !(Number.isInteger(tx.chainId) && tx.chainId > 0)) {
+    errors.push('chainId must be a positive whole number');
+  }
+  if (tx.tokenAddress !== undefined && !/^0x[a-fA-F0-9]{40}$/.test(tx.tokenAddress)) {
+    errors.push('tokenAddress must be a valid Ethereum address');
+  }
+  // A token's own decimals are checked by the backend
+  if (!isValidUnits(tx.amount) || parseUnits(tx.amount) <= BigInt(0)) {
+    errors.push('amount must be a positive amount with at most 18 decimal places');
+  }
+  if (tx.gasLimit !== undefined && !/^\d+$/.test(tx.gasLimit)) {
+    errors.push('gasLimit must be a whole number');
+  }
+  if (tx.gasPrice !== undefined && (!isValidUnits(tx.gasPrice) || parseUnits(tx.gasPrice) <= BigInt(0))) {
+    errors.push('gasPrice must be a positive ETH amount with at most 18 decimal places');
+  }
+  return errors;
+}
+
+/**
+ * Reads transactions to create from a CSV with the columns that
+ * `transactionsToCsv` writes. Only chainId, toAddress, tokenAddress, amount,
+ * gasLimit and gasPrice are used, so an export can be re-imported as is. Throws when the header
+ * lacks a required column; row problems are reported per row instead.
+ */
+export function csvToImportRows(text: string): ImportRow[] {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) throw new Error('The file is empty');
+
+  const columns = header.fields.map(name => name.trim());
+  const missing = REQUIRED_IMPORT_COLUMNS.filter(name => !columns.includes(name));
+  if (missing.length > 0) {
+    throw new Error(`Missing column(s): ${missing.join(', ')}`);
+  }
+
+  return records.map(({ line, fields }) => {
+    const value = (name: string) => {
+      const index = columns.indexOf(name);
+      return index === -1 ? '' : (fields[index] ?? '').trim();
+    };
+    // Empty optional cells are left out so the backend applies its defaults
+    const transaction: ImportedTransaction = { toAddress: value('toAddress'), amount: value('amount') };
+    if (value('chainId')) transaction.chainId = Number(value('chainId'));
+    if (value('tokenAddress')) transaction.tokenAddress = value('tokenAddress');
+    if (value('gasLimit')) transaction.gasLimit = value('gasLimit');
+    if (value('gasPrice')) transaction.gasPrice = value('gasPrice');
+    const errors = validateImportedTransaction(transaction);
+    if (fields.length > columns.length) {
+      errors.push(`Expected ${columns.length} columns but found ${fields.length}`);
+    }
+    return { line, transaction, errors };
+  });
+}
+
 export function downloadCsv(filename: string, csv: string) {
   const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
   const url = URL.createObjectURL(blob);
@@ -0,0 +1,54 @@
+// Fee arithmetic for the create form. Values are integer wei per unit of gas unless noted.
+import { FeePricing, GasEstimate, GasTier, GasTierEstimate } from './types';
+import { formatUnits } from './units';
+
+export type FeeInput = {
+  pricing: FeePricing;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+};
+
+// Most a transaction can pay per unit of gas: the gas price or the fee cap
+export function maxFeePerGas(fees: FeeInput): bigint | null {
+  const fee = fees.pricing === 'eip1559' ? fees.maxFeePerGas : fees.gasPrice;
+  return fee ?? null;
+}
+
+/**
+ * Expected price per unit of gas at the given base fee. An EIP-1559
+ * transaction pays the base fee plus its tip, capped at its fee cap; without a
+ * known base fee the cap is the best guess.
+ */
+export function expectedFeePerGas(fees: FeeInput, baseFeePerGas: bigint | null): bigint | null {
+  const cap = maxFeePerGas(fees);
+  if (cap === null || fees.pricing === 'legacy' || baseFeePerGas === null) return cap;
+  const offered = baseFeePerGas + (fees.maxPriorityFeePerGas ?? BigInt(0));
+  return offered < cap ? offered : cap;
+}
+
+export function findTier(estimate: GasEstimate | null, tier: GasTier): GasTierEstimate | null {
+  return estimate?.tiers.find((entry) => entry.tier === tier) ?? null;
+}
+
+// Form values (ETH per unit of gas) for a tier under the chosen pricing
+export function tierFormValues(
+  tier: GasTierEstimate,
+  pricing: FeePricing,
+): { gasPrice: string; maxFeePerGas: string; maxPriorityFeePerGas: string } {
+  if (pricing === 'eip1559' && tier.maxFeePerGas !== null && tier.maxPriorityFeePerGas !== null) {
+    return {
+      gasPrice: '',
+      maxFeePerGas: formatUnits(tier.maxFeePerGas),
+      maxPriorityFeePerGas: formatUnits(tier.maxPriorityFeePerGas),
+    };
+  }
+  return { gasPrice: formatUnits(tier.gasPrice), maxFeePerGas: '', maxPriorityFeePerGas: '' };
+}
+
+export function formatWait(seconds: number | null): string {
+  if (seconds === null) return 'Unknown';
+  if (seconds < 60) return `~${Math.max(1, Math.round(seconds))} sec`;
+  if (seconds < 3600) return `~${Math.round(seconds / 60)} min`;
+  return `~${Math.round(seconds / 3600)} h`;
+}
@@ -1,12 +1,21 @@
+import { ETH_DECIMALS, formatUnitsRounded } from './units';
+
 export function truncateAddress(address: string): string {
   if (!address || address.length < 10) return address;
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 }
 
-export function formatAmount(amount: string): string {
-  const num = parseFloat(amount);
-  if (isNaN(num)) return '0.00';
-  return num.toFixed(2);
+/**
+ * Formats a base-unit amount in whole units for display, without the unit
+ * suffix; wei as ETH by default. Small amounts keep enough digits to stay
+ * visible (21000000000000 -> "0.000021").
+ */
+export function formatAmount(amount: string, decimals = ETH_DECIMALS): string {
+  try {
+    return formatUnitsRounded(amount, decimals);
+  } catch {
+    return '0';
+  }
 }
 
 export function formatTimestamp(isoString: string): string {
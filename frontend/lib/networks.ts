@@ -0,0 +1,37 @@
+import { Network } from './types';
+
+const NETWORK_KEY = 'network';
+
+// The network the dashboard and transaction list are narrowed to; null for all networks
+export function getStoredChainId(): number | null {
+  if (typeof window === 'undefined') return null;
+  const value = Number(localStorage.getItem(NETWORK_KEY));
+  return Number.isInteger(value) && value > 0 ? value : null;
+}
+
+export function storeChainId(chainId: number | null) {
+  if (typeof window === 'undefined') return;
+  if (chainId === null) localStorage.removeItem(NETWORK_KEY);
+  else localStorage.setItem(NETWORK_KEY, String(chainId));
+}
+
+export function findNetwork(networks: Network[], chainId: number | null | undefined): Network | undefined {
+  return chainId ? networks.find((network) => network.chainId === chainId) : undefined;
+}
+
+/**
+ * Fills a network's explorer template, or returns null when the network is
+ * unknown or has no explorer (e.g. a local or simulated chain).
+ */
+export function explorerTxUrl(network: Network | undefined, hash: string): string | null {
+  return network?.explorerTxUrl ? network.explorerTxUrl.replace('{hash}', hash) : null;
+}
+
+export function explorerAddressUrl(network: Network | undefined, address: string): string | null {
+  return network?.explorerAddressUrl ? network.explorerAddressUrl.replace('{address}', address) : null;
+}
+
+// Amounts are in the network's native asset; ETH when it is unknown or every network is shown
+export function nativeSymbol(network: Network | undefined): string {
+  return network?.nativeSymbol ?? 'ETH';
+}
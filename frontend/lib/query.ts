@@ -0,0 +1,134 @@
+import {
+  PaginatedResponse,
+  SortOrder,
+  Transaction,
+  TransactionFilterQuery,
+  TransactionQuery,
+  TransactionSortField,
+} from './types';
+import { ETH_DECIMALS, isValidUnits, parseUnits } from './units';
+
+export type TransactionFilters = {
+  chainId?: number | null; // null or left out for every network
+  asset?: string; // 'all' (or left out), 'native' or a token address
+  assetDecimals?: number; // decimals of the filtered asset, which the amount range is in; 18 by default
+  status: string; // 'all' or a transaction status
+  dateFrom: string; // yyyy-mm-dd, as produced by <input type="date">
+  dateTo: string;
+  address: string;
+  minAmount: string;
+  maxAmount: string;
+  sortField: TransactionSortField;
+  sortOrder: SortOrder;
+};
+
+// A yyyy-mm-dd date as the start or end of that day in local time
+export function parseLocalDate(value: string, endOfDay: boolean): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999)
+    : new Date(year, month - 1, day);
+}
+
+export function buildTransactionQuery(
+  filters: TransactionFilters,
+  limit: number,
+  cursor?: string,
+): TransactionQuery {
+  const query: TransactionQuery = {
+    sortBy: filters.sortField,
+    order: filters.sortOrder,
+    limit,
+  };
+
+  if (filters.chainId) query.chainId = filters.chainId;
+  if (filters.asset && filters.asset !== 'all') query.asset = filters.asset;
+
+  if (filters.status !== 'all') {
+    query.status = filters.status as Transaction['status'];
+  }
+
+  const from = parseLocalDate(filters.dateFrom, false);
+  if (from) query.from = from.toISOString();
+
+  const to = parseLocalDate(filters.dateTo, true);
+  if (to) query.to = to.toISOString();
+
+  const address = filters.address.trim();
+  if (address) query.address = address;
+
+  // Half-typed amounts ("1.") are ignored rather than sent to the API
+  const minAmount = filters.minAmount.trim();
+  const maxAmount = filters.maxAmount.trim();
+  const decimals = filters.assetDecimals ?? ETH_DECIMALS;
+  if (minAmount && isValidUnits(minAmount, decimals)) query.minAmount = minAmount;
+  if (maxAmount && isValidUnits(maxAmount, decimals)) query.maxAmount = maxAmount;
+  if (cursor) query.cursor = cursor;
+
+  return query;
+}
+
+// The most transactions the list endpoint returns per request
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Every transaction matching a list query, in its order, following the cursor
+ * from page to page. Any cursor or limit on the query is replaced.
+ */
+export async function fetchAllTransactions(
+  query: TransactionQuery,
+  fetchPage: (query: TransactionQuery) => Promise<PaginatedResponse<Transaction>>,
+): Promise<Transaction[]> {
+  const filters = { ...query };
+  delete filters.cursor;
+  const transactions: Transaction[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: PaginatedResponse<Transaction> = await fetchPage(
+      cursor ? { ...filters, limit: MAX_PAGE_SIZE, cursor } : { ...filters, limit: MAX_PAGE_SIZE },
+    );
+    transactions.push(...page.data);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return transactions;
+}
+
+/**
+ * Client-side mirror of the backend list filters, used to decide whether a
+ * transaction pushed over the socket belongs in the current result set.
+ * `decimals` is the filtered asset's, as for the backend's amount range.
+ */
+export function transactionMatchesQuery(
+  tx: Transaction,
+  query: TransactionFilterQuery,
+  decimals = ETH_DECIMALS,
+): boolean {
+  if (query.chainId && tx.chainId !== query.chainId) return false;
+  if (query.asset === 'native' && tx.tokenAddress) return false;
+  if (query.asset && query.asset !== 'native' && tx.tokenAddress?.toLowerCase() !== query.asset.toLowerCase()) {
+    return false;
+  }
+  if (query.status && tx.status !== query.status) return false;
+
+  const timestamp = new Date(tx.timestamp).getTime();
+  if (query.from && timestamp < new Date(query.from).getTime()) return false;
+  if (query.to && timestamp > new Date(query.to).getTime()) return false;
+
+  if (query.address) {
+    const needle = query.address.toLowerCase();
+    if (!tx.fromAddress.toLowerCase().includes(needle) && !tx.toAddress.toLowerCase().includes(needle)) {
+      return false;
+    }
+  }
+  if (query.fromAddress && !tx.fromAddress.toLowerCase().includes(query.fromAddress.toLowerCase())) return false;
+  if (query.toAddress && !tx.toAddress.toLowerCase().includes(query.toAddress.toLowerCase())) return false;
+
+  // The amount range is in whole units while transaction amounts are in base units
+  const amount = BigInt(tx.amount);
+  if (query.minAmount && amount < parseUnits(query.minAmount, decimals)) return false;
+  if (query.maxAmount && amount > parseUnits(query.maxAmount, decimals)) return false;
+
+  return true;
+}
@@ -0,0 +1,22 @@
+// Helpers for the review step of the create form, from POST /transactions/simulate
+import { BalanceProjection, Simulation } from './types';
+import { formatUnitsRounded } from './units';
+
+export type SimulationIssue = {
+  severity: 'error' | 'warning';
+  message: string;
+};
+
+// Errors and violations block the create; warnings only need a second look
+export function simulationIssues(simulation: Simulation): SimulationIssue[] {
+  return [
+    ...[...simulation.errors, ...simulation.violations].map((message) => ({ severity: 'error' as const, message })),
+    ...simulation.warnings.map((message) => ({ severity: 'warning' as const, message })),
+  ];
+}
+
+// What is available of an asset now and after sending, e.g. `100 ETH → 98.99 ETH`
+export function describeProjection(projection: BalanceProjection): string {
+  const { available, remaining, decimals, symbol } = projection;
+  return `${formatUnitsRounded(available, decimals)} ${symbol} → ${formatUnitsRounded(remaining, decimals)} ${symbol}`;
+}
@@ -0,0 +1,18 @@
+import { io, Socket } from 'socket.io-client';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000/api';
+
+// The gateway is served from the backend root, not under the /api prefix
+const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || API_BASE_URL.replace(/\/api\/?$/, '');
+
+let socket: Socket | null = null;
+
+export function getSocket(): Socket {
+  if (!socket) {
+    socket = io(SOCKET_URL, {
+      transports: ['websocket'],
+      reconnectionDelayMax: 10000,
+    });
+  }
+  return socket;
+}
@@ -0,0 +1,153 @@
+import {
+  AddressRanking,
+  FeeBucket,
+  FeeStatsQuery,
+  Stats,
+  StatsInterval,
+  TopAddressesQuery,
+  Transaction,
+  TransactionFilterQuery,
+} from './types';
+import { parseLocalDate } from './query';
+
+type CountKey =
+  | 'pendingCount'
+  | 'submittedCount'
+  | 'confirmedCount'
+  | 'failedCount'
+  | 'droppedCount'
+  | 'replacedCount';
+
+const COUNT_KEYS: Record<Transaction['status'], CountKey> = {
+  pending: 'pendingCount',
+  submitted: 'submittedCount',
+  confirmed: 'confirmedCount',
+  failed: 'failedCount',
+  dropped: 'droppedCount',
+  replaced: 'replacedCount',
+};
+
+function withSuccessRate(stats: Stats): Stats {
+  const rate = stats.totalTransactions > 0 ? (stats.confirmedCount / stats.totalTransactions) * 100 : 0;
+  return { ...stats, successRate: rate.toFixed(2) };
+}
+
+/**
+ * Moves one transaction between the status counters, mirroring what the
+ * backend would report after a `transaction.statusChanged` event.
+ */
+export function applyStatusChange(
+  stats: Stats,
+  previousStatus: Transaction['status'],
+  nextStatus: Transaction['status'],
+): Stats {
+  if (previousStatus === nextStatus) return stats;
+
+  const next = { ...stats };
+  const previousKey = COUNT_KEYS[previousStatus];
+  const nextKey = COUNT_KEYS[nextStatus];
+  next[previousKey] = Math.max(0, stats[previousKey] - 1);
+  next[nextKey] = stats[nextKey] + 1;
+
+  return withSuccessRate(next);
+}
+
+export type StatsRangePreset = 'all' | '24h' | '7d' | '30d' | 'custom';
+
+export const STATS_RANGE_PRESETS: { value: StatsRangePreset; label: string }[] = [
+  { value: 'all', label: 'All time' },
+  { value: '24h', label: '24h' },
+  { value: '7d', label: '7d' },
+  { value: '30d', label: '30d' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const PRESET_HOURS: Record<'24h' | '7d' | '30d', number> = {
+  '24h': 24,
+  '7d': 7 * 24,
+  '30d': 30 * 24,
+};
+
+/**
+ * The `from`/`to` filters for a dashboard range. Presets reach back from
+ * `now` and stay open-ended, so transactions created later still count; a
+ * custom range covers whole local days, and either end may be left empty.
+ */
+export function statsRange(
+  preset: StatsRangePreset,
+  custom: { dateFrom: string; dateTo: string },
+  now = new Date(),
+): Pick<TransactionFilterQuery, 'from' | 'to'> {
+  if (preset === 'all') return {};
+  if (preset !== 'custom') {
+    return { from: new Date(now.getTime() - PRESET_HOURS[preset] * HOUR_MS).toISOString() };
+  }
+
+  const range: Pick<TransactionFilterQuery, 'from' | 'to'> = {};
+  const from = parseLocalDate(custom.dateFrom, false);
+  const to = parseLocalDate(custom.dateTo, true);
+  if (from) range.from = from.toISOString();
+  if (to) range.to = to.toISOString();
+  return range;
+}
+
+/**
+ * The query for the dashboard's top addresses. Amounts of different assets
+ * cannot be ranked against each other, so ranking by volume narrows the
+ * stats query to the native currency unless it names an asset already. The
+ * backend also needs a network for it.
+ */
+export function topAddressesQuery(
+  query: TransactionFilterQuery,
+  sortBy: AddressRanking,
+  limit = 10,
+): TopAddressesQuery {
+  if (sortBy === 'count') return { ...query, sortBy, limit };
+  return { ...query, asset: query.asset ?? 'native', sortBy, limit };
+}
+
+const PRESET_INTERVALS: Record<StatsRangePreset, StatsInterval> = {
+  all: 'week',
+  '24h': 'hour',
+  '7d': 'day',
+  '30d': 'day',
+  custom: 'day',
+};
+
+/**
+ * The query for the dashboard's fees: the stats query bucketed to suit its
+ * range. Without a `from`, as for all time, the backend covers the last
+ * 12 weeks.
+ */
+export function feeStatsQuery(preset: StatsRangePreset, query: TransactionFilterQuery): FeeStatsQuery {
+  return { ...query, interval: PRESET_INTERVALS[preset] };
+}
+
+export type FeeBar = {
+  start: string;
+  end: string;
+  totalFees: bigint;
+  failedFees: bigint;
+  // Percentages of the costliest bucket's fees, for the bar and its failed part
+  height: number;
+  failedHeight: number;
+};
+
+// One network's fees in each bucket, scaled for a bar chart
+export function feeBars(buckets: FeeBucket[], chainId: number): FeeBar[] {
+  const rows = buckets.map(({ start, end, fees }) => {
+    const network = fees.find((entry) => entry.chainId === chainId);
+    return {
+      start,
+      end,
+      totalFees: BigInt(network?.totalFees ?? 0),
+      failedFees: BigInt(network?.failedFees ?? 0),
+    };
+  });
+  const max = rows.reduce((top, row) => (row.totalFees > top ? row.totalFees : top), BigInt(0));
+  // Hundredths of a percent keep small buckets visible without floating-point division of wei
+  const scale = (value: bigint) => (max > BigInt(0) ? Number((value * BigInt(10000)) / max) / 100 : 0);
+  return rows.map((row) => ({ ...row, height: scale(row.totalFees), failedHeight: scale(row.failedFees) }));
+}
@@ -0,0 +1,29 @@
+import { Network, Token, Transaction } from './types';
+import { ETH_DECIMALS } from './units';
+import { findNetwork, nativeSymbol } from './networks';
+import { truncateAddress } from './format';
+
+// What an amount is denominated in
+export type Asset = {
+  symbol: string;
+  decimals: number;
+};
+
+export function findToken(tokens: Token[], chainId: number | undefined, address: string): Token | undefined {
+  const lower = address.toLowerCase();
+  return tokens.find((token) => token.chainId === chainId && token.address.toLowerCase() === lower);
+}
+
+/**
+ * The asset a transaction moves. A token missing from the registry shows its
+ * address, with amounts left in base units since its decimals are unknown.
+ */
+export function transactionAsset(tx: Transaction, networks: Network[], tokens: Token[]): Asset {
+  if (!tx.tokenAddress) {
+    return { symbol: nativeSymbol(findNetwork(networks, tx.chainId)), decimals: ETH_DECIMALS };
+  }
+  const token = findToken(tokens, tx.chainId, tx.tokenAddress);
+  return token
+    ? { symbol: token.symbol, decimals: token.decimals }
+    : { symbol: truncateAddress(tx.tokenAddress), decimals: 0 };
+}
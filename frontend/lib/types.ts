@@ -1,16 +1,342 @@
 export type Transaction = {
   id: string;
-  hash: string;
+  hash: string | null; // assigned when the transaction is broadcast
+  rawTransaction?: string | null; // signed payload, set before the first broadcast
+  chainId?: number; // the network the transaction is sent on
   fromAddress: string;
-  toAddress: string;
-  amount: string; // numeric string from API
-  status: 'pending' | 'confirmed' | 'failed';
+  fromAccountId?: string | null; // the sender account
+  toAddress: string; // the recipient, also for token transfers
+  tokenAddress?: string | null; // ERC-20 token transferred; null for the native currency
+  data?: string | null; // hex calldata of a contract call to toAddress; null for plain transfers
+  amount: string; // integer base units of the asset (wei for the native currency)
+  status: 'pending' | 'submitted' | 'confirmed' | 'failed' | 'dropped' | 'replaced';
   gasLimit?: string;
+  // Fees in integer wei per unit of gas: gasPrice for legacy, the fee cap and tip for EIP-1559
+  type?: FeePricing;
   gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  // Receipt data, null until mined
+  blockNumber?: number | null;
+  blockHash?: string | null;
+  gasUsed?: string | null;
+  effectiveGasPrice?: string | null; // integer wei per unit of gas
+  fee?: string | null; // actual fee in wei: gasUsed x effectiveGasPrice
+  confirmations?: number;
+  failureReason?: string | null;
+  nonce?: number;
+  replacesId?: string; // set on cancel and speed-up replacements
+  replacementType?: 'cancel' | 'speed-up';
   timestamp: string; // ISO
 };
 
+export type FeePricing = 'legacy' | 'eip1559';
+
+export type GasTier = 'slow' | 'standard' | 'fast';
+
+// One tier of GET /gas/estimate, fees in integer wei per unit of gas
+export type GasTierEstimate = {
+  tier: GasTier;
+  gasPrice: string;
+  // null on networks without EIP-1559
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  estimatedSeconds: number | null; // null until some transactions have confirmed
+};
+
+export type GasEstimate = {
+  chainId: number;
+  baseFeePerGas: string | null;
+  sampleSize: number;
+  tiers: GasTierEstimate[];
+};
+
+export type StatusChange = {
+  timestamp: string; // ISO
+  previousStatus: Transaction['status'] | null;
+  status: Transaction['status'];
+  actor: string;
+  reason: string | null;
+};
+
+// Volume of one asset, i.e. one network's native currency or one token
+export type AssetVolume = {
+  chainId: number;
+  tokenAddress: string | null; // null for the native currency
+  symbol: string;
+  decimals: number;
+  transactionCount: number;
+  totalVolume: string; // integer base units
+  averageAmount: string; // integer base units
+};
+
+export type Stats = {
+  totalTransactions: number;
+  volumes: AssetVolume[];
+  successRate: string;
+  pendingCount: number;
+  submittedCount: number;
+  confirmedCount: number;
+  failedCount: number;
+  droppedCount: number;
+  replacedCount: number;
+};
+
+// Fees mined transactions on one network paid; amounts and gas prices in wei
+export type NetworkFees = {
+  chainId: number;
+  symbol: string; // the network's native currency
+  minedCount: number;
+  failedCount: number;
+  totalFees: string;
+  failedFees: string;
+  averageGasPrice: string | null; // null without transactions
+  medianGasPrice: string | null;
+  feePercentOfVolume: string | null; // null without native-currency volume
+};
+
+export type StatsInterval = 'hour' | 'day' | 'week';
+
+export type FeeBucket = {
+  start: string; // ISO
+  end: string; // ISO
+  fees: NetworkFees[];
+};
+
+export type FeeStats = {
+  interval: StatsInterval;
+  from: string; // ISO
+  to: string; // ISO
+  totals: NetworkFees[];
+  buckets: FeeBucket[];
+};
+
+// What an address sent or received among the transactions a stats query matches
+export type AddressActivity = {
+  transactionCount: number;
+  confirmedCount: number;
+  failedCount: number;
+  successRate: string;
+  lastActivity: string | null; // ISO; null without transactions
+  volumes: AssetVolume[];
+};
+
+export type RankedAddress = AddressActivity & {
+  address: string; // checksummed
+};
+
+// Volume can only be ranked within one network and asset
+export type AddressRanking = 'count' | 'volume';
+
+export type TopAddresses = {
+  sortBy: AddressRanking;
+  senders: RankedAddress[];
+  recipients: RankedAddress[];
+};
+
+export type AddressStats = {
+  address: string;
+  sent: AddressActivity;
+  received: AddressActivity;
+};
+
+// Payloads pushed by the backend WebSocket gateway
+export type TransactionCreatedEvent = {
+  transaction: Transaction;
+};
+
+export type TransactionUpdatedEvent = {
+  transaction: Transaction;
+};
+
+// A dropped transaction left its nonce unused while later ones from the same sender wait
+export type TransactionNonceGapEvent = {
+  transaction: Transaction;
+  fromAddress: string;
+  nonce: number;
+};
+
+export type TransactionStatusChangedEvent = {
+  transaction: Transaction;
+  previousStatus: Transaction['status'];
+};
+
 export type ApiResponse<T> = {
   success: boolean;
   data: T;
-};
\ No newline at end of file
+};
+
+export type PaginatedResponse<T> = ApiResponse<T[]> & {
+  nextCursor: string | null;
+  totalCount: number;
+};
+
+// A network from the backend's registry
+export type Network = {
+  chainId: number;
+  name: string;
+  nativeSymbol: string;
+  simulated: boolean; // true when the backend runs the network in-process
+  // Explorer link templates with {hash} and {address} placeholders
+  explorerTxUrl: string | null;
+  explorerAddressUrl: string | null;
+  isDefault: boolean; // used when a request names no chainId
+};
+
+// An ERC-20 token from the backend's registry
+export type Token = {
+  chainId: number;
+  address: string; // EIP-55 checksummed
+  symbol: string;
+  decimals: number;
+};
+
+export type AbiParameter = {
+  name?: string;
+  type: string;
+};
+
+// One entry of a JSON ABI; only functions are used
+export type AbiEntry = {
+  type?: string; // entries without a type are functions
+  name?: string;
+  inputs?: AbiParameter[];
+  stateMutability?: string;
+  constant?: boolean; // pre-0.5 compilers mark view functions this way
+};
+
+// An uploaded contract ABI, bound to one contract or usable for any
+export type Abi = {
+  id: string;
+  name: string;
+  chainId: number | null;
+  address: string | null;
+  abi: AbiEntry[];
+  createdAt: string; // ISO
+};
+
+// GET /transactions/:id/call
+export type DecodedCall = {
+  abiId: string;
+  abiName: string;
+  function: string;
+  signature: string; // e.g. transfer(address,uint256)
+  args: { name: string; type: string; value: AbiArgument }[];
+};
+
+// Argument values as the backend takes and returns them: integers and bytes as strings, arrays as arrays
+export type AbiArgument = string | boolean | AbiArgument[];
+
+// A sender account derived from the backend's HD wallet
+export type Account = {
+  id: string;
+  address: string;
+  label: string | null;
+  index: number; // BIP-44 address index
+  path: string;
+  createdAt: string; // ISO
+};
+
+// GET /accounts/:address/nonce
+export type AccountNonce = {
+  address: string;
+  chainId: number;
+  nextNonce: number; // assigned to the next transaction created from this address
+  chainNonce: number; // the node's count, including its mempool
+  pendingCount: number;
+  gaps: number[]; // dropped nonces that block later transactions
+};
+
+// GET /accounts/:address/balance, amounts in integer base units of the asset
+export type AccountBalance = {
+  address: string;
+  chainId: number;
+  tokenAddress: string | null; // null for the native currency
+  symbol: string;
+  decimals: number;
+  openingBalance: string;
+  balance: string; // opening balance plus confirmed transfers, less mined fees
+  pendingOutflow: string; // what pending and submitted transactions may still spend
+  available: string; // balance less pendingOutflow; creates that need more are rejected
+};
+
+// An account balance with what a simulated transaction would spend of it
+export type BalanceProjection = AccountBalance & {
+  spend: string; // the amount, plus the maximum fee for the native currency
+  remaining: string; // available afterwards; negative when it cannot be afforded
+};
+
+// POST /transactions/simulate; fees in wei
+export type Simulation = {
+  valid: boolean; // creating the same body now would succeed
+  errors: string[]; // malformed body or unknown network, account, token or ABI
+  violations: string[]; // rules the create would be rejected for, e.g. insufficient funds
+  warnings: string[];
+  fromAddress: string | null;
+  chainId: number | null;
+  nonce: number | null;
+  gasEstimate: string | null;
+  fee: {
+    gasLimit: string;
+    type: FeePricing;
+    gasPrice?: string;
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+    baseFeePerGas: string | null;
+    maxFee: string;
+    estimatedFee: string;
+  } | null;
+  balances: BalanceProjection[];
+  duplicates: Transaction[]; // outstanding or recently confirmed transactions with the same details
+};
+
+export type BulkMode = 'atomic' | 'best-effort';
+
+// Outcome of one row of POST /transactions/bulk, by its index in the request
+export type BulkRowResult =
+  | { index: number; status: 'created'; transaction: Transaction }
+  | { index: number; status: 'invalid' | 'error'; errors: string[] }
+  | { index: number; status: 'skipped' };
+
+export type BulkCreateResult = {
+  mode: BulkMode;
+  createdCount: number;
+  failedCount: number;
+  results: BulkRowResult[];
+};
+
+export type TransactionSortField = 'date' | 'amount' | 'status';
+export type SortOrder = 'asc' | 'desc';
+
+// Filters accepted by GET /transactions and the stats endpoints
+export type TransactionFilterQuery = {
+  chainId?: number;
+  asset?: string; // 'native' or a token address
+  status?: Transaction['status'];
+  from?: string; // ISO
+  to?: string; // ISO
+  address?: string; // either side
+  fromAddress?: string;
+  toAddress?: string;
+  minAmount?: string;
+  maxAmount?: string;
+};
+
+// Query parameters accepted by GET /stats/fees; the range defaults to a fixed number of buckets
+export type FeeStatsQuery = TransactionFilterQuery & {
+  interval?: StatsInterval;
+};
+
+// Query parameters accepted by GET /stats/addresses
+export type TopAddressesQuery = TransactionFilterQuery & {
+  sortBy?: AddressRanking;
+  limit?: number;
+};
+
+// Query parameters accepted by GET /transactions
+export type TransactionQuery = TransactionFilterQuery & {
+  sortBy?: TransactionSortField;
+  order?: SortOrder;
+  limit?: number;
+  cursor?: string;
+};
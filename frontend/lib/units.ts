@@ -0,0 +1,98 @@
+// Exact conversions between decimal strings and integer base units (wei).
+// BigInt literals need an ES2020 target, so values are built with BigInt().
+
+export const ETH_DECIMALS = 18;
+export const GWEI_DECIMALS = 9;
+
+export type Unit = 'ETH' | 'gwei' | 'wei';
+
+const UNIT_DECIMALS: Record<Unit, number> = {
+  ETH: ETH_DECIMALS,
+  gwei: GWEI_DECIMALS,
+  wei: 0,
+};
+
+const ZERO = BigInt(0);
+
+function pow10(exponent: number): bigint {
+  return BigInt('1' + '0'.repeat(exponent));
+}
+
+export function isValidUnits(value: string, decimals = ETH_DECIMALS): boolean {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value.trim());
+  return !!match && (match[2] ?? '').length <= decimals;
+}
+
+/**
+ * Converts a decimal string in whole units to base units, e.g.
+ * parseUnits('1.5') === 1500000000000000000n. Throws on malformed input or
+ * more fractional digits than `decimals`.
+ */
+export function parseUnits(value: string, decimals = ETH_DECIMALS): bigint {
+  if (!isValidUnits(value, decimals)) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+  const [whole, fraction = ''] = value.trim().split('.');
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+/**
+ * Converts base units to an exact decimal string with trailing zeros trimmed,
+ * e.g. formatUnits('21000000000000') === '0.000021'.
+ */
+export function formatUnits(value: bigint | string, decimals = ETH_DECIMALS): string {
+  const amount = BigInt(value);
+  const negative = amount < ZERO;
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Rounds a base-unit value for display. Values of 1 or more keep up to
+ * `maxDecimals` places; smaller values keep `significantDigits` significant
+ * digits so tiny amounts never collapse to zero.
+ */
+export function formatUnitsRounded(
+  value: bigint | string,
+  decimals = ETH_DECIMALS,
+  maxDecimals = 6,
+  significantDigits = 4,
+): string {
+  const amount = BigInt(value);
+  if (amount === ZERO) return '0';
+
+  const negative = amount < ZERO;
+  const absolute = negative ? -amount : amount;
+  const scale = pow10(decimals);
+
+  let places = Math.min(maxDecimals, decimals);
+  if (absolute < scale) {
+    // Zeros between the decimal point and the first digit, e.g. 4 for 0.000021
+    const leadingZeros = decimals - absolute.toString().length;
+    places = Math.min(decimals, Math.max(places, leadingZeros + significantDigits));
+  }
+
+  const step = pow10(decimals - places);
+  const rounded = ((absolute + step / BigInt(2)) / step) * step;
+  return `${negative ? '-' : ''}${formatUnits(rounded, decimals)}`;
+}
+
+/**
+ * Picks the unit that reads best for a wei value: ETH for anything from
+ * 0.0001 ETH up, gwei for gas-price sized values, and plain wei below that.
+ */
+export function pickUnit(wei: bigint | string): Unit {
+  const amount = BigInt(wei);
+  const absolute = amount < ZERO ? -amount : amount;
+  if (absolute === ZERO || absolute >= pow10(ETH_DECIMALS - 4)) return 'ETH';
+  if (absolute >= pow10(GWEI_DECIMALS - 3)) return 'gwei';
+  return 'wei';
+}
+
+export function formatWei(wei: bigint | string, unit: Unit = pickUnit(wei)): string {
+  const decimals = UNIT_DECIMALS[unit];
+  const maxDecimals = unit === 'ETH' ? 6 : 3;
+  return `${formatUnitsRounded(wei, decimals, maxDecimals)} ${unit}`;
+}